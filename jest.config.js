@@ -16,6 +16,7 @@ module.exports = {
     "!src/**/*.test.ts",
     "!src/**/*.spec.ts",
     "!src/examples/**/*",
+    "!src/generated/**/*",
   ],
   coverageDirectory: "coverage",
   coverageReporters: ["text", "lcov", "html"],
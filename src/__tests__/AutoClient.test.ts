@@ -1,7 +1,17 @@
 import { AutoClient } from "../client/AutoClient";
 import { HttpClient } from "../utils/http";
+import { BudgetGuard } from "../utils/budget";
+import {
+  AutoValidationError,
+  ElfaApiError,
+  RateLimitError,
+} from "../utils/errors";
 
-jest.mock("../utils/http");
+// Mock the HttpClient; keep the pure helpers real
+jest.mock("../utils/http", () => ({
+  ...jest.requireActual("../utils/http"),
+  HttpClient: jest.fn(),
+}));
 
 describe("AutoClient", () => {
   let mockHttpClient: jest.Mocked<HttpClient>;
@@ -33,18 +43,21 @@ describe("AutoClient", () => {
 
   it("applies updateOptions to signing and the http client", async () => {
     const client = new AutoClient({ apiKey: "k" });
+    const budgetGuard = new BudgetGuard({ perDay: 100 });
     mockHttpClient.post.mockResolvedValue({ valid: true });
 
     client.updateOptions({
       hmacSecret: "secret",
       baseUrl: "https://staging.api.elfa.ai",
       debug: true,
+      budgetGuard,
     });
 
     expect(mockHttpClient.updateOptions).toHaveBeenCalledWith(
       expect.objectContaining({
         baseURL: "https://staging.api.elfa.ai",
         debug: true,
+        budgetGuard,
       }),
     );
 
@@ -56,6 +69,27 @@ describe("AutoClient", () => {
     );
   });
 
+  it("checks createQuery against the budget with the validated estimate", async () => {
+    const client = new AutoClient({
+      apiKey: "k",
+      budgetGuard: new BudgetGuard({ perDay: 100 }),
+    });
+    mockHttpClient.post
+      .mockResolvedValueOnce({ valid: true, estimatedCredits: 40 })
+      .mockResolvedValueOnce({ queryId: "q1" });
+
+    await client.createQuery(eql, { tag: "alerts" });
+
+    expect(mockHttpClient.post.mock.calls.map(([url]) => url)).toEqual([
+      "/v2/auto/queries/validate",
+      "/v2/auto/queries",
+    ]);
+    expect(mockHttpClient.post.mock.calls[1]![2]).toMatchObject({
+      tag: "alerts",
+      estimatedCredits: 40,
+    });
+  });
+
   it("posts validateQuery unsigned", async () => {
     const client = new AutoClient({ apiKey: "k" });
     mockHttpClient.post.mockResolvedValue({ valid: true });
@@ -89,6 +123,31 @@ describe("AutoClient", () => {
     expect(mockHttpClient.get).toHaveBeenCalledWith("/v2/auto/queries/q1");
   });
 
+  it("inspects a query from its poll response", async () => {
+    const client = new AutoClient({ apiKey: "k" });
+    mockHttpClient.get.mockResolvedValue({
+      queryId: "q1",
+      status: "active",
+      latestEvaluation: {
+        evaluatedAt: "2026-04-01T12:00:00.000Z",
+        conditionStates: [
+          { index: 0, source: "price", currentValue: 90, targetValue: 100 },
+        ],
+        wouldTriggerNow: false,
+        matchingConditions: 0,
+        totalConditions: 1,
+      },
+      executions: [],
+    });
+
+    const inspection = await client.inspectQuery("q1");
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith("/v2/auto/queries/q1");
+    expect(inspection.conditions).toEqual([
+      expect.objectContaining({ index: 0, distance: 10 }),
+    ]);
+  });
+
   it("cancels with no body and no signature when unsigned", async () => {
     const client = new AutoClient({ apiKey: "k" });
     mockHttpClient.post.mockResolvedValue({});
@@ -141,4 +200,325 @@ describe("AutoClient", () => {
       "/v2/auto/validate-symbol/hyperliquid/BTC",
     );
   });
+
+  it("iterates executions by offset while the server reports hasMore", async () => {
+    const client = new AutoClient({ apiKey: "k" });
+    mockHttpClient.get
+      .mockResolvedValueOnce({
+        data: [{ id: "e1" }, { id: "e2" }],
+        pagination: { offset: 0, limit: 2, hasMore: true },
+      })
+      .mockResolvedValueOnce({
+        data: [{ id: "e3" }],
+        pagination: { offset: 2, limit: 2, hasMore: false },
+      });
+
+    const ids: string[] = [];
+    for await (const execution of client.iterateExecutions({
+      queryId: "q1",
+      limit: 2,
+    })) {
+      ids.push((execution as any).id);
+    }
+
+    expect(ids).toEqual(["e1", "e2", "e3"]);
+    expect(mockHttpClient.get).toHaveBeenLastCalledWith(
+      "/v2/auto/executions?queryId=q1&limit=2&offset=2",
+      { priority: "low" },
+    );
+  });
+
+  it("iterates queries from either list shape up to maxPages", async () => {
+    const client = new AutoClient({ apiKey: "k" });
+    mockHttpClient.get
+      .mockResolvedValueOnce({ queries: [{ queryId: "a" }], total: 3 })
+      .mockResolvedValueOnce({ data: [{ queryId: "b" }], total: 3 });
+
+    const ids: string[] = [];
+    for await (const query of client.iterateQueries({}, { maxPages: 2 })) {
+      ids.push(query.queryId!);
+    }
+
+    expect(ids).toEqual(["a", "b"]);
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops iterating drafts after a short page when nothing else is known", async () => {
+    const client = new AutoClient({ apiKey: "k" });
+    mockHttpClient.get.mockResolvedValueOnce({ drafts: [{ draftId: "d1" }] });
+
+    const drafts = [];
+    for await (const draft of client.iterateDrafts({ limit: 5 })) {
+      drafts.push(draft);
+    }
+
+    expect(drafts).toHaveLength(1);
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  describe("errors", () => {
+    const body = {
+      error: "EQL validation failed",
+      details: [
+        {
+          field: "body.query.conditions.AND.0.args.symbol",
+          message: "Unknown",
+        },
+      ],
+    };
+
+    it("types a rejected create as AutoValidationError with issues", async () => {
+      mockHttpClient.post.mockRejectedValue(
+        new ElfaApiError("EQL validation failed", 422, body),
+      );
+      const client = new AutoClient({ apiKey: "k" });
+
+      const error = await client.createQuery(eql).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AutoValidationError);
+      expect(error).toBeInstanceOf(ElfaApiError);
+      expect(error).toMatchObject({
+        statusCode: 422,
+        code: "AUTO_VALIDATION_ERROR",
+        issues: body.details,
+        details: body,
+      });
+    });
+
+    it("types other failures as AutoApiError on get and delete", async () => {
+      mockHttpClient.delete.mockRejectedValue(
+        new ElfaApiError("Not found", 404, { error: "Not found" }),
+      );
+      mockHttpClient.get.mockRejectedValue(
+        new ElfaApiError("Auto disabled", 403, { error: "Auto disabled" }),
+      );
+      const client = new AutoClient({ apiKey: "k" });
+
+      await expect(client.deleteQuery("q1")).rejects.toMatchObject({
+        name: "AutoApiError",
+        statusCode: 404,
+        issues: [],
+      });
+      await expect(client.getQuery("q1")).rejects.toMatchObject({
+        name: "AutoApiError",
+        statusCode: 403,
+      });
+    });
+
+    it("leaves authentication and rate-limit errors alone", async () => {
+      mockHttpClient.post.mockRejectedValue(new RateLimitError("slow down"));
+      const client = new AutoClient({ apiKey: "k" });
+
+      await expect(client.createQuery(eql)).rejects.toMatchObject({
+        name: "RateLimitError",
+      });
+    });
+
+    it("types stream failures the same way", async () => {
+      const originalFetch = global.fetch;
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => JSON.stringify(body),
+        headers: new Headers(),
+      }) as unknown as typeof fetch;
+      const client = new AutoClient({ apiKey: "k" });
+
+      try {
+        await expect(client.streamQuery("q1").next()).rejects.toMatchObject({
+          name: "AutoValidationError",
+          statusCode: 400,
+          issues: body.details,
+        });
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe("streams", () => {
+    const originalFetch = global.fetch;
+
+    const sseResponse = (frames: string) => ({
+      ok: true,
+      status: 200,
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(frames));
+          controller.close();
+        },
+      }),
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+      const items: T[] = [];
+      for await (const item of iterator) items.push(item);
+      return items;
+    }
+
+    it("ends when the connection closes unless asked to reconnect", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValue(sseResponse('id: 1\ndata: {"a":1}\n\n'));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const client = new AutoClient({ apiKey: "k" });
+
+      const events = await collect(
+        client.streamQuery("q1", new AbortController().signal),
+      );
+
+      expect(events).toEqual([{ event: "message", data: { a: 1 }, id: "1" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("signs the stream and retries its connect without reconnect", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          text: async () => "",
+          headers: new Headers(),
+        })
+        .mockResolvedValueOnce(sseResponse('id: 1\ndata: {"a":1}\n\n'));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const client = new AutoClient({
+        apiKey: "k",
+        hmacSecret: "secret",
+        retryDelay: 1,
+      });
+
+      const events = await collect(client.streamQuery("q1"));
+
+      expect(events).toEqual([{ event: "message", data: { a: 1 }, id: "1" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].headers).toEqual(
+        expect.objectContaining({
+          "x-elfa-timestamp": expect.any(String),
+          "x-elfa-signature": expect.any(String),
+        }),
+      );
+    });
+
+    it("reconnects with Last-Event-ID and skips replayed events", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(
+          sseResponse("id: 1\ndata: {}\n\nid: 2\ndata: {}\n\n"),
+        )
+        .mockResolvedValueOnce(
+          sseResponse(
+            "id: 2\ndata: {}\n\nid: 3\ndata: {}\n\nid: 4\nevent: end\ndata: {}\n\n",
+          ),
+        );
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const states: string[] = [];
+      const client = new AutoClient({ apiKey: "k" });
+
+      const events = await collect(
+        client.streamAll({
+          reconnect: { initialDelay: 1 },
+          onStateChange: (change) => states.push(change.state),
+        }),
+      );
+
+      expect(events.map((e) => e.id)).toEqual(["1", "2", "3", "4"]);
+      expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty(
+        "Last-Event-ID",
+      );
+      expect(fetchMock.mock.calls[1][1].headers).toEqual(
+        expect.objectContaining({ "Last-Event-ID": "2" }),
+      );
+      expect(states).toEqual([
+        "connecting",
+        "open",
+        "reconnecting",
+        "connecting",
+        "open",
+        "closed",
+      ]);
+    });
+
+    it("resumes from an id sent on a frame without data", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(sseResponse("id: 1\ndata: {}\n\nid: 5\n\n"))
+        .mockResolvedValueOnce(sseResponse("id: 6\nevent: end\ndata: {}\n\n"));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const client = new AutoClient({ apiKey: "k" });
+
+      const events = await collect(
+        client.streamAll({ reconnect: { initialDelay: 1 } }),
+      );
+
+      expect(events.map((e) => e.id)).toEqual(["1", "6"]);
+      expect(fetchMock.mock.calls[1][1].headers).toEqual(
+        expect.objectContaining({ "Last-Event-ID": "5" }),
+      );
+    });
+
+    it("backs off from the server's retry field", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(sseResponse("retry: 5\n\n"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(sseResponse("event: end\ndata: {}\n\n"));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const delays: number[] = [];
+      const client = new AutoClient({ apiKey: "k" });
+
+      await collect(
+        client.streamQuery("q1", {
+          reconnect: true,
+          onStateChange: (change) => {
+            if (change.delayMs !== undefined) delays.push(change.delayMs);
+          },
+        }),
+      );
+
+      expect(delays).toEqual([5, 10]);
+    });
+
+    it("does not reconnect after an authentication failure", async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => '{"message":"bad key"}',
+        headers: new Headers(),
+      }) as unknown as typeof fetch;
+      const closed = jest.fn();
+      const client = new AutoClient({ apiKey: "k" });
+
+      await expect(
+        collect(
+          client.streamAll({
+            reconnect: true,
+            onStateChange: (change) => {
+              if (change.state === "closed") closed(change.error?.name);
+            },
+          }),
+        ),
+      ).rejects.toMatchObject({ name: "AuthenticationError" });
+      expect(closed).toHaveBeenCalledWith("AuthenticationError");
+    });
+
+    it("gives up after maxAttempts with a NetworkError", async () => {
+      const fetchMock = jest.fn().mockRejectedValue(new TypeError("down"));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const client = new AutoClient({ apiKey: "k" });
+
+      await expect(
+        collect(
+          client.streamAll({
+            reconnect: { initialDelay: 1, maxAttempts: 2 },
+          }),
+        ),
+      ).rejects.toMatchObject({ name: "NetworkError" });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -1,6 +1,11 @@
 import { ElfaSDK } from "../client/ElfaSDK";
 import { ElfaV2Client } from "../client/ElfaV2Client";
+import { AutoClient } from "../client/AutoClient";
 import { ValidationError } from "../utils/errors";
+import { RateLimiter } from "../utils/limiter";
+import { CreditMeter } from "../utils/credits";
+import { BudgetGuard } from "../utils/budget";
+import { KeyPool } from "../utils/keyPool";
 
 jest.mock("../client/ElfaV2Client");
 jest.mock("../client/AutoClient");
@@ -21,6 +26,7 @@ describe("ElfaSDK", () => {
       getTopMentions: jest.fn(),
       getEventSummary: jest.fn(),
       getTrendingNarratives: jest.fn(),
+      iterateTrendingCAs: jest.fn(),
       chat: jest.fn(),
       testConnection: jest.fn(),
       updateOptions: jest.fn(),
@@ -58,6 +64,19 @@ describe("ElfaSDK", () => {
       );
     });
 
+    it("gives the cache to the data client only", () => {
+      const cache = { ttl: 1000 };
+      const sdk = new ElfaSDK({ elfaApiKey: "k", cache });
+
+      expect(ElfaV2Client).toHaveBeenCalledWith(
+        expect.objectContaining({ cache }),
+      );
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.not.objectContaining({ cache }),
+      );
+      expect(sdk.getOptions().cache).toBe(cache);
+    });
+
     it("throws when elfaApiKey is missing", () => {
       expect(() => new ElfaSDK({} as any)).toThrow(
         new ValidationError("elfaApiKey is required"),
@@ -84,21 +103,37 @@ describe("ElfaSDK", () => {
 
       const result = await sdk.getTrendingTokens({ timeWindow: "24h" });
 
-      expect(mockElfaClient.getTrendingTokens).toHaveBeenCalledWith({
-        timeWindow: "24h",
-      });
+      expect(mockElfaClient.getTrendingTokens).toHaveBeenCalledWith(
+        { timeWindow: "24h" },
+        undefined,
+      );
       expect(result).toBe(response);
     });
 
+    it("delegates iterateTrendingCAs", () => {
+      const iterator = (async function* () {})();
+      mockElfaClient.iterateTrendingCAs.mockReturnValue(iterator);
+
+      const result = sdk.iterateTrendingCAs("twitter", {}, { maxPages: 2 });
+
+      expect(mockElfaClient.iterateTrendingCAs).toHaveBeenCalledWith(
+        "twitter",
+        {},
+        { maxPages: 2 },
+      );
+      expect(result).toBe(iterator);
+    });
+
     it("delegates getKeywordMentions", async () => {
       const response = { success: true, data: [] };
       mockElfaClient.getKeywordMentions.mockResolvedValue(response as any);
 
       const result = await sdk.getKeywordMentions({ keywords: "bitcoin" });
 
-      expect(mockElfaClient.getKeywordMentions).toHaveBeenCalledWith({
-        keywords: "bitcoin",
-      });
+      expect(mockElfaClient.getKeywordMentions).toHaveBeenCalledWith(
+        { keywords: "bitcoin" },
+        undefined,
+      );
       expect(result).toBe(response);
     });
 
@@ -108,9 +143,10 @@ describe("ElfaSDK", () => {
 
       const result = await sdk.getTopMentions({ ticker: "BTC" });
 
-      expect(mockElfaClient.getTopMentions).toHaveBeenCalledWith({
-        ticker: "BTC",
-      });
+      expect(mockElfaClient.getTopMentions).toHaveBeenCalledWith(
+        { ticker: "BTC" },
+        undefined,
+      );
       expect(result).toBe(response);
     });
 
@@ -120,9 +156,10 @@ describe("ElfaSDK", () => {
 
       await sdk.getAccountSmartStats({ username: "cz_binance" });
 
-      expect(mockElfaClient.getAccountSmartStats).toHaveBeenCalledWith({
-        username: "cz_binance",
-      });
+      expect(mockElfaClient.getAccountSmartStats).toHaveBeenCalledWith(
+        { username: "cz_binance" },
+        undefined,
+      );
     });
 
     it("delegates getTrendingNarratives", async () => {
@@ -131,18 +168,22 @@ describe("ElfaSDK", () => {
 
       await sdk.getTrendingNarratives({ timeFrame: "day" });
 
-      expect(mockElfaClient.getTrendingNarratives).toHaveBeenCalledWith({
-        timeFrame: "day",
-      });
+      expect(mockElfaClient.getTrendingNarratives).toHaveBeenCalledWith(
+        { timeFrame: "day" },
+        undefined,
+      );
     });
 
     it("delegates chat", async () => {
       const response = { success: true, data: { message: "hi" } };
       mockElfaClient.chat.mockResolvedValue(response as any);
 
-      await sdk.chat({ message: "hello" });
+      await sdk.chat({ message: "hello" }, { tag: "support" });
 
-      expect(mockElfaClient.chat).toHaveBeenCalledWith({ message: "hello" });
+      expect(mockElfaClient.chat).toHaveBeenCalledWith(
+        { message: "hello" },
+        { tag: "support" },
+      );
     });
   });
 
@@ -162,6 +203,170 @@ describe("ElfaSDK", () => {
     });
   });
 
+  describe("rate limiting", () => {
+    it("shares one limiter between the clients", () => {
+      const sdk = new ElfaSDK({
+        elfaApiKey: "k",
+        rateLimit: { requestsPerMinute: 60 },
+      });
+
+      expect(sdk.rateLimiter).toBeInstanceOf(RateLimiter);
+      expect(ElfaV2Client).toHaveBeenCalledWith(
+        expect.objectContaining({ rateLimiter: sdk.rateLimiter }),
+      );
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ rateLimiter: sdk.rateLimiter }),
+      );
+    });
+
+    it("shares one credit meter between the clients", () => {
+      const sdk = new ElfaSDK({ elfaApiKey: "k" });
+
+      expect(sdk.credits).toBeInstanceOf(CreditMeter);
+      expect(ElfaV2Client).toHaveBeenCalledWith(
+        expect.objectContaining({ creditMeter: sdk.credits }),
+      );
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ creditMeter: sdk.credits }),
+      );
+      expect(
+        new ElfaSDK({ elfaApiKey: "k", credits: sdk.credits }).credits,
+      ).toBe(sdk.credits);
+    });
+
+    it("shares a budget guard fed by the credit meter", () => {
+      const sdk = new ElfaSDK({ elfaApiKey: "k", budget: { perDay: 50 } });
+
+      expect(sdk.budget).toBeInstanceOf(BudgetGuard);
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ budgetGuard: sdk.budget }),
+      );
+      sdk.credits.record({ endpoint: "POST /v2/chat", credits: 7 });
+      expect(sdk.budget!.usage().day).toBe(7);
+      expect(new ElfaSDK({ elfaApiKey: "k" }).budget).toBeUndefined();
+    });
+
+    it("hands the preflight to the clients only when enabled", async () => {
+      const sdk = new ElfaSDK({ elfaApiKey: "k", preflight: true });
+      mockElfaClient.getApiKeyStatus.mockResolvedValue({
+        success: true,
+        data: { name: "k", scopes: ["chat"], athenaEnabled: true },
+        keyStatus: {
+          scopes: ["chat"],
+          autoEnabled: true,
+          hasScope: () => true,
+        },
+      } as any);
+
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ preflight: expect.anything() }),
+      );
+      await expect(sdk.capabilities()).resolves.toMatchObject({
+        known: true,
+        auto: true,
+        endpoints: { "POST /v2/auto/chat": true },
+      });
+      await sdk.capabilities();
+      await sdk.capabilities(true);
+      expect(mockElfaClient.getApiKeyStatus).toHaveBeenCalledTimes(2);
+      expect(mockElfaClient.getApiKeyStatus).toHaveBeenCalledWith({
+        cache: false,
+        priority: "high",
+      });
+
+      new ElfaSDK({ elfaApiKey: "k" });
+      expect(ElfaV2Client).toHaveBeenLastCalledWith(
+        expect.not.objectContaining({ preflight: expect.anything() }),
+      );
+    });
+
+    it("pools elfaApiKey and its secret with the extra keys", async () => {
+      const sdk = new ElfaSDK({
+        elfaApiKey: "primary-key",
+        hmacSecret: "primary-secret",
+        keyPool: { keys: [{ apiKey: "second", name: "second" }] },
+      });
+      mockElfaClient.getApiKeyStatus.mockResolvedValue({
+        success: true,
+        data: {},
+        keyStatus: { status: "active", remaining: { daily: 5, monthly: 9 } },
+      } as any);
+
+      expect(sdk.keyPool).toBeInstanceOf(KeyPool);
+      expect(sdk.keyPool!.get("...-key")).toEqual({
+        name: "...-key",
+        apiKey: "primary-key",
+        hmacSecret: "primary-secret",
+      });
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ keyPool: sdk.keyPool }),
+      );
+
+      const usage = await sdk.syncKeyPool();
+
+      expect(mockElfaClient.getApiKeyStatus).toHaveBeenCalledWith({
+        cache: false,
+        priority: "high",
+        poolKey: "second",
+      });
+      expect(usage.map((u) => u.remaining)).toEqual([
+        { daily: 5, monthly: 9 },
+        { daily: 5, monthly: 9 },
+      ]);
+    });
+
+    it("hands one transport to both clients", () => {
+      const transport = { request: jest.fn() };
+      new ElfaSDK({ elfaApiKey: "k", transport });
+
+      expect(ElfaV2Client).toHaveBeenCalledWith(
+        expect.objectContaining({ transport }),
+      );
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ transport }),
+      );
+    });
+
+    it("shares one middleware list that use() adds to and removes from", () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const sdk = new ElfaSDK({ elfaApiKey: "k", middleware: [first] });
+      const { middleware } = (ElfaV2Client as jest.Mock).mock.calls[0][0];
+
+      const remove = sdk.use(second);
+
+      expect(AutoClient).toHaveBeenCalledWith(
+        expect.objectContaining({ middleware }),
+      );
+      expect(middleware).toEqual([first, second]);
+      remove();
+      remove();
+      expect(middleware).toEqual([first]);
+    });
+
+    it("accepts an existing limiter", () => {
+      const rateLimiter = new RateLimiter();
+      const sdk = new ElfaSDK({ elfaApiKey: "k", rateLimit: rateLimiter });
+
+      expect(sdk.rateLimiter).toBe(rateLimiter);
+    });
+
+    it("seeds the limiter from a fresh key status", async () => {
+      const sdk = new ElfaSDK({ elfaApiKey: "k", rateLimit: {} });
+      const status = { success: true, data: {} };
+      mockElfaClient.getApiKeyStatus.mockResolvedValue(status as any);
+      const seed = jest.spyOn(sdk.rateLimiter!, "seed").mockImplementation();
+
+      await expect(sdk.syncRateLimits()).resolves.toBe(status);
+
+      expect(mockElfaClient.getApiKeyStatus).toHaveBeenCalledWith({
+        cache: false,
+        priority: "high",
+      });
+      expect(seed).toHaveBeenCalledWith(status);
+    });
+  });
+
   describe("options", () => {
     it("updateOptions rejects elfaApiKey changes", () => {
       const sdk = new ElfaSDK({ elfaApiKey: "k" });
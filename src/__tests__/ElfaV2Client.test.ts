@@ -1,9 +1,15 @@
 import { ElfaV2Client } from "../client/ElfaV2Client";
 import { HttpClient } from "../utils/http";
 import { ValidationError } from "../utils/errors";
+import { CreditMeter } from "../utils/credits";
+import { KeyStatus } from "../utils/keyStatus";
+import { KeyPool } from "../utils/keyPool";
 
-// Mock the HttpClient
-jest.mock("../utils/http");
+// Mock the HttpClient; keep the pure helpers real
+jest.mock("../utils/http", () => ({
+  ...jest.requireActual("../utils/http"),
+  HttpClient: jest.fn(),
+}));
 
 describe("ElfaV2Client", () => {
   let client: ElfaV2Client;
@@ -41,6 +47,8 @@ describe("ElfaV2Client", () => {
         timeout: 30000,
         retries: 3,
         debug: false,
+        // the same transport the streams use
+        transport: { request: expect.any(Function) },
       });
       expect(mockHttpClient.setAuthHeader).toHaveBeenCalledWith("test-api-key");
     });
@@ -59,6 +67,7 @@ describe("ElfaV2Client", () => {
         timeout: 5000,
         retries: 1,
         debug: true,
+        transport: { request: expect.any(Function) },
       });
     });
   });
@@ -76,6 +85,17 @@ describe("ElfaV2Client", () => {
         debug: true,
       });
     });
+
+    it("forwards the shared limiter, meter, budget, preflight and pool", () => {
+      const creditMeter = new CreditMeter();
+      const keyPool = new KeyPool({ keys: [{ apiKey: "k2" }] });
+
+      client.updateOptions({ creditMeter, keyPool });
+
+      expect(mockHttpClient.updateOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ creditMeter, keyPool }),
+      );
+    });
   });
 
   describe("ping", () => {
@@ -90,6 +110,267 @@ describe("ElfaV2Client", () => {
     });
   });
 
+  describe("request options", () => {
+    it("forwards cache: false to the http client", async () => {
+      mockHttpClient.get.mockResolvedValue({ success: true, data: [] });
+
+      await client.getTopMentions({ ticker: "SOL" }, { cache: false });
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        "/v2/data/top-mentions?ticker=SOL",
+        { cache: false },
+      );
+    });
+
+    it("passes the cache options to the http client", () => {
+      const cache = { ttl: 1000 };
+      new ElfaV2Client({ apiKey: "k", cache });
+
+      expect(HttpClient).toHaveBeenLastCalledWith(
+        expect.objectContaining({ cache }),
+      );
+    });
+  });
+
+  describe("response validation", () => {
+    const drifted = {
+      success: true,
+      data: { page: 1, pageSize: 10, total: 1, data: [{ token: 42 }] },
+    };
+
+    it("does not check responses by default", async () => {
+      mockHttpClient.get.mockResolvedValue(drifted);
+
+      await expect(
+        client.getTrendingTokens({ timeWindow: "24h" }),
+      ).resolves.toBe(drifted);
+    });
+
+    it("throws ResponseValidationError naming the path in strict mode", async () => {
+      mockHttpClient.get.mockResolvedValue(drifted);
+      const strict = new ElfaV2Client({
+        apiKey: "k",
+        validateResponses: "strict",
+      });
+
+      await expect(
+        strict.getTrendingTokens({ timeWindow: "24h" }),
+      ).rejects.toMatchObject({
+        name: "ResponseValidationError",
+        endpoint: "/v2/aggregations/trending-tokens",
+        path: "data.data[0].change_percent",
+      });
+    });
+
+    it("logs a drift report and returns the response in warn mode", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      mockHttpClient.get.mockResolvedValue(drifted);
+      const warning = new ElfaV2Client({
+        apiKey: "k",
+        validateResponses: "warn",
+      });
+
+      await expect(
+        warning.getTrendingTokens({ timeWindow: "24h" }),
+      ).resolves.toBe(drifted);
+      expect(warn).toHaveBeenCalledWith("[Elfa] Response drift", {
+        endpoint: "/v2/aggregations/trending-tokens",
+        issues: expect.arrayContaining([
+          {
+            path: "data.data[0].token",
+            expected: "string",
+            received: "number",
+          },
+        ]),
+      });
+      warn.mockRestore();
+    });
+
+    it("accepts either key-status shape", async () => {
+      mockHttpClient.get.mockResolvedValue({
+        success: true,
+        data: {
+          name: "k",
+          dailyLimit: 100,
+          monthlyLimit: 1000,
+          tier: "free",
+          usage: { remainingMonthly: 1, remainingDaily: 1, month: 0, today: 0 },
+          subscription: { status: "active" },
+          allowOverage: false,
+        },
+      });
+      const strict = new ElfaV2Client({
+        apiKey: "k",
+        validateResponses: "strict",
+      });
+
+      await expect(strict.getApiKeyStatus()).resolves.toBeDefined();
+    });
+  });
+
+  describe("iteration", () => {
+    async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+      const items: T[] = [];
+      for await (const item of iterator) items.push(item);
+      return items;
+    }
+
+    it("walks trending tokens through the nested data.data pages", async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({
+          success: true,
+          data: {
+            page: 1,
+            pageSize: 2,
+            total: 3,
+            data: [{ token: "a" }, { token: "b" }],
+          },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: { page: 2, pageSize: 2, total: 3, data: [{ token: "c" }] },
+        });
+
+      const tokens = await collect(
+        client.iterateTrendingTokens({ timeWindow: "24h", pageSize: 2 }),
+      );
+
+      expect(tokens.map((t) => t.token)).toEqual(["a", "b", "c"]);
+      expect(mockHttpClient.get).toHaveBeenNthCalledWith(
+        2,
+        "/v2/aggregations/trending-tokens?timeWindow=24h&page=2&pageSize=2",
+        { priority: "low" },
+      );
+    });
+
+    it("follows the keyword-mentions cursor", async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({
+          success: true,
+          data: [{ tweetId: "1" }],
+          metadata: { cursor: 1700, total: 2 },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: [{ tweetId: "2" }],
+          metadata: { total: 2 },
+        });
+
+      const mentions = await collect(
+        client.iterateKeywordMentions({ keywords: "btc", timeWindow: "1d" }),
+      );
+
+      expect(mentions.map((m) => m.tweetId)).toEqual(["1", "2"]);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith(
+        "/v2/data/keyword-mentions?keywords=btc&timeWindow=1d&cursor=1700",
+        { priority: "low" },
+      );
+    });
+
+    it("reads trending CAs from the requested source and honours maxItems", async () => {
+      const signal = new AbortController().signal;
+      mockHttpClient.get.mockResolvedValue({
+        success: true,
+        data: {
+          page: 1,
+          pageSize: 2,
+          total: 10,
+          data: [{ contractAddress: "x" }, { contractAddress: "y" }],
+        },
+      });
+
+      const cas = await collect(
+        client.iterateTrendingCAs(
+          "telegram",
+          { timeWindow: "24h" },
+          {
+            maxItems: 1,
+            signal,
+            priority: "normal",
+          },
+        ),
+      );
+
+      expect(cas).toHaveLength(1);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        "/v2/aggregations/trending-cas/telegram?timeWindow=24h&page=1",
+        { priority: "normal", signal },
+      );
+    });
+
+    it("sends each page with the caller's tag, estimate and pool key", async () => {
+      mockHttpClient.get.mockResolvedValue({
+        success: true,
+        data: [],
+        metadata: { page: 1, pageSize: 20, total: 0 },
+      });
+
+      await collect(
+        client.iterateTokenNews(
+          {},
+          { tag: "research", estimatedCredits: 2, poolKey: "backfill" },
+        ),
+      );
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(expect.any(String), {
+        priority: "low",
+        tag: "research",
+        estimatedCredits: 2,
+        poolKey: "backfill",
+      });
+    });
+
+    it("records every page's credits under the caller's tag", async () => {
+      const { HttpClient: RealHttpClient } = jest.requireActual(
+        "../utils/http",
+      ) as typeof import("../utils/http");
+      (HttpClient as jest.MockedClass<typeof HttpClient>).mockImplementation(
+        (options) => new RealHttpClient(options),
+      );
+      const page = (n: number, total: number) => ({
+        status: 200,
+        headers: { "x-elfa-credits": "1" },
+        data: {
+          success: true,
+          data: {
+            page: n,
+            pageSize: 1,
+            total,
+            data: [{ token: `t${n}` }],
+          },
+        },
+      });
+      const transport = {
+        request: jest
+          .fn()
+          .mockResolvedValueOnce(page(1, 2))
+          .mockResolvedValueOnce(page(2, 2)),
+      };
+      const creditMeter = new CreditMeter();
+      const metered = new ElfaV2Client({
+        apiKey: "k",
+        creditMeter,
+        transport,
+      });
+
+      await collect(
+        metered.iterateTrendingTokens(
+          { timeWindow: "24h", pageSize: 1 },
+          { tag: "research" },
+        ),
+      );
+
+      expect(creditMeter.records().map((record) => record.tag)).toEqual([
+        "research",
+        "research",
+      ]);
+      expect(creditMeter.summary().byTag).toEqual({
+        research: { credits: 2, calls: 2 },
+      });
+    });
+  });
+
   describe("getApiKeyStatus", () => {
     it("should call key-status endpoint", async () => {
       const mockResponse = {
@@ -106,7 +387,8 @@ describe("ElfaV2Client", () => {
       const result = await client.getApiKeyStatus();
 
       expect(mockHttpClient.get).toHaveBeenCalledWith("/v2/key-status");
-      expect(result).toEqual(mockResponse);
+      expect(result).toMatchObject(mockResponse);
+      expect(result.keyStatus).toBeInstanceOf(KeyStatus);
     });
   });
 
@@ -617,9 +899,52 @@ describe("ElfaV2Client", () => {
         },
       });
 
+    it("fails over to another pool key when the connect is refused", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+        ],
+      });
+      const failovers: unknown[] = [];
+      pool.on("failover", (event) => failovers.push(event));
+      const transport = {
+        request: jest
+          .fn()
+          .mockResolvedValueOnce({ status: 402, headers: {}, data: {} })
+          .mockResolvedValueOnce({
+            status: 200,
+            headers: {},
+            body: sseBody('data: {"type":"text","content":"hi"}\n\n'),
+          }),
+      };
+      const pooled = new ElfaV2Client({
+        apiKey: "k1",
+        keyPool: pool,
+        retries: 0,
+        transport,
+      });
+
+      const events = [];
+      for await (const event of pooled.chatStream({ message: "hello" })) {
+        events.push(event);
+      }
+
+      expect(
+        transport.request.mock.calls.map(
+          ([request]) => request.headers["x-elfa-api-key"],
+        ),
+      ).toEqual(["k1", "k2"]);
+      expect(failovers).toEqual([
+        { from: "one", to: "two", reason: "payment_required" },
+      ]);
+      expect(events).toEqual([{ type: "text", content: "hi" }]);
+    });
+
     it("should post to /v2/chat/stream and yield parsed events", async () => {
       const fetchMock = jest.fn().mockResolvedValue({
         ok: true,
+        status: 200,
         body: sseBody(
           'data: {"type":"session_info","sessionId":"s1","analysisType":"chat"}\n\n' +
             'data: {"type":"text","content":"he"}\n\n' +
@@ -661,6 +986,7 @@ describe("ElfaV2Client", () => {
     it("should stop at [DONE] and skip unparsable frames", async () => {
       const fetchMock = jest.fn().mockResolvedValue({
         ok: true,
+        status: 200,
         body: sseBody(
           "data: not-json\n\n" +
             'data: {"type":"text","content":"a"}\n\n' +
@@ -678,6 +1004,36 @@ describe("ElfaV2Client", () => {
       expect(events).toEqual([{ type: "text", content: "a" }]);
     });
 
+    it("should meter the complete event under the caller's tag", async () => {
+      const creditMeter = new CreditMeter();
+      const metered = new ElfaV2Client({ apiKey: "k", creditMeter });
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: sseBody(
+          'data: {"type":"credits","credits":2}\n\n' +
+            'data: {"type":"complete","success":true,"sessionId":"s1","creditsConsumed":3}\n\n',
+        ),
+      }) as unknown as typeof fetch;
+
+      for await (const event of metered.chatStream(
+        { message: "hello" },
+        { tag: "research" },
+      )) {
+        void event;
+      }
+
+      expect(creditMeter.records()).toEqual([
+        expect.objectContaining({
+          endpoint: "POST /v2/chat/stream",
+          credits: 3,
+          source: "stream",
+          sessionId: "s1",
+          tag: "research",
+        }),
+      ]);
+    });
+
     it("should throw ValidationError before opening the stream", async () => {
       const fetchMock = jest.fn();
       global.fetch = fetchMock as unknown as typeof fetch;
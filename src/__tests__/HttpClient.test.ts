@@ -1,4 +1,3 @@
-import axios, { type AxiosError } from "axios";
 import {
   HttpClient,
   MAX_RATE_LIMIT_WAIT_MS,
@@ -6,40 +5,45 @@ import {
   extractErrorMessage,
   resolveRetryWait,
 } from "../utils/http";
-import { RateLimitError } from "../utils/errors";
+import {
+  BudgetExceededError,
+  PaymentRequiredError,
+  RateLimitError,
+} from "../utils/errors";
+import { RateLimiter } from "../utils/limiter";
+import { CreditMeter } from "../utils/credits";
+import { BudgetGuard } from "../utils/budget";
+import { KeyPool } from "../utils/keyPool";
+import {
+  createFetchTransport,
+  type TransportResponse,
+} from "../utils/transport";
 import { VERSION } from "../version";
 
-// Mock axios
-jest.mock("axios");
-const mockedAxios = axios as jest.Mocked<typeof axios>;
+// Every HttpClient built here sends through the mock transport
+jest.mock("../utils/transport", () => ({
+  ...jest.requireActual("../utils/transport"),
+  createFetchTransport: jest.fn(),
+}));
+
+const ok = (
+  data: unknown,
+  headers: Record<string, string> = {},
+): TransportResponse => ({ status: 200, headers, data });
+
+const failed = (
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {},
+): TransportResponse => ({ status, headers, data });
 
 describe("HttpClient", () => {
   let httpClient: HttpClient;
-  let mockAxiosInstance: any;
+  let transport: { request: jest.Mock };
 
   beforeEach(() => {
-    mockAxiosInstance = {
-      request: jest.fn(),
-      get: jest.fn(),
-      post: jest.fn(),
-      put: jest.fn(),
-      delete: jest.fn(),
-      defaults: {
-        headers: {
-          common: {},
-        },
-      },
-      interceptors: {
-        request: {
-          use: jest.fn(),
-        },
-        response: {
-          use: jest.fn(),
-        },
-      },
-    };
-
-    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    transport = { request: jest.fn() };
+    (createFetchTransport as jest.Mock).mockReturnValue(transport);
 
     httpClient = new HttpClient({
       baseURL: "https://api.example.com",
@@ -53,91 +57,141 @@ describe("HttpClient", () => {
   });
 
   describe("constructor", () => {
-    it("should create axios instance with correct config", () => {
-      expect(mockedAxios.create).toHaveBeenCalledWith({
-        baseURL: "https://api.example.com",
-        timeout: 5000,
+    it("should send with the default headers and timeout", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await httpClient.get("/test");
+
+      expect(transport.request).toHaveBeenCalledWith({
+        method: "GET",
+        url: "https://api.example.com/test",
         headers: {
           "User-Agent": `@elfa-ai/sdk/${VERSION}`,
           Accept: "application/json",
           "Content-Type": "application/json",
         },
+        timeout: 5000,
+        responseType: "json",
       });
     });
 
-    it("should setup interceptors", () => {
-      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalled();
-      expect(mockAxiosInstance.interceptors.response.use).toHaveBeenCalled();
+    it("should use an injected transport", async () => {
+      const injected = { request: jest.fn().mockResolvedValue(ok({ a: 1 })) };
+      const client = new HttpClient({
+        baseURL: "https://api.example.com",
+        transport: injected,
+      });
+
+      expect(await client.get("/test")).toEqual({ a: 1 });
+      expect(injected.request).toHaveBeenCalledTimes(1);
+      expect(transport.request).not.toHaveBeenCalled();
     });
   });
 
   describe("request", () => {
     it("should make successful request", async () => {
-      const mockResponse = { data: { success: true } };
-      mockAxiosInstance.request.mockResolvedValue(mockResponse);
+      transport.request.mockResolvedValue(ok({ success: true }));
 
       const result = await httpClient.request({ url: "/test" });
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({ url: "/test" });
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: "GET",
+          url: "https://api.example.com/test",
+        }),
+      );
       expect(result).toEqual({ success: true });
     });
 
+    it("should encode params and JSON bodies", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await httpClient.request({
+        url: "/test?a=1",
+        method: "POST",
+        params: { b: 2, c: undefined },
+        data: { message: "hi" },
+      });
+      await httpClient.post("/raw", '{"already":"encoded"}');
+
+      const [first, second] = transport.request.mock.calls.map(
+        ([request]) => request,
+      );
+      expect(first).toMatchObject({
+        method: "POST",
+        url: "https://api.example.com/test?a=1&b=2",
+        body: '{"message":"hi"}',
+      });
+      expect(second.body).toBe('{"already":"encoded"}');
+    });
+
+    it("should report a transport failure as a NetworkError", async () => {
+      transport.request.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(
+        httpClient.request({ url: "/test", retries: 0 }),
+      ).rejects.toMatchObject({
+        name: "NetworkError",
+        message: "Network error: fetch failed",
+      });
+    });
+
     it("should retry on retryable errors", async () => {
       const { NetworkError } = await import("../utils/errors");
       const mockError = new NetworkError("Network error");
 
-      mockAxiosInstance.request
+      transport.request
         .mockRejectedValueOnce(mockError)
         .mockRejectedValueOnce(mockError)
-        .mockResolvedValue({ data: { success: true } });
+        .mockResolvedValue(ok({ success: true }));
 
       const result = await httpClient.request({ url: "/test", retries: 2 });
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(transport.request).toHaveBeenCalledTimes(3);
       expect(result).toEqual({ success: true });
     });
 
     it("should throw error after max retries", async () => {
       const { NetworkError } = await import("../utils/errors");
       const mockError = new NetworkError("Persistent error");
-      mockAxiosInstance.request.mockRejectedValue(mockError);
+      transport.request.mockRejectedValue(mockError);
 
       await expect(
         httpClient.request({ url: "/test", retries: 1 }),
       ).rejects.toThrow("Persistent error");
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+      expect(transport.request).toHaveBeenCalledTimes(2);
     });
 
     it("should not retry non-idempotent methods by default", async () => {
       const { NetworkError } = await import("../utils/errors");
-      mockAxiosInstance.request.mockRejectedValue(new NetworkError("boom"));
+      transport.request.mockRejectedValue(new NetworkError("boom"));
 
       await expect(
         httpClient.request({ url: "/test", method: "POST", retryDelay: 0 }),
       ).rejects.toThrow("boom");
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(transport.request).toHaveBeenCalledTimes(1);
     });
 
     it("should retry idempotent GET using the client default", async () => {
       const { NetworkError } = await import("../utils/errors");
-      mockAxiosInstance.request.mockRejectedValue(new NetworkError("boom"));
+      transport.request.mockRejectedValue(new NetworkError("boom"));
 
       await expect(
         httpClient.request({ url: "/test", method: "GET", retryDelay: 0 }),
       ).rejects.toThrow("boom");
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(transport.request).toHaveBeenCalledTimes(3);
     });
 
     it("should wait for the rate-limit reset instead of the backoff", async () => {
       const { RateLimitError } = await import("../utils/errors");
       const resetTime = new Date(Date.now() + 300);
 
-      mockAxiosInstance.request
+      transport.request
         .mockRejectedValueOnce(new RateLimitError("slow down", resetTime))
-        .mockResolvedValue({ data: { success: true } });
+        .mockResolvedValue(ok({ success: true }));
 
       const started = Date.now();
       const result = await httpClient.request({
@@ -156,7 +210,7 @@ describe("HttpClient", () => {
       const { RateLimitError } = await import("../utils/errors");
       const resetTime = new Date(Date.now() + 60 * 60 * 1000);
 
-      mockAxiosInstance.request.mockRejectedValue(
+      transport.request.mockRejectedValue(
         new RateLimitError("slow down", resetTime),
       );
 
@@ -165,15 +219,15 @@ describe("HttpClient", () => {
       ).rejects.toMatchObject({ name: "RateLimitError", resetTime });
 
       // one attempt only: blocking the caller for an hour is not ours to decide
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(transport.request).toHaveBeenCalledTimes(1);
     });
 
     it("should keep the plain backoff for retryable errors without a reset", async () => {
       const { NetworkError } = await import("../utils/errors");
 
-      mockAxiosInstance.request
+      transport.request
         .mockRejectedValueOnce(new NetworkError("boom"))
-        .mockResolvedValue({ data: { success: true } });
+        .mockResolvedValue(ok({ success: true }));
 
       const result = await httpClient.request({
         url: "/test",
@@ -182,13 +236,13 @@ describe("HttpClient", () => {
       });
 
       expect(result).toEqual({ success: true });
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+      expect(transport.request).toHaveBeenCalledTimes(2);
     });
   });
 
   describe("HTTP methods", () => {
     beforeEach(() => {
-      jest.spyOn(httpClient, "request").mockResolvedValue({ data: "test" });
+      jest.spyOn(httpClient, "request").mockResolvedValue(ok("test"));
     });
 
     it("should call GET request", async () => {
@@ -226,162 +280,632 @@ describe("HttpClient", () => {
     });
   });
 
+  describe("response cache", () => {
+    let cached: HttpClient;
+
+    beforeEach(() => {
+      cached = new HttpClient({
+        baseURL: "https://api.example.com",
+        retries: 0,
+        cache: {
+          ttl: 1000,
+          ttls: { "/v2/no-cache": 0, "/v2/long": 60000 },
+          staleWhileRevalidate: 5000,
+        },
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("serves repeat GETs from the cache until the TTL expires", async () => {
+      jest.useFakeTimers({ now: 0 });
+      transport.request
+        .mockResolvedValueOnce(ok({ n: 1 }))
+        .mockResolvedValueOnce(ok({ n: 2 }));
+
+      expect(await cached.get("/v2/data?a=1")).toEqual({ n: 1 });
+      expect(await cached.get("/v2/data?a=1")).toEqual({ n: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(1);
+
+      // a different query string is a different key
+      await cached.get("/v2/data?a=2");
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("uses per-endpoint TTLs and skips endpoints whose TTL is 0", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await cached.get("/v2/no-cache");
+      await cached.get("/v2/no-cache");
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("never caches non-GET requests", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await cached.post("/v2/data", "{}");
+      await cached.post("/v2/data", "{}");
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("bypasses the cache when a call passes cache: false", async () => {
+      transport.request
+        .mockResolvedValueOnce(ok({ n: 1 }))
+        .mockResolvedValueOnce(ok({ n: 2 }));
+
+      await cached.get("/v2/data");
+      expect(await cached.get("/v2/data", { cache: false })).toEqual({ n: 2 });
+    });
+
+    it("serves stale entries while revalidating in the background", async () => {
+      jest.useFakeTimers({ now: 0 });
+      transport.request
+        .mockResolvedValueOnce(ok({ n: 1 }))
+        .mockResolvedValueOnce(ok({ n: 2 }));
+
+      await cached.get("/v2/data");
+      jest.setSystemTime(1500);
+
+      expect(await cached.get("/v2/data")).toEqual({ n: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+
+      // let the background revalidation settle
+      await jest.advanceTimersByTimeAsync(0);
+      expect(await cached.get("/v2/data")).toEqual({ n: 2 });
+    });
+
+    it("refetches once the stale window has passed too", async () => {
+      jest.useFakeTimers({ now: 0 });
+      transport.request
+        .mockResolvedValueOnce(ok({ n: 1 }))
+        .mockResolvedValueOnce(ok({ n: 2 }));
+
+      await cached.get("/v2/data");
+      jest.setSystemTime(10000);
+
+      expect(await cached.get("/v2/data")).toEqual({ n: 2 });
+    });
+
+    it("clears every entry", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await cached.get("/v2/long");
+      await cached.clearCache();
+      await cached.get("/v2/long");
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("rate limiter", () => {
+    it("takes a token per attempt in the lane for the method", async () => {
+      const { NetworkError } = await import("../utils/errors");
+      const rateLimiter = new RateLimiter();
+      const acquire = jest.spyOn(rateLimiter, "acquire");
+      const limited = new HttpClient({
+        baseURL: "https://api.example.com",
+        rateLimiter,
+      });
+      transport.request
+        .mockRejectedValueOnce(new NetworkError("boom"))
+        .mockResolvedValue(ok({}));
+
+      await limited.request({ url: "/a", method: "GET", retryDelay: 0 });
+      await limited.post("/b", "{}");
+      await limited.get("/c", { priority: "low" });
+
+      expect(acquire.mock.calls).toEqual([
+        ["normal"],
+        ["normal"],
+        ["high"],
+        ["low"],
+      ]);
+    });
+
+    it("does not send when the limiter refuses", async () => {
+      const limited = new HttpClient({
+        baseURL: "https://api.example.com",
+        rateLimiter: new RateLimiter({ dailyRemaining: 0 }),
+      });
+
+      await expect(limited.get("/a")).rejects.toMatchObject({
+        name: "RateLimitError",
+      });
+      expect(transport.request).not.toHaveBeenCalled();
+    });
+
+    it("pauses the limiter on a server 429 with a reset", async () => {
+      const rateLimiter = new RateLimiter();
+      const pauseUntil = jest.spyOn(rateLimiter, "pauseUntil");
+      const limited = new HttpClient({
+        baseURL: "https://api.example.com",
+        rateLimiter,
+        retries: 0,
+      });
+      const resetTime = new Date(Date.now() + 1000);
+      transport.request.mockRejectedValue(
+        new RateLimitError("slow down", resetTime),
+      );
+
+      await expect(limited.get("/a")).rejects.toThrow("slow down");
+      expect(pauseUntil).toHaveBeenCalledWith(resetTime);
+    });
+  });
+
+  describe("credit meter", () => {
+    it("meters each response that reached the network, with its tag", async () => {
+      const creditMeter = new CreditMeter();
+      const metered = new HttpClient({
+        baseURL: "https://api.example.com",
+        creditMeter,
+        cache: { ttl: 60000 },
+      });
+      transport.request.mockResolvedValue(
+        ok({ success: true }, { "x-elfa-credits": "2" }),
+      );
+
+      await metered.get("/v2/data/top-mentions", { tag: "dashboard" });
+      // Served from the cache: no second charge
+      await metered.get("/v2/data/top-mentions", { tag: "dashboard" });
+
+      expect(creditMeter.summary()).toMatchObject({
+        total: { credits: 2, calls: 1 },
+        byTag: { dashboard: { credits: 2, calls: 1 } },
+        byEndpoint: { "GET /v2/data/top-mentions": { credits: 2, calls: 1 } },
+      });
+    });
+  });
+
+  describe("budget guard", () => {
+    it("refuses before sending, and never retries the refusal", async () => {
+      const budgetGuard = new BudgetGuard({ tags: { bulk: { perMinute: 3 } } });
+      budgetGuard.spend(2, "bulk");
+      const guarded = new HttpClient({
+        baseURL: "https://api.example.com",
+        budgetGuard,
+      });
+
+      await expect(
+        guarded.post("/v2/chat", {}, { tag: "bulk", estimatedCredits: 2 }),
+      ).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(transport.request).not.toHaveBeenCalled();
+
+      transport.request.mockResolvedValue(ok({ ok: true }));
+      await expect(
+        guarded.post("/v2/chat", {}, { tag: "bulk" }),
+      ).resolves.toEqual({ ok: true });
+    });
+  });
+
+  describe("preflight", () => {
+    it("checks the endpoint once per request, before sending", async () => {
+      const check = jest.fn().mockResolvedValue(undefined);
+      const checked = new HttpClient({
+        baseURL: "https://api.example.com",
+        preflight: { check } as any,
+      });
+      transport.request.mockResolvedValue(ok({ ok: true }));
+
+      await checked.post("/v2/auto/queries/q-1/cancel", {});
+
+      expect(check).toHaveBeenCalledWith("POST /v2/auto/queries/{id}/cancel");
+    });
+  });
+
+  describe("key pool", () => {
+    const pooled = (pool: KeyPool) =>
+      new HttpClient({
+        baseURL: "https://api.example.com",
+        keyPool: pool,
+        retries: 0,
+      });
+    const sentKeys = () =>
+      transport.request.mock.calls.map(
+        ([config]: any[]) => config.headers["x-elfa-api-key"],
+      );
+
+    it("fails over to the next key on 429 and 402 without using a retry", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+          { apiKey: "k3", name: "three" },
+        ],
+      });
+      const failovers: unknown[] = [];
+      pool.on("failover", (event) => failovers.push(event));
+      transport.request
+        .mockRejectedValueOnce(new RateLimitError("slow down"))
+        .mockRejectedValueOnce(new PaymentRequiredError("top up"))
+        .mockResolvedValueOnce(ok({ ok: true }));
+
+      await expect(pooled(pool).post("/v2/chat", {})).resolves.toEqual({
+        ok: true,
+      });
+
+      expect(sentKeys()).toEqual(["k1", "k2", "k3"]);
+      expect(failovers).toEqual([
+        { from: "one", to: "two", reason: "rate_limited" },
+        { from: "two", to: "three", reason: "payment_required" },
+      ]);
+      expect(
+        pool.usage().map(({ name, requests, benched }) => ({
+          name,
+          requests,
+          benched,
+        })),
+      ).toEqual([
+        { name: "one", requests: 1, benched: true },
+        { name: "two", requests: 1, benched: true },
+        { name: "three", requests: 1, benched: false },
+      ]);
+    });
+
+    it("signs with the chosen key's own secret", async () => {
+      const pool = new KeyPool({
+        keys: [{ apiKey: "k1", hmacSecret: "s1" }, { apiKey: "k2" }],
+      });
+      const signer = jest.fn((secret: string) => ({ "x-sig": secret }));
+      transport.request.mockResolvedValue(ok({}));
+      const client = pooled(pool);
+
+      await client.post("/v2/auto/queries", "{}", { signer });
+      await client.post("/v2/auto/queries", "{}", { signer });
+
+      const headers = transport.request.mock.calls.map(
+        ([config]: any[]) => config.headers,
+      );
+      expect(headers[0]).toMatchObject({
+        "x-elfa-api-key": "k1",
+        "x-sig": "s1",
+      });
+      expect(headers[1]).toMatchObject({ "x-elfa-api-key": "k2" });
+      expect(headers[1]).not.toHaveProperty("x-sig");
+      expect(signer).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps a created Auto query on its key, without failover", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+        ],
+      });
+      const client = pooled(pool);
+      transport.request
+        .mockResolvedValueOnce(ok({ queryId: "q1" }))
+        .mockRejectedValueOnce(new RateLimitError("slow down"));
+
+      await client.post("/v2/auto/queries", "{}");
+      await expect(client.post("/v2/auto/queries/q1/cancel")).rejects.toThrow(
+        RateLimitError,
+      );
+
+      expect(sentKeys()).toEqual(["k1", "k1"]);
+    });
+
+    it("looks for an unseen Auto query on each key, then pins it", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+        ],
+      });
+      const client = pooled(pool);
+      transport.request
+        .mockResolvedValueOnce(failed(404, { error: "Query not found" }))
+        .mockResolvedValue(ok({ queryId: "q9" }));
+
+      await client.get("/v2/auto/queries/q9");
+      await client.get("/v2/auto/queries/q9");
+      await client.post("/v2/auto/queries/q9/cancel");
+
+      expect(sentKeys()).toEqual(["k1", "k2", "k2", "k2"]);
+    });
+
+    it("gives up on a 404 once every key has been tried", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+        ],
+      });
+      transport.request.mockResolvedValue(failed(404, { error: "Not found" }));
+
+      await expect(
+        pooled(pool).get("/v2/auto/executions/e1"),
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(sentKeys()).toEqual(["k1", "k2"]);
+    });
+
+    it("sends concurrent GETs pinned to different keys separately", async () => {
+      const pool = new KeyPool({
+        keys: [
+          { apiKey: "k1", name: "one" },
+          { apiKey: "k2", name: "two" },
+        ],
+      });
+      const client = pooled(pool);
+      transport.request
+        .mockResolvedValueOnce(ok({ key: "one" }))
+        .mockResolvedValueOnce(ok({ key: "two" }));
+
+      const results = await Promise.all(
+        ["one", "two"].map((poolKey) =>
+          client.get("/v2/key-status", { cache: false, poolKey }),
+        ),
+      );
+
+      expect(sentKeys()).toEqual(["k1", "k2"]);
+      expect(results).toEqual([{ key: "one" }, { key: "two" }]);
+    });
+  });
+
+  describe("request deduplication", () => {
+    it("shares one request among concurrent identical GETs", async () => {
+      let resolve!: (value: unknown) => void;
+      transport.request.mockReturnValueOnce(new Promise((r) => (resolve = r)));
+
+      const first = httpClient.get("/v2/data?a=1");
+      const second = httpClient.get("/v2/data?a=1");
+      resolve(ok({ n: 1 }));
+
+      expect(await first).toEqual({ n: 1 });
+      expect(await second).toEqual({ n: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends concurrent GETs with different tags separately", async () => {
+      transport.request.mockResolvedValue(ok({ n: 1 }));
+
+      await Promise.all([
+        httpClient.get("/v2/data", { tag: "research" }),
+        httpClient.get("/v2/data", { tag: "alerts" }),
+        httpClient.get("/v2/data", { tag: "alerts" }),
+      ]);
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("shares the error too, then sends afresh", async () => {
+      transport.request
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce(ok({ n: 2 }));
+      const noRetry = new HttpClient({
+        baseURL: "https://api.example.com",
+        retries: 0,
+      });
+
+      const results = await Promise.allSettled([
+        noRetry.get("/v2/data"),
+        noRetry.get("/v2/data"),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+      expect(await noRetry.get("/v2/data")).toEqual({ n: 2 });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps different URLs, mutations and signalled calls apart", async () => {
+      transport.request.mockResolvedValue(ok({}));
+
+      await Promise.all([
+        httpClient.get("/v2/data?a=1"),
+        httpClient.get("/v2/data?a=2"),
+        httpClient.post("/v2/data", "{}"),
+        httpClient.post("/v2/data", "{}"),
+        httpClient.get("/v2/data?a=1", {
+          signal: new AbortController().signal,
+        }),
+      ]);
+
+      expect(transport.request).toHaveBeenCalledTimes(5);
+    });
+
+    it("can be turned off", async () => {
+      transport.request.mockResolvedValue(ok({}));
+      const plain = new HttpClient({
+        baseURL: "https://api.example.com",
+        dedupe: false,
+      });
+
+      await Promise.all([plain.get("/v2/data"), plain.get("/v2/data")]);
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it("logs joins in debug mode without the key", async () => {
+      const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+      transport.request.mockResolvedValue(ok({}));
+      const debug = new HttpClient({
+        baseURL: "https://api.example.com",
+        debug: true,
+      });
+      debug.setAuthHeader("secret-key");
+
+      await Promise.all([debug.get("/v2/data"), debug.get("/v2/data")]);
+
+      expect(logSpy).toHaveBeenCalledWith("[Elfa] Joining in-flight request", {
+        endpoint: "GET /v2/data",
+      });
+      expect(JSON.stringify(logSpy.mock.calls)).not.toContain("secret-key");
+      logSpy.mockRestore();
+    });
+  });
+
+  describe("cancellation", () => {
+    it("does not retry once the caller's signal has aborted", async () => {
+      const { NetworkError } = await import("../utils/errors");
+      const controller = new AbortController();
+      transport.request.mockImplementation(async () => {
+        controller.abort();
+        throw new NetworkError("Network error: canceled");
+      });
+
+      await expect(
+        httpClient.get("/v2/data", { signal: controller.signal }),
+      ).rejects.toThrow("canceled");
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("authentication headers", () => {
-    it("should set Elfa auth header", () => {
+    it("should set Elfa auth header", async () => {
+      transport.request.mockResolvedValue(ok({}));
       httpClient.setAuthHeader("test-api-key");
-      expect(mockAxiosInstance.defaults.headers.common["x-elfa-api-key"]).toBe(
-        "test-api-key",
-      );
+
+      await httpClient.get("/test");
+
+      expect(transport.request.mock.calls[0][0].headers).toMatchObject({
+        "x-elfa-api-key": "test-api-key",
+      });
     });
   });
 
   describe("updateOptions", () => {
-    it("should toggle request logging without recreating the client", () => {
+    it("should toggle request logging without recreating the client", async () => {
       const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
-      const onRequest =
-        mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
+      transport.request.mockResolvedValue(ok({}));
 
       httpClient.updateOptions({ debug: true });
-      onRequest({ method: "get", url: "/v2/ping" });
-      expect(logSpy).toHaveBeenCalled();
+      await httpClient.get("/v2/ping", { cache: false });
+      expect(logSpy).toHaveBeenCalledWith(
+        "[Elfa] HTTP request",
+        expect.objectContaining({ method: "GET", endpoint: "GET /v2/ping" }),
+      );
 
       logSpy.mockClear();
       httpClient.updateOptions({ debug: false });
-      onRequest({ method: "get", url: "/v2/ping" });
+      await httpClient.get("/v2/ping");
       expect(logSpy).not.toHaveBeenCalled();
 
       logSpy.mockRestore();
     });
 
-    it("should apply baseURL, timeout and headers to the axios defaults", () => {
+    it("should apply baseURL, timeout, headers and transport to later requests", async () => {
+      transport.request.mockResolvedValue(ok({}));
       httpClient.updateOptions({
         baseURL: "https://staging.api.example.com",
         timeout: 1234,
         headers: { "x-custom": "value" },
       });
 
-      expect(mockAxiosInstance.defaults.baseURL).toBe(
-        "https://staging.api.example.com",
-      );
-      expect(mockAxiosInstance.defaults.timeout).toBe(1234);
-      expect(mockAxiosInstance.defaults.headers.common["x-custom"]).toBe(
-        "value",
+      await httpClient.get("/v2/ping");
+
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://staging.api.example.com/v2/ping",
+          timeout: 1234,
+          headers: expect.objectContaining({ "x-custom": "value" }),
+        }),
       );
+
+      const replacement = { request: jest.fn().mockResolvedValue(ok({})) };
+      httpClient.updateOptions({ transport: replacement });
+      await httpClient.get("/v2/ping");
+      expect(replacement.request).toHaveBeenCalledTimes(1);
     });
 
     it("should ignore undefined values and apply retry settings", async () => {
       const { NetworkError } = await import("../utils/errors");
-      mockAxiosInstance.request.mockRejectedValue(new NetworkError("boom"));
+      transport.request.mockRejectedValue(new NetworkError("boom"));
 
       httpClient.updateOptions({ retries: undefined });
 
       await expect(
         httpClient.request({ url: "/test", method: "GET", retryDelay: 0 }),
       ).rejects.toThrow("boom");
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(transport.request).toHaveBeenCalledTimes(3);
 
-      mockAxiosInstance.request.mockClear();
+      transport.request.mockClear();
       httpClient.updateOptions({ retries: 0 });
 
       await expect(
         httpClient.request({ url: "/test", method: "GET", retryDelay: 0 }),
       ).rejects.toThrow("boom");
-      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(transport.request).toHaveBeenCalledTimes(1);
     });
   });
 
   describe("error handling", () => {
-    let handleResponseError: (error: AxiosError) => Promise<never>;
+    const rejection = (response: TransportResponse) => {
+      transport.request.mockResolvedValue(response);
+      return httpClient.request({ url: "/test", retries: 0 });
+    };
 
-    beforeEach(() => {
-      // Get the error handler from the response interceptor
-      const interceptorCall =
-        mockAxiosInstance.interceptors.response.use.mock.calls[0];
-      handleResponseError = interceptorCall[1];
+    it("should throw AuthenticationError for 401 status", async () => {
+      await expect(
+        rejection(failed(401, { message: "Unauthorized" })),
+      ).rejects.toMatchObject({
+        name: "AuthenticationError",
+        code: "AUTHENTICATION_ERROR",
+      });
     });
 
-    it("should throw AuthenticationError for 401 status", async () => {
-      const axiosError = {
-        response: {
-          status: 401,
-          data: { message: "Unauthorized" },
+    it("should throw PaymentRequiredError with the x402 challenge for 402", async () => {
+      const accepts = [
+        {
+          scheme: "exact",
+          network: "base",
+          maxAmountRequired: "9000",
+          resource: "https://api.elfa.ai/x402/v2/data/token-news",
+          payTo: "0xabc",
+          asset: "0xusdc",
         },
-        isAxiosError: true,
-        toJSON: () => ({}),
-        name: "AxiosError",
-        message: "Unauthorized",
-      } as unknown as AxiosError;
-
-      try {
-        await handleResponseError(axiosError);
-        expect(true).toBe(false); // Should not reach here
-      } catch (error: any) {
-        expect(error.name).toBe("AuthenticationError");
-        expect(error.code).toBe("AUTHENTICATION_ERROR");
-      }
+      ];
+
+      await expect(
+        rejection(
+          failed(402, { x402Version: 1, accepts, error: "Payment required" }),
+        ),
+      ).rejects.toMatchObject({
+        name: "PaymentRequiredError",
+        code: "PAYMENT_REQUIRED",
+        statusCode: 402,
+        message: "Payment required",
+        x402Version: 1,
+        requirements: accepts,
+      });
     });
 
     it("should throw RateLimitError for 429 status", async () => {
-      const axiosError = {
-        response: {
-          status: 429,
-          data: { message: "Rate limited" },
-          headers: {
-            "x-ratelimit-reset": "1640995200",
-          },
-        },
-        isAxiosError: true,
-        toJSON: () => ({}),
-        name: "AxiosError",
-        message: "Rate limited",
-      } as unknown as AxiosError;
-
-      try {
-        await handleResponseError(axiosError);
-        expect(true).toBe(false); // Should not reach here
-      } catch (error: any) {
-        expect(error.name).toBe("RateLimitError");
-        expect(error.code).toBe("RATE_LIMIT_ERROR");
-      }
+      await expect(
+        rejection(
+          failed(
+            429,
+            { message: "Rate limited" },
+            { "x-ratelimit-reset": "1640995200" },
+          ),
+        ),
+      ).rejects.toMatchObject({
+        name: "RateLimitError",
+        code: "RATE_LIMIT_ERROR",
+        resetTime: new Date(1640995200 * 1000),
+      });
     });
 
     it("should throw ElfaApiError for other HTTP errors", async () => {
-      const axiosError = {
-        response: {
-          status: 500,
-          data: { error: "Internal server error" },
-        },
-        isAxiosError: true,
-        toJSON: () => ({}),
-        name: "AxiosError",
-        message: "Internal server error",
-      } as unknown as AxiosError;
-
-      try {
-        await handleResponseError(axiosError);
-        expect(true).toBe(false); // Should not reach here
-      } catch (error: any) {
-        expect(error.name).toBe("ElfaApiError");
-        expect(error.code).toBe("ELFA_API_ERROR");
-      }
+      await expect(
+        rejection(failed(500, { error: "Internal server error" })),
+      ).rejects.toMatchObject({
+        name: "ElfaApiError",
+        code: "ELFA_API_ERROR",
+        statusCode: 500,
+      });
     });
 
-    it("should throw NetworkError for request errors", async () => {
-      const axiosError = {
-        request: {},
-        message: "Network Error",
-        isAxiosError: true,
-        toJSON: () => ({}),
-        name: "AxiosError",
-      } as unknown as AxiosError;
-
-      try {
-        await handleResponseError(axiosError);
-        expect(true).toBe(false); // Should not reach here
-      } catch (error: any) {
-        expect(error.name).toBe("NetworkError");
-        expect(error.code).toBe("NETWORK_ERROR");
-      }
+    it("should pass through SDK errors the transport throws", async () => {
+      const { NetworkError } = await import("../utils/errors");
+      transport.request.mockRejectedValue(new NetworkError("timed out"));
+
+      await expect(
+        httpClient.request({ url: "/test", retries: 0 }),
+      ).rejects.toMatchObject({ name: "NetworkError", message: "timed out" });
     });
 
     it("should extract error message from various response formats", async () => {
@@ -401,45 +925,18 @@ describe("HttpClient", () => {
       ];
 
       for (const testCase of testCases) {
-        const axiosError = {
-          response: {
-            status: 400,
-            data: testCase.data,
-          },
-          isAxiosError: true,
-          toJSON: () => ({}),
-          name: "AxiosError",
-          message: "Test error",
-        } as unknown as AxiosError;
-
-        try {
-          await handleResponseError(axiosError);
-        } catch (error: any) {
-          expect(error.message).toBe(testCase.expected);
-        }
+        await expect(rejection(failed(400, testCase.data))).rejects.toThrow(
+          testCase.expected,
+        );
       }
     });
 
     it("should parse rate limit reset time", async () => {
-      const axiosError = {
-        response: {
-          status: 429,
-          data: { message: "Rate limited" },
-          headers: {
-            "retry-after": "60",
-          },
-        },
-        isAxiosError: true,
-        toJSON: () => ({}),
-        name: "AxiosError",
-        message: "Rate limited",
-      } as unknown as AxiosError;
-
-      try {
-        await handleResponseError(axiosError);
-      } catch (error: any) {
-        expect(error.resetTime).toBeInstanceOf(Date);
-      }
+      await expect(
+        rejection(
+          failed(429, { message: "Rate limited" }, { "retry-after": "60" }),
+        ),
+      ).rejects.toMatchObject({ resetTime: expect.any(Date) });
     });
   });
 });
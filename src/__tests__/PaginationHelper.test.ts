@@ -293,3 +293,85 @@ describe("cursor round-trip", () => {
     expect(pages).toHaveLength(1);
   });
 });
+
+describe("iterateItems", () => {
+  const pages = (count: number) =>
+    jest.fn(async (page: number) => ({
+      items: [page * 10 + 1, page * 10 + 2],
+      next: page < count ? page + 1 : undefined,
+    }));
+
+  async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) items.push(item);
+    return items;
+  }
+
+  it("yields items across pages until there is no next page", async () => {
+    const fetchPage = pages(3);
+
+    expect(await collect(PaginationHelper.iterateItems(fetchPage, 1))).toEqual([
+      11, 12, 21, 22, 31, 32,
+    ]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops at maxItems without fetching another page", async () => {
+    const fetchPage = pages(5);
+
+    const items = await collect(
+      PaginationHelper.iterateItems(fetchPage, 1, { maxItems: 3 }),
+    );
+
+    expect(items).toEqual([11, 12, 21]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops at maxPages", async () => {
+    const fetchPage = pages(5);
+
+    await collect(PaginationHelper.iterateItems(fetchPage, 1, { maxPages: 2 }));
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops on an empty page or a repeated cursor", async () => {
+    const empty = jest.fn(async () => ({ items: [], next: 2 }));
+    const stuck = jest.fn(async () => ({ items: [1], next: 1 }));
+
+    await collect(PaginationHelper.iterateItems(empty, 1));
+    await collect(PaginationHelper.iterateItems(stuck, 1));
+
+    expect(empty).toHaveBeenCalledTimes(1);
+    expect(stuck).toHaveBeenCalledTimes(1);
+  });
+
+  it("ends with the abort reason once the signal fires", async () => {
+    const controller = new AbortController();
+    const fetchPage = pages(5);
+    const iterator = PaginationHelper.iterateItems(fetchPage, 1, {
+      signal: controller.signal,
+    });
+
+    await iterator.next();
+    await iterator.next();
+    controller.abort(new Error("stop"));
+
+    await expect(iterator.next()).rejects.toThrow("stop");
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("nextPage", () => {
+  it("advances while page * pageSize is below total", () => {
+    expect(
+      PaginationHelper.nextPage({ page: 1, pageSize: 2, total: 5 }, 2),
+    ).toBe(2);
+    expect(
+      PaginationHelper.nextPage({ page: 3, pageSize: 2, total: 5 }, 1),
+    ).toBeUndefined();
+    expect(
+      PaginationHelper.nextPage({ page: 1, pageSize: 0, total: 5 }, 0),
+    ).toBeUndefined();
+  });
+});
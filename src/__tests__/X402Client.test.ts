@@ -0,0 +1,246 @@
+import { X402Client } from "../client/X402Client";
+import { HttpClient } from "../utils/http";
+import { PaymentRequiredError, ValidationError } from "../utils/errors";
+import { parsePaymentChallenge } from "../utils/x402";
+
+// Mock the HttpClient; keep the pure helpers real
+jest.mock("../utils/http", () => ({
+  ...jest.requireActual("../utils/http"),
+  HttpClient: jest.fn(),
+}));
+
+const requirements = [
+  {
+    scheme: "exact",
+    network: "base",
+    maxAmountRequired: "9000",
+    resource: "https://api.elfa.ai/x402/v2/data/token-news",
+    payTo: "0xabc",
+    asset: "0xusdc",
+  },
+];
+
+function paymentRequired(): PaymentRequiredError {
+  return new PaymentRequiredError("Payment required", {
+    x402Version: 1,
+    accepts: requirements,
+  });
+}
+
+describe("X402Client", () => {
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      updateOptions: jest.fn(),
+    } as any;
+    (HttpClient as jest.MockedClass<typeof HttpClient>).mockImplementation(
+      () => mockHttpClient,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("targets the /x402/v2 routes without an API key", async () => {
+    mockHttpClient.get.mockResolvedValue({ success: true });
+    const client = new X402Client();
+
+    await client.getTokenNews({ timeWindow: "24h", coinIds: "bitcoin" });
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(
+      "/x402/v2/data/token-news?timeWindow=24h&coinIds=bitcoin",
+      {},
+    );
+    expect(mockHttpClient).not.toHaveProperty("setAuthHeader");
+  });
+
+  it("surfaces a 402 as PaymentRequiredError when no signer is set", async () => {
+    mockHttpClient.get.mockRejectedValue(paymentRequired());
+    const client = new X402Client();
+
+    await expect(
+      client.getTopMentions({ ticker: "BTC", timeWindow: "24h" }),
+    ).rejects.toMatchObject({ name: "PaymentRequiredError", requirements });
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("pays through the signer and retries with X-PAYMENT", async () => {
+    mockHttpClient.get
+      .mockRejectedValueOnce(paymentRequired())
+      .mockResolvedValueOnce({ success: true, data: [] });
+    const paymentSigner = jest.fn().mockResolvedValue("signed-payload");
+    const client = new X402Client({ paymentSigner });
+
+    const result = await client.getTopMentions({
+      ticker: "BTC",
+      timeWindow: "24h",
+    });
+
+    expect(result).toEqual({ success: true, data: [] });
+    expect(paymentSigner).toHaveBeenCalledWith({
+      method: "GET",
+      url: "https://api.elfa.ai/x402/v2/data/top-mentions?ticker=BTC&timeWindow=24h",
+      x402Version: 1,
+      requirements,
+    });
+    expect(mockHttpClient.get).toHaveBeenLastCalledWith(
+      "/x402/v2/data/top-mentions?ticker=BTC&timeWindow=24h",
+      { headers: { "X-PAYMENT": "signed-payload" }, retries: 0 },
+    );
+  });
+
+  it("asks the signer once and throws a rejected payment", async () => {
+    mockHttpClient.post.mockRejectedValue(paymentRequired());
+    const paymentSigner = jest.fn().mockReturnValue("bad-payload");
+    const client = new X402Client({ paymentSigner });
+
+    await expect(client.chat({ message: "hi" })).rejects.toBeInstanceOf(
+      PaymentRequiredError,
+    );
+    expect(paymentSigner).toHaveBeenCalledTimes(1);
+    expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not pay for errors other than 402", async () => {
+    mockHttpClient.get.mockRejectedValue(new Error("boom"));
+    const paymentSigner = jest.fn();
+    const client = new X402Client({ paymentSigner });
+
+    await expect(client.getTrendingNarratives()).rejects.toThrow("boom");
+    expect(paymentSigner).not.toHaveBeenCalled();
+  });
+
+  it("validates params before any request", async () => {
+    const client = new X402Client();
+
+    await expect(client.getTrendingTokens()).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+    await expect(
+      client.getAccountSmartStats({ username: "" }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(mockHttpClient.get).not.toHaveBeenCalled();
+  });
+
+  describe("auto", () => {
+    it("sends x-elfa-agent-secret on query routes", async () => {
+      mockHttpClient.post.mockResolvedValue({ queryId: "q1" });
+      const client = new X402Client({ agentSecret: "my-agent" });
+
+      await client.auto.getQuery("q1");
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        "/x402/v2/auto/queries/q1",
+        undefined,
+        { headers: { "x-elfa-agent-secret": "my-agent" } },
+      );
+    });
+
+    it("requires the agent secret for query routes but not chat", async () => {
+      mockHttpClient.post.mockResolvedValue({ success: true });
+      const client = new X402Client();
+
+      await expect(client.auto.cancelQuery("q1")).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+      await client.auto.chat({ message: "alert me on BTC" });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        "/x402/v2/auto/chat",
+        { message: "alert me on BTC" },
+        { headers: {} },
+      );
+    });
+
+    it("pays for createQuery", async () => {
+      mockHttpClient.post
+        .mockRejectedValueOnce(paymentRequired())
+        .mockResolvedValueOnce({ queryId: "q1", status: "active" });
+      const client = new X402Client({
+        agentSecret: "my-agent",
+        paymentSigner: () => "signed",
+      });
+
+      await client.auto.createQuery({} as any);
+
+      expect(mockHttpClient.post).toHaveBeenLastCalledWith(
+        "/x402/v2/auto/queries",
+        {},
+        {
+          headers: { "x-elfa-agent-secret": "my-agent", "X-PAYMENT": "signed" },
+        },
+      );
+    });
+
+    describe("streamQuery", () => {
+      const originalFetch = global.fetch;
+
+      afterEach(() => {
+        global.fetch = originalFetch;
+      });
+
+      it("streams typed events with the agent secret", async () => {
+        const body = new Response(
+          'event: heartbeat\ndata: {}\n\nevent: end\ndata: {"code":"QUERY_STREAM_CLOSED"}\n\n',
+        ).body;
+        const fetchMock = jest
+          .fn()
+          .mockResolvedValue({ ok: true, status: 200, body });
+        global.fetch = fetchMock as unknown as typeof fetch;
+        const client = new X402Client({ agentSecret: "my-agent" });
+
+        const events = [];
+        for await (const event of client.auto.streamQuery("q1")) {
+          events.push(event.event);
+        }
+
+        expect(events).toEqual(["heartbeat", "end"]);
+        expect(fetchMock).toHaveBeenCalledWith(
+          "https://api.elfa.ai/x402/v2/auto/queries/q1/stream",
+          expect.objectContaining({
+            headers: expect.objectContaining({
+              "x-elfa-agent-secret": "my-agent",
+            }),
+          }),
+        );
+      });
+
+      it("ends at once on 204", async () => {
+        global.fetch = jest
+          .fn()
+          .mockResolvedValue({ ok: true, status: 204, body: null }) as any;
+        const client = new X402Client({ agentSecret: "my-agent" });
+
+        const next = await client.auto.streamQuery("q1").next();
+
+        expect(next.done).toBe(true);
+      });
+    });
+  });
+});
+
+describe("parsePaymentChallenge", () => {
+  it("reads version, accepts and error", () => {
+    expect(
+      parsePaymentChallenge({
+        x402Version: 2,
+        accepts: requirements,
+        error: "x",
+      }),
+    ).toEqual({ x402Version: 2, accepts: requirements, error: "x" });
+  });
+
+  it("tolerates bodies that are not challenges", () => {
+    expect(parsePaymentChallenge("Payment required")).toEqual({
+      x402Version: 1,
+      accepts: [],
+    });
+    expect(parsePaymentChallenge({ accepts: [null, 3] })).toEqual({
+      x402Version: 1,
+      accepts: [],
+    });
+  });
+});
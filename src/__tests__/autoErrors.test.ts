@@ -0,0 +1,112 @@
+import {
+  getEqlPath,
+  parseAutoErrorIssues,
+  toAutoError,
+  toEqlIssues,
+  toEqlPath,
+} from "../utils/autoErrors";
+import {
+  AuthenticationError,
+  AutoApiError,
+  AutoValidationError,
+  ElfaApiError,
+} from "../utils/errors";
+import type { EqlQuery } from "../types/auto";
+
+const query: EqlQuery = {
+  conditions: {
+    AND: [
+      {
+        source: "price",
+        method: "current",
+        args: { symbol: "BTC", exchange: "hyperliquid" },
+        operator: ">",
+        value: 100000,
+      },
+    ],
+  },
+  actions: [{ stepId: "s1", type: "notify", params: {} }],
+  expiresIn: "1h",
+};
+
+describe("parseAutoErrorIssues", () => {
+  it("reads { field, message } entries from details", () => {
+    expect(
+      parseAutoErrorIssues({
+        error: "Invalid",
+        details: [
+          { field: "body.query.expiresIn", message: "Too long" },
+          { field: 3, message: "not an issue" },
+          "nope",
+        ],
+      }),
+    ).toEqual([{ field: "body.query.expiresIn", message: "Too long" }]);
+  });
+
+  it("yields nothing for string or object details", () => {
+    expect(parseAutoErrorIssues({ error: "x", details: "text" })).toEqual([]);
+    expect(parseAutoErrorIssues({ error: "x", details: { a: 1 } })).toEqual([]);
+    expect(parseAutoErrorIssues("Bad Gateway")).toEqual([]);
+  });
+});
+
+describe("toAutoError", () => {
+  it("maps 400 and 422 to AutoValidationError, the rest to AutoApiError", () => {
+    expect(toAutoError(new ElfaApiError("bad", 422, {}))).toBeInstanceOf(
+      AutoValidationError,
+    );
+    expect(toAutoError(new ElfaApiError("bad", 400, {}))).toBeInstanceOf(
+      AutoValidationError,
+    );
+    const conflict = toAutoError(new ElfaApiError("limit", 409, {}));
+    expect(conflict).toBeInstanceOf(AutoApiError);
+    expect(conflict).not.toBeInstanceOf(AutoValidationError);
+  });
+
+  it("passes other errors through", () => {
+    const auth = new AuthenticationError();
+    expect(toAutoError(auth)).toBe(auth);
+    const typed = new AutoApiError("x", 500);
+    expect(toAutoError(typed)).toBe(typed);
+  });
+});
+
+describe("EQL paths", () => {
+  it("maps server fields onto EqlQuery paths", () => {
+    expect(toEqlPath("body.query.conditions.AND.0.args.symbol")).toBe(
+      "conditions.AND[0].args.symbol",
+    );
+    expect(toEqlPath("query.actions[0].params")).toBe("actions[0].params");
+    expect(toEqlPath("body.query")).toBe("");
+    expect(toEqlPath("body.title")).toBeUndefined();
+  });
+
+  it("converts issues to validateEqlQuery's shape", () => {
+    expect(
+      toEqlIssues([
+        { field: "body.query.expiresIn", message: "Too long" },
+        { field: "body.title", message: "Too long" },
+      ]),
+    ).toEqual([
+      {
+        code: "server_validation",
+        path: "expiresIn",
+        message: "Too long",
+        field: "body.query.expiresIn",
+      },
+      {
+        code: "server_validation",
+        path: "body.title",
+        message: "Too long",
+        field: "body.title",
+      },
+    ]);
+  });
+
+  it("resolves a path back to the offending node", () => {
+    expect(getEqlPath(query, "conditions.AND[0].args.symbol")).toBe("BTC");
+    expect(getEqlPath(query, "actions[0].stepId")).toBe("s1");
+    expect(getEqlPath(query, "conditions.OR[1]")).toBeUndefined();
+    expect(getEqlPath(query, "")).toBe(query);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  isAutoStreamEnd,
+  isAutoStreamNotification,
+  parseAutoStreamEvent,
+} from "../utils/autoEvents";
+
+const notification = {
+  status: "triggered",
+  title: "BTC > 100k",
+  body: "BTC crossed 100k",
+  queryId: "q1",
+  timestamp: 1743379200000,
+};
+
+describe("parseAutoStreamEvent", () => {
+  it("types a notification and keeps its id", () => {
+    const event = parseAutoStreamEvent({
+      event: "notification",
+      id: "evt-1",
+      data: JSON.stringify({ ...notification, executionId: "x1" }),
+    });
+
+    expect(event).toEqual({
+      event: "notification",
+      id: "evt-1",
+      data: { ...notification, executionId: "x1" },
+    });
+    if (event.event === "notification") {
+      // narrowed: no cast needed
+      expect(event.data.status).toBe("triggered");
+    }
+  });
+
+  it("types end, heartbeat and error events", () => {
+    expect(
+      parseAutoStreamEvent({
+        event: "end",
+        data: '{"code":"QUERY_STREAM_CLOSED","status":"expired","queryId":"q1"}',
+      }),
+    ).toEqual({
+      event: "end",
+      data: { code: "QUERY_STREAM_CLOSED", status: "expired", queryId: "q1" },
+    });
+    expect(parseAutoStreamEvent({ event: "heartbeat", data: "" })).toEqual({
+      event: "heartbeat",
+      data: {},
+    });
+    expect(
+      parseAutoStreamEvent({ event: "error", data: '{"message":"boom"}' }),
+    ).toEqual({ event: "error", data: { message: "boom" } });
+  });
+
+  it("reports frames without an event name as message", () => {
+    expect(parseAutoStreamEvent({ data: '{"a":1}' })).toEqual({
+      event: "message",
+      data: { a: 1 },
+    });
+  });
+
+  it("keeps unrecognised event names under unknown", () => {
+    expect(
+      parseAutoStreamEvent({ event: "progress", data: '{"pct":5}' }),
+    ).toEqual({ event: "unknown", name: "progress", data: { pct: 5 } });
+  });
+
+  it("does not take names on Object.prototype for known events", () => {
+    for (const name of ["constructor", "toString", "__proto__"]) {
+      expect(parseAutoStreamEvent({ event: name, data: "{}" })).toEqual({
+        event: "unknown",
+        name,
+        data: {},
+      });
+    }
+  });
+
+  it("turns invalid JSON into a parse_error", () => {
+    const event = parseAutoStreamEvent({
+      event: "notification",
+      id: "evt-2",
+      data: "{not json",
+    });
+
+    expect(event).toMatchObject({
+      event: "parse_error",
+      id: "evt-2",
+      data: { event: "notification", raw: "{not json" },
+    });
+  });
+
+  it("turns a payload of the wrong shape into a parse_error", () => {
+    const event = parseAutoStreamEvent({
+      event: "notification",
+      data: JSON.stringify({ ...notification, status: "weird" }),
+    });
+
+    expect(event).toEqual({
+      event: "parse_error",
+      data: {
+        event: "notification",
+        message: "Unexpected notification payload",
+        raw: JSON.stringify({ ...notification, status: "weird" }),
+      },
+    });
+  });
+});
+
+describe("guards", () => {
+  it("checks the required notification fields", () => {
+    expect(isAutoStreamNotification(notification)).toBe(true);
+    expect(isAutoStreamNotification({ ...notification, timestamp: "1" })).toBe(
+      false,
+    );
+    expect(isAutoStreamNotification(null)).toBe(false);
+  });
+
+  it("requires a code on end", () => {
+    expect(isAutoStreamEnd({ code: "USER_STREAM_CLOSED" })).toBe(true);
+    expect(isAutoStreamEnd({})).toBe(false);
+  });
+});
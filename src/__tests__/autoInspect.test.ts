@@ -0,0 +1,189 @@
+import { inspectConditions, renderInspection } from "../utils/autoInspect";
+import type { AutoPollQueryResponse, EqlQuery } from "../types/auto";
+
+const query: EqlQuery = {
+  conditions: {
+    AND: [
+      {
+        source: "price",
+        method: "current",
+        args: { symbol: "BTC" },
+        operator: "<",
+        value: 100000,
+      },
+      {
+        OR: [
+          {
+            source: "ta",
+            method: "rsi",
+            args: { symbol: "ETH" },
+            operator: "<",
+            value: 30,
+          },
+          { source: "tweet", args: { keywords: "etf" } },
+        ],
+      },
+    ],
+  },
+  actions: [{ stepId: "s1", type: "notify", params: {} }],
+  expiresIn: "24h",
+};
+
+const poll: AutoPollQueryResponse = {
+  queryId: "q1",
+  status: "active",
+  latestEvaluation: {
+    evaluatedAt: "2026-04-01T12:00:00.000Z",
+    conditionStates: [
+      {
+        index: 0,
+        source: "price",
+        method: "current",
+        args: { symbol: "BTC" },
+        currentValue: 97250.5,
+        targetValue: 100000,
+        operator: "<",
+        isMet: true,
+      },
+      {
+        index: 1,
+        source: "ta",
+        method: "rsi",
+        args: { symbol: "ETH" },
+        currentValue: 40,
+        targetValue: 30,
+        operator: "<",
+        isMet: false,
+      },
+    ],
+    wouldTriggerNow: false,
+    matchingConditions: 1,
+    totalConditions: 3,
+  },
+  executions: [],
+};
+
+describe("inspectConditions", () => {
+  it("reports each leaf with its path and distance to threshold", () => {
+    const inspection = inspectConditions(poll, query);
+
+    expect(inspection.conditions).toHaveLength(3);
+    expect(inspection.conditions[0]).toMatchObject({
+      index: 0,
+      path: "conditions.AND[0]",
+      currentValue: 97250.5,
+      targetValue: 100000,
+      isMet: true,
+      distance: 2749.5,
+    });
+    expect(inspection.conditions[0]!.distancePercent).toBeCloseTo(2.827, 3);
+    expect(inspection.conditions[1]).toMatchObject({
+      path: "conditions.AND[1].OR[0]",
+      distance: -10,
+      distancePercent: -25,
+    });
+    expect(inspection.conditions[2]).toEqual({
+      index: 2,
+      path: "conditions.AND[1].OR[1]",
+      condition: { source: "tweet", args: { keywords: "etf" } },
+    });
+  });
+
+  it("derives group state from the leaves", () => {
+    const { tree } = inspectConditions(poll, query.conditions);
+
+    expect(tree).toMatchObject({
+      type: "group",
+      op: "AND",
+      path: "conditions",
+    });
+    // OR has one unmet and one unevaluated leaf, so neither it nor AND is known
+    expect(tree).not.toHaveProperty("isMet");
+
+    const unmet = inspectConditions(
+      {
+        ...poll,
+        latestEvaluation: {
+          ...poll.latestEvaluation!,
+          conditionStates: [
+            { ...poll.latestEvaluation!.conditionStates[0]!, isMet: false },
+          ],
+        },
+      },
+      query,
+    );
+    expect(unmet.tree).toMatchObject({ isMet: false });
+  });
+
+  it("drops the mapping for a leaf whose source disagrees", () => {
+    const swapped: EqlQuery = {
+      ...query,
+      conditions: { AND: [{ source: "funding", args: { symbol: "BTC" } }] },
+    };
+
+    const [report] = inspectConditions(poll, swapped).conditions;
+
+    expect(report).not.toHaveProperty("path");
+    expect(report).toMatchObject({ index: 0, distance: 2749.5 });
+  });
+
+  it("lists states flat without a query", () => {
+    const inspection = inspectConditions(poll);
+
+    expect(inspection.tree).toBeUndefined();
+    expect(inspection.conditions.map((c) => c.index)).toEqual([0, 1]);
+  });
+
+  it("handles a query that has not been evaluated", () => {
+    const inspection = inspectConditions({
+      queryId: "q2",
+      status: "active",
+      latestEvaluation: null,
+      executions: [],
+    });
+
+    expect(inspection).toEqual({
+      queryId: "q2",
+      status: "active",
+      evaluatedAt: null,
+      wouldTriggerNow: null,
+      matchingConditions: null,
+      totalConditions: null,
+      conditions: [],
+    });
+  });
+});
+
+describe("renderInspection", () => {
+  it("renders the condition tree", () => {
+    expect(renderInspection(inspectConditions(poll, query))).toBe(
+      [
+        "q1 (active): would not trigger now, 1/3 conditions met",
+        "└─ ? AND",
+        "   ├─ ✓ price.current(symbol=BTC) < 100000 — current 97250.5, distance +2749.5 (+2.83%)",
+        "   └─ ? OR",
+        "      ├─ ✗ ta.rsi(symbol=ETH) < 30 — current 40, distance -10 (-25%)",
+        "      └─ ? tweet(keywords=etf) — not evaluated",
+      ].join("\n"),
+    );
+  });
+
+  it("renders leaves flat without a tree", () => {
+    const inspection = inspectConditions({
+      ...poll,
+      latestEvaluation: {
+        ...poll.latestEvaluation!,
+        conditionStates: [
+          { index: 0, source: "llm", isMet: false, reason: "LLM timed out" },
+        ],
+      },
+    });
+
+    expect(renderInspection(inspection)).toBe(
+      [
+        "q1 (active): would not trigger now, 1/3 conditions met",
+        "└─ ✗ llm() — LLM timed out",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  describeCondition,
+  explainMatchedCondition,
+  explainTrigger,
+  formatConditionValue,
+} from "../utils/autoTrigger";
+import type { AutoExecution, AutoPollExecution } from "../types/auto";
+
+const execution: AutoExecution = {
+  id: "exec-1",
+  queryId: "q-1",
+  status: "completed",
+  conditionsMet: 2,
+  trigger: {
+    type: "price",
+    time: "2026-10-19T12:00:00.000Z",
+    matchedConditions: [
+      {
+        condition: {
+          source: "price",
+          method: "current",
+          args: { symbol: "BTC", exchange: "hyperliquid" },
+          operator: ">",
+          value: 100000,
+        },
+        match: { observedValue: 100234.5 },
+      },
+      {
+        condition: {
+          source: "tweet",
+          method: "search",
+          args: { keywords: "etf approval" },
+        },
+        match: {
+          accountHandle: "elfa_ai",
+          mentionedAt: "2026-10-19T11:59:00.000Z",
+          confidence: 0.92,
+          url: "https://x.com/elfa_ai/status/1",
+        },
+      },
+    ],
+  },
+};
+
+describe("formatConditionValue", () => {
+  it("leaves strings unquoted and serialises everything else", () => {
+    expect(formatConditionValue("BTC")).toBe("BTC");
+    expect(formatConditionValue(42)).toBe("42");
+    expect(formatConditionValue(false)).toBe("false");
+    expect(formatConditionValue(null)).toBe("null");
+    expect(formatConditionValue(["a", "b"])).toBe('["a","b"]');
+    expect(formatConditionValue(undefined)).toBe("?");
+  });
+});
+
+describe("describeCondition", () => {
+  it("renders source, method, args, operator and threshold", () => {
+    expect(
+      describeCondition({
+        source: "ta",
+        method: "rsi",
+        args: { symbol: "ETH", period: 14 },
+        operator: "<",
+        value: 30,
+      }),
+    ).toBe("ta.rsi(symbol=ETH, period=14) < 30");
+  });
+
+  it("omits what an event condition does not have", () => {
+    expect(describeCondition({ source: "cron" })).toBe("cron()");
+  });
+});
+
+describe("explainMatchedCondition", () => {
+  it("falls back to the condition when the match says nothing", () => {
+    expect(
+      explainMatchedCondition({ condition: { source: "news" }, match: {} }),
+    ).toBe("news()");
+  });
+
+  it("names the Telegram chat for a Telegram match", () => {
+    expect(
+      explainMatchedCondition({
+        condition: { source: "telegram", args: { keywords: "listing" } },
+        match: { chatTitle: "Alpha Calls", messageId: "77" },
+      }),
+    ).toBe("telegram(keywords=listing) — matched by Alpha Calls");
+  });
+});
+
+describe("explainTrigger", () => {
+  it("renders each matched condition with what it observed", () => {
+    expect(explainTrigger(execution)).toEqual([
+      "price.current(symbol=BTC, exchange=hyperliquid) > 100000 — observed 100234.5",
+      "tweet.search(keywords=etf approval) — matched by @elfa_ai, " +
+        "at 2026-10-19T11:59:00.000Z, confidence 0.92, " +
+        "https://x.com/elfa_ai/status/1",
+    ]);
+  });
+
+  it("accepts a poll execution", () => {
+    const polled: AutoPollExecution = {
+      id: "exec-2",
+      queryId: "q-1",
+      type: "notify",
+      status: "completed",
+      createdAt: "2026-10-19T12:00:01.000Z",
+      trigger: {
+        matchedConditions: [
+          {
+            condition: { source: "fear_greed", operator: "<=", value: 20 },
+            match: { observedValue: 18 },
+          },
+        ],
+      },
+    };
+
+    expect(explainTrigger(polled)).toEqual([
+      "fear_greed() <= 20 — observed 18",
+    ]);
+  });
+
+  it("returns [] without trigger context", () => {
+    const untriggered: AutoExecution = { id: "exec-3", status: "failed" };
+    expect(explainTrigger(untriggered)).toEqual([]);
+    expect(explainTrigger({ trigger: null })).toEqual([]);
+  });
+});
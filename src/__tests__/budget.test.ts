@@ -0,0 +1,125 @@
+import { BudgetGuard, isPaidEndpoint } from "../utils/budget";
+import { CreditMeter } from "../utils/credits";
+import { BudgetExceededError, isBudgetExceededError } from "../utils/errors";
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const ago = (ms: number) => new Date(NOW - ms);
+
+describe("isPaidEndpoint", () => {
+  it("treats data and chat as paid and most Auto routes as free", () => {
+    expect(isPaidEndpoint("GET /v2/data/top-mentions")).toBe(true);
+    expect(isPaidEndpoint("POST /v2/chat")).toBe(true);
+    expect(isPaidEndpoint("POST /v2/auto/queries")).toBe(true);
+    expect(isPaidEndpoint("POST /v2/auto/chat")).toBe(true);
+    expect(isPaidEndpoint("POST /v2/auto/queries/drafts/{id}/convert")).toBe(
+      true,
+    );
+    expect(isPaidEndpoint("POST /v2/auto/queries/validate")).toBe(false);
+    expect(isPaidEndpoint("GET /v2/auto/queries/{id}")).toBe(false);
+  });
+});
+
+describe("BudgetGuard", () => {
+  it("refuses a call whose estimate would break a ceiling", () => {
+    const guard = new BudgetGuard({ perMinute: 10 });
+    guard.spend(8, undefined, ago(1_000));
+
+    expect(() =>
+      guard.check({ endpoint: "POST /v2/chat", estimatedCredits: 2 }, NOW),
+    ).not.toThrow();
+
+    let error: unknown;
+    try {
+      guard.check({ endpoint: "POST /v2/chat", estimatedCredits: 3 }, NOW);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(isBudgetExceededError(error as Error)).toBe(true);
+    expect(error).toMatchObject({
+      code: "BUDGET_EXCEEDED",
+      window: "minute",
+      limit: 10,
+      spent: 8,
+      estimated: 3,
+      endpoint: "POST /v2/chat",
+      retryAt: new Date(NOW - 1_000 + 60_000),
+    });
+    expect((error as Error).message).toBe(
+      "POST /v2/chat would exceed the per-minute budget: 8 of 10 credits " +
+        "spent, 3 more estimated",
+    );
+  });
+
+  it("uses defaultEstimate and lets free routes through", () => {
+    const guard = new BudgetGuard({ perHour: 5, defaultEstimate: 2 });
+    guard.spend(4, undefined, ago(30 * 60_000));
+
+    expect(() =>
+      guard.check({ endpoint: "GET /v2/data/trending-tokens" }, NOW),
+    ).toThrow(BudgetExceededError);
+    expect(() =>
+      guard.check({ endpoint: "POST /v2/auto/queries/validate" }, NOW),
+    ).not.toThrow();
+  });
+
+  it("forgets spend once it leaves the window", () => {
+    const guard = new BudgetGuard({ perMinute: 5, perDay: 100 });
+    guard.spend(5, undefined, ago(61_000));
+
+    expect(guard.usage(undefined, NOW)).toEqual({
+      minute: 0,
+      hour: 5,
+      day: 5,
+    });
+    expect(() => guard.check({ endpoint: "POST /v2/chat" }, NOW)).not.toThrow();
+  });
+
+  it("checks per-tag ceilings against that tag's spend only", () => {
+    const guard = new BudgetGuard({ tags: { alerts: { perDay: 20 } } });
+    guard.spend(15, "alerts", ago(60_000));
+    guard.spend(50, "research", ago(60_000));
+
+    expect(() =>
+      guard.check({ endpoint: "POST /v2/chat", tag: "research" }, NOW),
+    ).not.toThrow();
+    expect(() =>
+      guard.check(
+        { endpoint: "POST /v2/chat", tag: "alerts", estimatedCredits: 6 },
+        NOW,
+      ),
+    ).toThrow('would exceed the "alerts" per-day budget');
+    expect(guard.hasLimits()).toBe(false);
+    expect(guard.hasLimits("alerts")).toBe(true);
+  });
+
+  it("leaves retryAt unset when the estimate alone is over the ceiling", () => {
+    const guard = new BudgetGuard({ perDay: 10 });
+    const refused: BudgetExceededError[] = [];
+    guard.on("refused", (error) => refused.push(error));
+
+    expect(() =>
+      guard.check(
+        { endpoint: "POST /v2/auto/queries", estimatedCredits: 11 },
+        NOW,
+      ),
+    ).toThrow(BudgetExceededError);
+    expect(refused).toHaveLength(1);
+    expect(refused[0]!.retryAt).toBeUndefined();
+  });
+
+  it("counts what an attached meter records until detached", () => {
+    const meter = new CreditMeter();
+    const guard = new BudgetGuard({ perMinute: 10 });
+    const detach = guard.attach(meter);
+
+    meter.record({ endpoint: "POST /v2/chat", credits: 4, tag: "a" });
+    detach();
+    meter.record({ endpoint: "POST /v2/chat", credits: 4 });
+
+    expect(guard.usage().minute).toBe(4);
+    expect(guard.usage("a").minute).toBe(4);
+    guard.reset();
+    expect(guard.usage().day).toBe(0);
+  });
+});
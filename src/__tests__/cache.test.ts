@@ -0,0 +1,41 @@
+import { MemoryCacheStore, resolveCacheTtl } from "../utils/cache";
+
+describe("MemoryCacheStore", () => {
+  const entry = (value: unknown) => ({
+    value,
+    expiresAt: Date.now() + 1000,
+    staleUntil: Date.now() + 1000,
+  });
+
+  it("evicts the least recently read entry first", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry(1));
+    store.set("b", entry(2));
+    store.get("a");
+    store.set("c", entry(3));
+
+    expect(store.get("a")?.value).toBe(1);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")?.value).toBe(3);
+    expect(store.size).toBe(2);
+  });
+
+  it("drops entries past their stale window on read", () => {
+    const store = new MemoryCacheStore();
+    store.set("a", { value: 1, expiresAt: 0, staleUntil: Date.now() - 1 });
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("resolveCacheTtl", () => {
+  it("prefers the per-endpoint TTL and ignores the query string", () => {
+    const options = { ttl: 10, ttls: { "/v2/a": 50, "/v2/b": 0 } };
+
+    expect(resolveCacheTtl(options, "/v2/a?page=2")).toBe(50);
+    expect(resolveCacheTtl(options, "/v2/b")).toBeUndefined();
+    expect(resolveCacheTtl(options, "/v2/c")).toBe(10);
+    expect(resolveCacheTtl({}, "/v2/c")).toBeUndefined();
+  });
+});
@@ -0,0 +1,323 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ElfaV2Client } from "../client/ElfaV2Client";
+import { AutoClient } from "../client/AutoClient";
+import { HttpClient } from "../utils/http";
+import {
+  generateV2Module,
+  listEndpoints,
+  type OpenApiSpec,
+  type SpecEndpoint,
+  type SpecParam,
+} from "../codegen/openapi";
+import type * as Generated from "../generated/v2";
+import type * as Elfa from "../types/elfa";
+import type * as Auto from "../types/auto";
+import type { ChatAnalysisType, ChatSpeed } from "../types/chat";
+
+// Mock the HttpClient; keep the pure helpers real
+jest.mock("../utils/http", () => ({
+  ...jest.requireActual("../utils/http"),
+  HttpClient: jest.fn(),
+}));
+
+const root = join(__dirname, "..", "..");
+const spec = JSON.parse(
+  readFileSync(join(root, "swagger.json"), "utf8"),
+) as OpenApiSpec;
+
+interface Clients {
+  data: ElfaV2Client;
+  auto: AutoClient;
+}
+
+type Args = Record<string, any>;
+
+/**
+ * How each spec operation is reached through the hand-written clients. `args`
+ * holds a sample value for every query and path parameter the spec declares.
+ */
+const SURFACE: Record<string, (c: Clients, args: Args) => unknown> = {
+  "ping-v2": (c) => c.data.ping(),
+  "getApiKeyStatus-v2": (c) => c.data.getApiKeyStatus(),
+  "getTrendingTokens-v2": (c, a) => c.data.getTrendingTokens(a),
+  "getAccountSmartStats-v2": (c, a) => c.data.getAccountSmartStats(a as any),
+  "getTopMentions-v2": (c, a) => c.data.getTopMentions(a as any),
+  "getKeywordMentions-v2": (c, a) => c.data.getKeywordMentions(a),
+  "getEventSummary-v2": (c, a) => c.data.getEventSummary(a as any),
+  "getTrendingNarratives-v2": (c, a) => c.data.getTrendingNarratives(a),
+  "getTokenNews-v2": (c, a) => c.data.getTokenNews(a),
+  "getTrendingCAsTwitter-v2": (c, a) => c.data.getTrendingCAsTwitter(a),
+  "getTrendingCAsTelegram-v2": (c, a) => c.data.getTrendingCAsTelegram(a),
+  "chat-v2": (c) => c.data.chat({ message: "hi" }),
+  "chat-stream-v2": (c) => c.data.chatStream({ message: "hi" }).next(),
+  "auto-chat-v2": (c) => c.auto.chat({ message: "hi" }),
+  "auto-validate-symbol-v2": (c, a) =>
+    c.auto.validateSymbol(a.exchange, a.symbol),
+  "auto-validate-query-v2": (c) => c.auto.validateQuery({} as any),
+  "auto-create-query-v2": (c) => c.auto.createQuery({} as any),
+  "auto-list-queries-v2": (c, a) => c.auto.listQueries(a),
+  "auto-poll-query-v2": (c, a) => c.auto.getQuery(a.queryId),
+  "auto-delete-query-v2": (c, a) => c.auto.deleteQuery(a.queryId),
+  "auto-stream-queries-v2": (c) => c.auto.streamAll().next(),
+  "auto-stream-query-v2": (c, a) => c.auto.streamQuery(a.queryId).next(),
+  "auto-cancel-query-v2": (c, a) => c.auto.cancelQuery(a.queryId),
+  "auto-list-sessions-v2": (c, a) => c.auto.listSessions(a.queryId),
+  "auto-get-session-v2": (c, a) => c.auto.getSession(a.queryId, a.sessionId),
+  "auto-list-query-drafts-v2": (c, a) => c.auto.listDrafts(a),
+  "auto-upsert-query-draft-v2": (c) => c.auto.upsertDraft({} as any),
+  "auto-get-query-draft-v2": (c, a) => c.auto.getDraft(a.draftId),
+  "auto-delete-query-draft-v2": (c, a) => c.auto.deleteDraft(a.draftId),
+  "auto-validate-query-draft-v2": (c, a) => c.auto.validateDraft(a.draftId),
+  "auto-convert-query-draft-v2": (c, a) => c.auto.convertDraft(a.draftId),
+  "auto-list-executions-v2": (c, a) => c.auto.listExecutions(a),
+  "auto-get-execution-v2": (c, a) => c.auto.getExecution(a.executionId),
+};
+
+function sample(param: SpecParam): unknown {
+  if (param.schema.enum) return param.schema.enum[0];
+  switch (param.schema.type) {
+    case "number":
+    case "integer":
+      return 7;
+    case "boolean":
+      return true;
+    default:
+      return `${param.name}-1`;
+  }
+}
+
+interface Sent {
+  method: string;
+  url: URL;
+}
+
+/** Calls the mapped method and reports the one request it sent. */
+async function send(
+  endpoint: SpecEndpoint,
+  args: Args,
+  mockHttpClient: jest.Mocked<HttpClient>,
+  fetchMock: jest.Mock,
+): Promise<Sent> {
+  const clients: Clients = {
+    data: new ElfaV2Client({ apiKey: "k", retries: 0 }),
+    auto: new AutoClient({ apiKey: "k", retries: 0 }),
+  };
+  try {
+    await SURFACE[endpoint.operationId]!(clients, args);
+  } catch {
+    // streams fail on the mocked fetch; only the request matters here
+  }
+
+  const sent: Sent[] = [];
+  const base = "https://api.elfa.ai";
+  for (const [method, mock] of [
+    ["GET", mockHttpClient.get],
+    ["POST", mockHttpClient.post],
+    ["DELETE", mockHttpClient.delete],
+  ] as const) {
+    for (const [url] of mock.mock.calls) {
+      sent.push({ method, url: new URL(url as string, base) });
+    }
+  }
+  for (const [url, init] of fetchMock.mock.calls) {
+    sent.push({ method: init?.method ?? "GET", url: new URL(url, base) });
+  }
+
+  expect(sent).toHaveLength(1);
+  return sent[0]!;
+}
+
+describe("codegen", () => {
+  it("keeps src/generated/v2.ts in step with swagger.json", () => {
+    const committed = readFileSync(
+      join(root, "src", "generated", "v2.ts"),
+      "utf8",
+    );
+    // Run `npm run codegen` when this fails
+    expect(committed).toBe(generateV2Module(spec));
+  });
+
+  it("emits a stub per /v2 operation", () => {
+    const source = generateV2Module(spec);
+    for (const endpoint of listEndpoints(spec)) {
+      expect(source).toContain(`public ${endpoint.name}(`);
+    }
+  });
+});
+
+describe("hand-written surface vs swagger.json", () => {
+  const endpoints = listEndpoints(spec);
+  const originalFetch = global.fetch;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn().mockResolvedValue({}),
+      post: jest.fn().mockResolvedValue({}),
+      delete: jest.fn().mockResolvedValue({}),
+      setAuthHeader: jest.fn(),
+      updateOptions: jest.fn(),
+    } as any;
+    (HttpClient as jest.MockedClass<typeof HttpClient>).mockImplementation(
+      () => mockHttpClient,
+    );
+    fetchMock = jest.fn().mockRejectedValue(new Error("offline"));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  it("maps every /v2 operation to a client method", () => {
+    const missing = endpoints
+      .map((e) => e.operationId)
+      .filter((id) => !(id in SURFACE));
+    const stale = Object.keys(SURFACE).filter(
+      (id) => !endpoints.some((e) => e.operationId === id),
+    );
+
+    expect({ missing, stale }).toEqual({ missing: [], stale: [] });
+  });
+
+  it.each(endpoints.map((e) => [e.operationId, e] as const))(
+    "%s sends the spec's method, path and query params",
+    async (_, endpoint) => {
+      const args: Args = {};
+      for (const param of endpoint.params) args[param.name] = sample(param);
+
+      const { method, url } = await send(
+        endpoint,
+        args,
+        mockHttpClient,
+        fetchMock,
+      );
+
+      expect(method).toBe(endpoint.method);
+      expect(decodeURIComponent(url.pathname)).toBe(
+        endpoint.path.replace(/\{(\w+)\}/g, (_, name) => String(args[name])),
+      );
+      for (const param of endpoint.params.filter((p) => p.in === "query")) {
+        expect([param.name, url.searchParams.get(param.name)]).toEqual([
+          param.name,
+          String(args[param.name]),
+        ]);
+      }
+    },
+  );
+});
+
+// Compile-time checks: a param or enum that drifts fails the type-check.
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+function assertSame<T extends true>(): T | void {}
+
+assertSame<
+  Same<keyof Elfa.TrendingTokensParams, keyof Generated.GetTrendingTokensParams>
+>();
+assertSame<
+  Same<
+    keyof Elfa.AccountSmartStatsParams,
+    keyof Generated.GetAccountSmartStatsParams
+  >
+>();
+assertSame<
+  Same<keyof Elfa.TopMentionsV2Params, keyof Generated.GetTopMentionsParams>
+>();
+assertSame<
+  Same<
+    keyof Elfa.KeywordMentionsParams,
+    keyof Generated.GetKeywordMentionsParams
+  >
+>();
+assertSame<
+  Same<keyof Elfa.EventSummaryV2Params, keyof Generated.GetEventSummaryParams>
+>();
+assertSame<
+  Same<
+    keyof Elfa.TrendingNarrativesParams,
+    keyof Generated.GetTrendingNarrativesParams
+  >
+>();
+assertSame<
+  Same<keyof Elfa.TokenNewsParams, keyof Generated.GetTokenNewsParams>
+>();
+assertSame<
+  Same<
+    keyof Elfa.TrendingCAsParams,
+    keyof Generated.GetTrendingCAsTwitterParams
+  >
+>();
+assertSame<
+  Same<
+    keyof Elfa.TrendingCAsParams,
+    keyof Generated.GetTrendingCAsTelegramParams
+  >
+>();
+assertSame<
+  Same<keyof Auto.AutoListQueriesParams, keyof Generated.AutoListQueriesParams>
+>();
+assertSame<
+  Same<
+    keyof Auto.AutoListQueriesParams,
+    keyof Generated.AutoListQueryDraftsParams
+  >
+>();
+assertSame<
+  Same<
+    keyof Auto.AutoListExecutionsParams,
+    keyof Generated.AutoListExecutionsParams
+  >
+>();
+
+assertSame<
+  Same<
+    Elfa.TrendingNarrativesParams["timeFrame"],
+    Generated.GetTrendingNarrativesParams["timeFrame"]
+  >
+>();
+assertSame<
+  Same<
+    Auto.TradableExchange,
+    Parameters<Generated.GeneratedV2Api["autoValidateSymbol"]>[0]
+  >
+>();
+assertSame<
+  Same<
+    ChatAnalysisType,
+    NonNullable<Generated.ChatRequestBodyV2["analysisType"]>
+  >
+>();
+assertSame<
+  Same<ChatSpeed, NonNullable<Generated.ChatRequestBodyV2["speed"]>>
+>();
+assertSame<
+  Same<Elfa.BillingMode, Generated.ApiKeyStatusDataV2["billingMode"]>
+>();
+assertSame<
+  Same<
+    Auto.AutoSpeed,
+    NonNullable<Generated.ApiKeyAutoChatRequestBody["speed"]>
+  >
+>();
+
+assertSame<
+  Same<keyof Auto.AutoExecution, keyof Generated.ApiKeyAutoExecution>
+>();
+assertSame<
+  Same<keyof Auto.AutoPollExecution, keyof Generated.ApiKeyPollQueryExecution>
+>();
+assertSame<
+  Same<keyof Auto.AutoConditionState, keyof Generated.ApiKeyAutoConditionState>
+>();
+assertSame<
+  Same<
+    keyof Auto.AutoLatestEvaluation,
+    keyof Generated.ApiKeyPollQueryLatestEvaluation
+  >
+>();
+assertSame<
+  Same<keyof Auto.AutoTriggerPayload, keyof Generated.ApiKeyAutoTriggerPayload>
+>();
@@ -0,0 +1,166 @@
+import { CreditMeter, creditEndpoint } from "../utils/credits";
+
+describe("creditEndpoint", () => {
+  it("drops the origin and query string and collapses ids", () => {
+    expect(
+      creditEndpoint(
+        "get",
+        "https://api.elfa.ai/v2/data/top-mentions?ticker=BTC",
+      ),
+    ).toBe("GET /v2/data/top-mentions");
+    expect(creditEndpoint("POST", "/v2/auto/queries/q-123/cancel")).toBe(
+      "POST /v2/auto/queries/{id}/cancel",
+    );
+    expect(creditEndpoint("POST", "/v2/auto/queries/drafts/d-1/convert")).toBe(
+      "POST /v2/auto/queries/drafts/{id}/convert",
+    );
+    expect(creditEndpoint("GET", "/v2/auto/queries/stream")).toBe(
+      "GET /v2/auto/queries/stream",
+    );
+    expect(creditEndpoint("GET", "/v2/auto/validate-symbol/binance/BTC")).toBe(
+      "GET /v2/auto/validate-symbol/{exchange}/{symbol}",
+    );
+  });
+});
+
+describe("CreditMeter", () => {
+  it("prefers the header over the body", () => {
+    const meter = new CreditMeter();
+
+    const record = meter.observe({
+      method: "POST",
+      url: "/v2/auto/chat",
+      header: "104",
+      body: { sessionId: "s1", credits: 99 },
+      tag: "alerts",
+    });
+
+    expect(record).toMatchObject({
+      endpoint: "POST /v2/auto/chat",
+      credits: 104,
+      source: "header",
+      sessionId: "s1",
+      tag: "alerts",
+    });
+  });
+
+  it("reads credits and creditsConsumed from the body", () => {
+    const meter = new CreditMeter();
+
+    meter.observe({
+      method: "POST",
+      url: "/v2/chat",
+      body: { success: true, data: { sessionId: "s2", creditsConsumed: 5 } },
+    });
+    meter.observe({
+      method: "POST",
+      url: "/v2/auto/queries",
+      body: { queryId: "q1", credits: 10 },
+    });
+
+    expect(meter.summary()).toEqual({
+      total: { credits: 15, calls: 2 },
+      byEndpoint: {
+        "POST /v2/chat": { credits: 5, calls: 1 },
+        "POST /v2/auto/queries": { credits: 10, calls: 1 },
+      },
+      bySession: { s2: { credits: 5, calls: 1 } },
+      byQuery: { q1: { credits: 10, calls: 1 } },
+      byTag: {},
+    });
+  });
+
+  it("keeps getQuery's running total apart from spend", () => {
+    const meter = new CreditMeter();
+
+    const record = meter.observe({
+      method: "GET",
+      url: "/v2/auto/queries/q1",
+      body: {
+        queryId: "q1",
+        status: "active",
+        latestEvaluation: null,
+        executions: [],
+        credits: 42,
+      },
+    });
+
+    expect(record).toBeUndefined();
+    expect(meter.summary().total).toEqual({ credits: 0, calls: 0 });
+    expect(meter.summary().byQuery).toEqual({
+      q1: { credits: 0, calls: 0, reported: 42 },
+    });
+  });
+
+  it("ignores responses that report no cost", () => {
+    const meter = new CreditMeter();
+
+    expect(
+      meter.observe({
+        method: "GET",
+        url: "/v2/ping",
+        body: { success: true },
+      }),
+    ).toBeUndefined();
+    expect(meter.records()).toEqual([]);
+  });
+
+  it("emits each record and shields the caller from a throwing listener", () => {
+    const meter = new CreditMeter();
+    const seen: number[] = [];
+    meter.on("record", () => {
+      throw new Error("listener bug");
+    });
+    meter.on("record", (record) => seen.push(record.credits));
+
+    meter.record({ endpoint: "x402 settlement", credits: 7 });
+
+    expect(seen).toEqual([7]);
+    expect(meter.records()[0]).toMatchObject({ source: "manual" });
+  });
+
+  it("keeps the last maxRecords records but every total", () => {
+    const meter = new CreditMeter({ maxRecords: 2 });
+
+    for (const credits of [1, 2, 3]) {
+      meter.record({ endpoint: "GET /v2/ping", credits });
+    }
+
+    expect(meter.records().map((r) => r.credits)).toEqual([2, 3]);
+    expect(meter.summary().total).toEqual({ credits: 6, calls: 3 });
+  });
+
+  it("exports json and csv, and resets", () => {
+    const meter = new CreditMeter();
+    const at = new Date("2026-10-19T12:00:00.000Z");
+    meter.record({
+      endpoint: "POST /v2/chat",
+      credits: 3,
+      at,
+      tag: 'feature "a", b',
+    });
+
+    expect(JSON.parse(meter.export())).toEqual({
+      summary: expect.objectContaining({ total: { credits: 3, calls: 1 } }),
+      records: [
+        {
+          endpoint: "POST /v2/chat",
+          credits: 3,
+          source: "manual",
+          at: "2026-10-19T12:00:00.000Z",
+          tag: 'feature "a", b',
+        },
+      ],
+    });
+    expect(meter.export("csv")).toBe(
+      [
+        "at,endpoint,credits,source,sessionId,queryId,tag",
+        '2026-10-19T12:00:00.000Z,POST /v2/chat,3,manual,,,"feature ""a"", b"',
+      ].join("\n"),
+    );
+
+    meter.reset();
+    expect(meter.records()).toEqual([]);
+    expect(meter.summary().total).toEqual({ credits: 0, calls: 0 });
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  allOf,
+  anyOf,
+  cron,
+  eql,
+  fearGreed,
+  llm,
+  notify,
+  price,
+  ta,
+  tweet,
+  webhook,
+  parseEqlDuration,
+  validateEqlQuery,
+  EqlQueryBuilder,
+} from "../utils/eql";
+import type { EqlQuery } from "../types/auto";
+import { ValidationError } from "../utils/errors";
+
+describe("EQL builder", () => {
+  it("builds the same query as the hand-written example", () => {
+    const input = eql
+      .when(price("BTC").on("hyperliquid").using("current").gt(100000))
+      .do(notify("BTC crossed 100k"))
+      .expiresIn("24h")
+      .title("BTC breakout alert")
+      .build();
+
+    expect(input).toEqual({
+      query: {
+        conditions: {
+          AND: [
+            {
+              source: "price",
+              method: "current",
+              args: { symbol: "BTC", exchange: "hyperliquid" },
+              operator: ">",
+              value: 100000,
+            },
+          ],
+        },
+        actions: [
+          {
+            stepId: "step_1",
+            type: "notify",
+            params: { message: "BTC crossed 100k" },
+          },
+        ],
+        expiresIn: "24h",
+      },
+      title: "BTC breakout alert",
+    });
+  });
+
+  it("appends to the current group when the operator repeats", () => {
+    const query = eql
+      .when(price("BTC").gt(1))
+      .and(price("ETH").gt(2))
+      .and(fearGreed().lt(20))
+      .do(notify("x"))
+      .expiresIn("1h")
+      .toQuery();
+
+    expect("AND" in query.conditions && query.conditions.AND).toHaveLength(3);
+  });
+
+  it("folds a switched operator left", () => {
+    const a = price("BTC").gt(1);
+    const b = price("ETH").gt(2);
+    const c = cron("0 9 * * *");
+
+    const query = eql
+      .when(a)
+      .and(b)
+      .or(c)
+      .do(notify("x"))
+      .expiresIn("1h")
+      .toQuery();
+
+    expect(query.conditions).toEqual({ OR: [{ AND: [a, b] }, c] });
+  });
+
+  it("nests groups built with allOf/anyOf", () => {
+    const query = eql
+      .when(
+        allOf(
+          ta("SOL", "rsi").with({ interval: "1h" }).crossesBelow(30),
+          anyOf(
+            tweet({ username: "solana", text: "outage", minConfidence: 80 }),
+            llm("Is SOL news bullish?", "4h"),
+          ),
+        ),
+      )
+      .do(webhook("https://example.com/hook"))
+      .expiresIn("7d")
+      .repeat("1h", 3)
+      .toQuery();
+
+    expect(query.conditions).toEqual({
+      AND: [
+        {
+          source: "ta",
+          args: { symbol: "SOL", indicator: "rsi", interval: "1h" },
+          operator: "crosses_below",
+          value: 30,
+        },
+        {
+          OR: [
+            {
+              source: "tweet",
+              args: { username: "solana", text: "outage", minConfidence: 80 },
+            },
+            {
+              source: "llm",
+              method: "athena_condition",
+              args: { query: "Is SOL news bullish?", period: "4h" },
+            },
+          ],
+        },
+      ],
+    });
+    expect(query.repeat).toEqual({ cooldown: "1h", maxTriggers: 3 });
+    expect(query.actions[0].params).toEqual({
+      url: "https://example.com/hook",
+    });
+  });
+
+  it("does not leak args between leaves from one builder", () => {
+    const btc = price("BTC");
+    const above = btc.gt(1);
+    btc.on("binance");
+
+    expect(above.args).toEqual({ symbol: "BTC" });
+  });
+
+  it("keeps one action, the last one set", () => {
+    const query = eql
+      .when(price("BTC").gt(1))
+      .do(notify("first"))
+      .do(webhook("https://example.com/hook"))
+      .expiresIn("1h")
+      .toQuery();
+
+    expect(query.actions).toEqual([
+      {
+        stepId: "step_1",
+        type: "webhook",
+        params: { url: "https://example.com/hook" },
+      },
+    ]);
+    expect(validateEqlQuery(query).valid).toBe(true);
+  });
+
+  it("passes args the SDK does not name through to the query", () => {
+    const leaf = price("BTC").with({ lookback: "1h" }).gt(1);
+
+    expect(leaf.args).toEqual({ symbol: "BTC", lookback: "1h" });
+  });
+
+  it("throws ValidationError for an incomplete query", () => {
+    expect(() => new EqlQueryBuilder().build()).toThrow(ValidationError);
+    expect(() => eql.when(price("BTC").gt(1)).expiresIn("1h").build()).toThrow(
+      "EQL query needs an action: call do()",
+    );
+    expect(() => eql.when(price("BTC").gt(1)).do(notify("x")).build()).toThrow(
+      "EQL query needs an expiry: call expiresIn()",
+    );
+  });
+
+  it("is not a thenable", async () => {
+    const builder = eql.when(price("BTC").gt(1));
+    await expect(Promise.resolve(builder)).resolves.toBe(builder);
+  });
+
+  it("rejects mistakes at compile time", () => {
+    // @ts-expect-error fear_greed has no exchange to select
+    expect(() => fearGreed().on("binance")).not.toThrow();
+    // @ts-expect-error price's `symbol` is a string
+    price("BTC").with({ symbol: 1 });
+    // @ts-expect-error "1 hour" is not an EQL duration
+    eql.when(price("BTC").gt(1)).expiresIn("1 hour");
+  });
+});
+
+describe("validateEqlQuery", () => {
+  const valid = (): EqlQuery =>
+    eql
+      .when(price("BTC").on("hyperliquid").gt(100000))
+      .do(notify("x"))
+      .expiresIn("24h")
+      .repeat("1h", 3)
+      .toQuery();
+
+  const codes = (query: unknown) =>
+    validateEqlQuery(query as EqlQuery).errors.map((e) => [e.code, e.path]);
+
+  it("accepts a well-formed query in the validate response shape", () => {
+    expect(validateEqlQuery(valid())).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it("rejects empty groups and a bare leaf at the top level", () => {
+    expect(codes({ ...valid(), conditions: { AND: [] } })).toEqual([
+      ["empty_group", "conditions.AND"],
+    ]);
+    expect(
+      codes({
+        ...valid(),
+        conditions: { OR: [{ AND: [price("X").gt(1)] }, { AND: [] }] },
+      }),
+    ).toEqual([["empty_group", "conditions.OR[1].AND"]]);
+    expect(codes({ ...valid(), conditions: price("X").gt(1) })).toEqual([
+      ["invalid_group", "conditions"],
+    ]);
+  });
+
+  it("checks operators against the source", () => {
+    const query = {
+      ...valid(),
+      conditions: {
+        AND: [
+          {
+            ...tweet({ text: "btc" }),
+            operator: "crosses_above",
+            value: 1,
+          },
+          { ...cron("* * * * *"), operator: ">", value: 1 },
+          { source: "price", args: { symbol: "BTC" } },
+          {
+            source: "price",
+            args: { symbol: "BTC" },
+            operator: ">",
+            value: "1",
+          },
+          { source: "weather", args: {} },
+        ],
+      },
+    };
+
+    expect(codes(query)).toEqual([
+      ["crossing_requires_numeric", "conditions.AND[0].operator"],
+      ["operator_not_allowed", "conditions.AND[1].operator"],
+      ["missing_operator", "conditions.AND[2].operator"],
+      ["invalid_value", "conditions.AND[3].value"],
+      ["invalid_source", "conditions.AND[4].source"],
+    ]);
+  });
+
+  it("checks action steps", () => {
+    const step = { stepId: "a", type: "notify", params: {} };
+    expect(codes({ ...valid(), actions: [] })).toEqual([
+      ["missing_action", "actions"],
+    ]);
+    expect(codes({ ...valid(), actions: [step, step] })).toEqual([
+      ["too_many_actions", "actions"],
+      ["duplicate_step_id", "actions[1].stepId"],
+    ]);
+    expect(
+      codes({
+        ...valid(),
+        actions: [{ stepId: "", type: "email", params: 1 }],
+      }),
+    ).toEqual([
+      ["missing_step_id", "actions[0].stepId"],
+      ["invalid_action_type", "actions[0].type"],
+      ["invalid_params", "actions[0].params"],
+    ]);
+  });
+
+  it("checks durations and maxTriggers", () => {
+    expect(
+      codes({
+        ...valid(),
+        expiresIn: "1 day",
+        repeat: { cooldown: "0m", maxTriggers: 0 },
+      }),
+    ).toEqual([
+      ["invalid_duration", "expiresIn"],
+      ["invalid_duration", "repeat.cooldown"],
+      ["invalid_max_triggers", "repeat.maxTriggers"],
+    ]);
+    expect(
+      codes({
+        ...valid(),
+        expiresIn: "1.5h",
+        repeat: { cooldown: "-1h", maxTriggers: 1 },
+      }),
+    ).toEqual([
+      ["invalid_duration", "expiresIn"],
+      ["invalid_duration", "repeat.cooldown"],
+    ]);
+    expect(
+      codes({
+        ...valid(),
+        conditions: { AND: [llm("Is BTC in a bear market?", "30m")] },
+      }),
+    ).toEqual([["invalid_duration", "conditions.AND[0].args.period"]]);
+  });
+
+  it("warns when the cooldown outlasts the query", () => {
+    const result = validateEqlQuery({
+      ...valid(),
+      expiresIn: "1h",
+      repeat: { cooldown: "2h", maxTriggers: 5 },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: "cooldown_exceeds_expiry",
+        path: "repeat.cooldown",
+      }),
+    ]);
+  });
+
+  it("parses durations to milliseconds", () => {
+    expect(parseEqlDuration("30m")).toBe(30 * 60 * 1000);
+    expect(parseEqlDuration("7d")).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseEqlDuration("0h")).toBeUndefined();
+    expect(parseEqlDuration("1.5h")).toBeUndefined();
+    expect(parseEqlDuration("1y")).toBeUndefined();
+    expect(parseEqlDuration(60)).toBeUndefined();
+  });
+});
@@ -5,6 +5,14 @@ import {
   RateLimitError,
   AuthenticationError,
   NetworkError,
+  RateLimitQueueFullError,
+  ResponseValidationError,
+  PaymentRequiredError,
+  AutoApiError,
+  AutoValidationError,
+  BudgetExceededError,
+  InsufficientScopeError,
+  isElfaSDKError,
   isRetryableError,
   getErrorMessage,
 } from "../utils/errors";
@@ -51,6 +59,11 @@ describe("Error Classes", () => {
         [new RateLimitError("c"), RateLimitError],
         [new AuthenticationError("d"), AuthenticationError],
         [new NetworkError("e"), NetworkError],
+        [new RateLimitQueueFullError(), RateLimitQueueFullError],
+        [new ResponseValidationError("/v2/ping", []), ResponseValidationError],
+        [new PaymentRequiredError("f"), PaymentRequiredError],
+        [new AutoApiError("g", 404), AutoApiError],
+        [new AutoValidationError("h", 422), AutoValidationError],
       ] as const;
 
       for (const [error, Cls] of cases) {
@@ -62,6 +75,23 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("ResponseValidationError", () => {
+    it("names the endpoint and the first offending path", () => {
+      const error = new ResponseValidationError("/v2/data/token-news", [
+        { path: "data[0].type", expected: '"post"', received: "number" },
+        { path: "metadata.total", expected: "number", received: "undefined" },
+      ]);
+
+      expect(error.code).toBe("RESPONSE_VALIDATION_ERROR");
+      expect(error.path).toBe("data[0].type");
+      expect(error.issues).toHaveLength(2);
+      expect(error.message).toBe(
+        'Response from /v2/data/token-news does not match the expected shape at data[0].type: expected "post", received number (and 1 more)',
+      );
+      expect(isRetryableError(error)).toBe(false);
+    });
+  });
+
   describe("ValidationError", () => {
     it("should create validation error", () => {
       const error = new ValidationError("Invalid input");
@@ -126,6 +156,7 @@ describe("Error Utility Functions", () => {
         true,
       );
       expect(isRetryableError(new ElfaApiError("Bad gateway", 502))).toBe(true);
+      expect(isRetryableError(new AutoApiError("Unavailable", 503))).toBe(true);
     });
 
     it("should return false for non-retryable errors", () => {
@@ -137,6 +168,42 @@ describe("Error Utility Functions", () => {
         false,
       );
       expect(isRetryableError(new Error("Generic error"))).toBe(false);
+      expect(isRetryableError(new RateLimitQueueFullError())).toBe(false);
+      expect(isRetryableError(new AutoValidationError("Bad EQL", 422))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("isElfaSDKError", () => {
+    it("matches every SDK error by name, not by class", () => {
+      const errors = [
+        new ElfaSDKError("x", "X"),
+        new ElfaApiError("x", 500),
+        new AutoValidationError("x", 422),
+        new ValidationError("x"),
+        new RateLimitError("x"),
+        new RateLimitQueueFullError(),
+        new BudgetExceededError({
+          window: "day",
+          limit: 1,
+          spent: 1,
+          estimated: 1,
+          endpoint: "GET /v2/ping",
+        }),
+        new InsufficientScopeError("POST /v2/chat", { scope: "chat" }),
+        new ResponseValidationError("GET /v2/ping", []),
+        new PaymentRequiredError("x"),
+        new AuthenticationError(),
+        new NetworkError("x"),
+      ];
+      for (const error of errors) expect(isElfaSDKError(error)).toBe(true);
+
+      // as thrown by the other module copy in a dual CJS/ESM install
+      const foreign = Object.assign(new Error("x"), { name: "NetworkError" });
+      expect(isElfaSDKError(foreign)).toBe(true);
+      expect(isElfaSDKError(new TypeError("fetch failed"))).toBe(false);
+      expect(isElfaSDKError("NetworkError")).toBe(false);
     });
   });
 
@@ -0,0 +1,175 @@
+import { KeyPool, maskApiKey } from "../utils/keyPool";
+import { KeyStatus } from "../utils/keyStatus";
+import { ValidationError } from "../utils/errors";
+
+const keys = [
+  { apiKey: "elfak_aaaa1111", name: "a" },
+  { apiKey: "elfak_bbbb2222", name: "b", hmacSecret: "sb" },
+  { apiKey: "elfak_cccc3333", name: "c" },
+];
+
+describe("maskApiKey", () => {
+  it("keeps the prefix and the last four characters", () => {
+    expect(maskApiKey("elfak_0123456789abcdef245c")).toBe("elfak_...245c");
+    expect(maskApiKey("plainkey9876")).toBe("...9876");
+  });
+});
+
+describe("KeyPool", () => {
+  it("takes turns and skips benched keys", () => {
+    const pool = new KeyPool({ keys });
+
+    expect([1, 2, 3, 4].map(() => pool.select().name)).toEqual([
+      "a",
+      "b",
+      "c",
+      "a",
+    ]);
+
+    pool.bench("c", "rate_limited", new Date(Date.now() + 60_000));
+    expect([1, 2, 3].map(() => pool.select().name)).toEqual(["b", "a", "b"]);
+    expect(pool.select()).toEqual({
+      name: "a",
+      apiKey: "elfak_aaaa1111",
+    });
+    expect(pool.select()).toEqual({
+      name: "b",
+      apiKey: "elfak_bbbb2222",
+      hmacSecret: "sb",
+    });
+  });
+
+  it("falls back to the key back soonest when all are benched", () => {
+    const pool = new KeyPool({ keys: keys.slice(0, 2) });
+    const now = Date.now();
+    pool.bench("a", "rate_limited", new Date(now + 30_000), now);
+    pool.bench("b", "rate_limited", new Date(now + 10_000), now);
+
+    expect(pool.select(undefined, now).name).toBe("b");
+    expect(pool.hasAlternative("b", now)).toBe(false);
+    expect(pool.select(undefined, now + 20_000).name).toBe("b");
+  });
+
+  it("benches a key that needs payment until it is restored", () => {
+    const pool = new KeyPool({ keys: keys.slice(0, 2) });
+    const benched: unknown[] = [];
+    pool.on("benched", (event) => benched.push(event));
+
+    pool.bench("a", "payment_required");
+
+    expect(benched).toEqual([
+      { name: "a", reason: "payment_required", until: null },
+    ]);
+    expect(pool.usage()[0]).toMatchObject({
+      benched: true,
+      benchedUntil: null,
+      paymentRequired: 1,
+    });
+    pool.restore("a");
+    expect(pool.usage()[0]).toMatchObject({ benched: false });
+  });
+
+  it("prefers the most remaining quota under least-used", () => {
+    const pool = new KeyPool({ keys, strategy: "least-used" });
+    const status = (daily: number) =>
+      new KeyStatus({
+        name: "k",
+        tier: "pro",
+        status: "active",
+        remainingRequests: { daily, monthly: 1000 },
+      } as any);
+    pool.seed("a", status(10));
+    pool.seed("b", status(50));
+    pool.seed("c", status(49));
+
+    expect(pool.select().name).toBe("b");
+    pool.recordRequest("b");
+    pool.recordRequest("b");
+    expect(pool.select().name).toBe("c");
+    expect(pool.usage().find((u) => u.name === "b")).toMatchObject({
+      requests: 2,
+      remaining: { daily: 48, monthly: 998 },
+    });
+  });
+
+  it("keeps Auto resources on their key and sessions on theirs when sticky", () => {
+    const pool = new KeyPool({ keys, strategy: "sticky" });
+
+    pool.learn("/v2/auto/queries", { queryId: "q1" }, "b");
+    pool.learn("/v2/chat", { data: { sessionId: "s1" } }, "c");
+
+    const query = pool.affinityFor("/v2/auto/queries/q1/cancel");
+    const session = pool.affinityFor("/v2/chat", '{"sessionId":"s1"}');
+    expect(query).toEqual({ id: "auto:q1", owned: true });
+    expect(session).toEqual({ id: "session:s1", owned: false });
+    expect(pool.affinityFor("/v2/auto/queries/stream")).toBeUndefined();
+
+    expect(pool.select(query).name).toBe("b");
+    expect(pool.select(session).name).toBe("c");
+
+    pool.bench("b", "rate_limited");
+    pool.bench("c", "rate_limited");
+    expect(pool.select(query).name).toBe("b");
+    expect(pool.select(session).name).toBe("a");
+  });
+
+  it("pins an owned id only when told which key owns it", () => {
+    const pool = new KeyPool({ keys });
+    const query = pool.affinityFor("/v2/auto/queries/q2")!;
+    const notFound = Object.assign(new ValidationError("Query not found"), {
+      statusCode: 404,
+    });
+
+    expect([1, 2].map(() => pool.select(query).name)).toEqual(["a", "b"]);
+    expect(pool.nextOwner(notFound, query, ["a"])?.name).toBe("b");
+    expect(pool.nextOwner(notFound, query, ["a", "b", "c"])).toBeUndefined();
+    expect(pool.nextOwner(new Error("boom"), query, ["a"])).toBeUndefined();
+
+    pool.pin(query.id, "c");
+    expect([1, 2].map(() => pool.select(query).name)).toEqual(["c", "c"]);
+    expect(pool.nextOwner(notFound, query, ["c"])).toBeUndefined();
+
+    pool.unpin(query.id);
+    expect(pool.select(query).name).toBe("c");
+    expect(pool.select(query).name).toBe("a");
+  });
+
+  it("does not pin chat sessions unless sticky", () => {
+    const pool = new KeyPool({ keys });
+
+    pool.learn("/v2/chat", { data: { sessionId: "s1" } }, "c");
+
+    expect(
+      pool.select(pool.affinityFor("/v2/chat", { sessionId: "s1" })),
+    ).toMatchObject({ name: "a" });
+  });
+
+  it("needs at least one key", () => {
+    expect(() => new KeyPool({ keys: [] })).toThrow(ValidationError);
+  });
+
+  it("numbers masked names that collide and refuses duplicate names", () => {
+    const pool = new KeyPool({
+      keys: [
+        { apiKey: "elfak_one_1111" },
+        { apiKey: "elfak_two_1111" },
+        { apiKey: "elfak_three_1111" },
+      ],
+    });
+
+    expect(pool.names()).toEqual([
+      "elfak_...1111",
+      "elfak_...1111#2",
+      "elfak_...1111#3",
+    ]);
+    expect(
+      () =>
+        new KeyPool({
+          keys: [
+            { apiKey: "k1", name: "main" },
+            { apiKey: "k2", name: "main" },
+          ],
+        }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,125 @@
+import { KeyStatus } from "../utils/keyStatus";
+import type { ApiKeyStatus, ApiKeyStatusData } from "../types/elfa";
+
+const current: ApiKeyStatus = {
+  id: 7,
+  key: "elfak_...245c",
+  name: "prod",
+  status: "active",
+  dailyRequestLimit: 1000,
+  monthlyRequestLimit: 30000,
+  expiresAt: "2026-10-20T12:00:00.000Z",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+  requestsPerMinute: 60,
+  email: null,
+  project: null,
+  allowOverage: null,
+  maxOverage: null,
+  spendCapCredits: 5000,
+  bonusCredits: 0,
+  bonusCreditsExpiresAt: null,
+  emailNotificationsEnabled: false,
+  lastEmailSentAt: null,
+  lastUsagePercentNotified: 0,
+  spendAlertThreshold: null,
+  spendAlertMaxFrequencyHours: 24,
+  totalSpendAlerted: 0,
+  hmacEnabled: true,
+  athenaEnabled: true,
+  scopes: ["data:read", "chat"],
+  tier: "pro",
+  depositCredits: 0,
+  billingMode: "deposit",
+  usage: { monthly: 12000, daily: 950 },
+  limits: { monthly: 30000, daily: 1000 },
+  isExpired: false,
+  remainingRequests: { monthly: 18000, daily: 50 },
+};
+
+const legacy: ApiKeyStatusData = {
+  name: "old",
+  dailyLimit: 100,
+  monthlyLimit: 3000,
+  tier: "free",
+  usage: { remainingMonthly: 2990, remainingDaily: 90, month: 10, today: 10 },
+  subscription: { status: "active" },
+  allowOverage: true,
+  maxOverage: 50,
+};
+
+describe("KeyStatus", () => {
+  it("normalises the current shape", () => {
+    expect({ ...new KeyStatus(current) }).toEqual({
+      name: "prod",
+      tier: "pro",
+      status: "active",
+      billingMode: "deposit",
+      limits: { daily: 1000, monthly: 30000, perMinute: 60 },
+      usage: { daily: 950, monthly: 12000 },
+      remaining: { daily: 50, monthly: 18000 },
+      scopes: ["data:read", "chat"],
+      hmacEnabled: true,
+      autoEnabled: true,
+      expiresAt: new Date("2026-10-20T12:00:00.000Z"),
+      isExpired: false,
+      allowOverage: false,
+      maxOverage: null,
+      spendCapCredits: 5000,
+    });
+  });
+
+  it("normalises the older shape to the same fields", () => {
+    expect({ ...new KeyStatus(legacy) }).toEqual({
+      name: "old",
+      tier: "free",
+      limits: { daily: 100, monthly: 3000, perMinute: null },
+      usage: { daily: 10, monthly: 10 },
+      remaining: { daily: 90, monthly: 2990 },
+      scopes: [],
+      hmacEnabled: false,
+      autoEnabled: false,
+      expiresAt: null,
+      isExpired: false,
+      allowOverage: true,
+      maxOverage: 50,
+      spendCapCredits: null,
+    });
+  });
+
+  it("leaves remaining unset when the older shape has no usage", () => {
+    const status = new KeyStatus({
+      ...legacy,
+      usage: undefined,
+    } as unknown as ApiKeyStatusData);
+
+    expect(status.usage).toEqual({ daily: 0, monthly: 0 });
+    expect(status.remaining).toEqual({});
+  });
+
+  it("checks scopes", () => {
+    const status = new KeyStatus(current);
+
+    expect(status.hasScope("chat")).toBe(true);
+    expect(status.hasScope("admin")).toBe(false);
+  });
+
+  it("reports nearness to a limit per window or in either", () => {
+    const status = new KeyStatus(current);
+
+    expect(status.isNearLimit()).toBe(true);
+    expect(status.isNearLimit(96)).toBe(false);
+    expect(status.isNearLimit(90, "monthly")).toBe(false);
+    expect(status.isNearLimit(40, "monthly")).toBe(true);
+    expect(new KeyStatus(legacy).isNearLimit(50)).toBe(false);
+  });
+
+  it("measures time until expiry", () => {
+    const status = new KeyStatus(current);
+    const noon = Date.parse("2026-10-19T12:00:00.000Z");
+
+    expect(status.timeUntilExpiry(noon)).toBe(86_400_000);
+    expect(status.timeUntilExpiry(noon + 2 * 86_400_000)).toBe(0);
+    expect(new KeyStatus(legacy).timeUntilExpiry()).toBeNull();
+  });
+});
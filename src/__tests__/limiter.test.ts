@@ -0,0 +1,151 @@
+import { RateLimiter } from "../utils/limiter";
+import type { ApiKeyStatusResponse } from "../types/elfa";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 15, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("lets a full bucket through and queues the rest", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    const done: number[] = [];
+
+    for (const n of [1, 2, 3]) {
+      limiter.acquire().then(() => done.push(n));
+    }
+    await Promise.resolve();
+
+    expect(done).toEqual([1, 2]);
+    expect(limiter.queueSize).toBe(1);
+
+    // one token every 30s at 2/min
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(done).toEqual([1, 2, 3]);
+  });
+
+  it("drains the high lane before normal and low", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const order: string[] = [];
+
+    await limiter.acquire();
+    limiter.acquire("low").then(() => order.push("low"));
+    limiter.acquire("normal").then(() => order.push("normal"));
+    limiter.acquire("high").then(() => order.push("high"));
+
+    await jest.advanceTimersByTimeAsync(180000);
+    expect(order).toEqual(["high", "normal", "low"]);
+  });
+
+  it("rejects once the queue is at maxQueueSize", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1, maxQueueSize: 1 });
+
+    await limiter.acquire();
+    limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toMatchObject({
+      name: "RateLimitQueueFullError",
+      code: "RATE_LIMIT_QUEUE_FULL",
+    });
+  });
+
+  it("gives up an aborted waiter's place in the queue", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const controller = new AbortController();
+    const done: string[] = [];
+
+    await limiter.acquire();
+    const aborted = limiter.acquire("high", controller.signal);
+    limiter.acquire("low").then(() => done.push("low"));
+    controller.abort(new Error("gone"));
+
+    await expect(aborted).rejects.toThrow("gone");
+    expect(limiter.queueSize).toBe(1);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(done).toEqual(["low"]);
+    await expect(limiter.acquire("normal", controller.signal)).rejects.toThrow(
+      "gone",
+    );
+  });
+
+  it("refuses calls once the daily budget is spent", async () => {
+    const limiter = new RateLimiter({ dailyRemaining: 1 });
+    const exhausted = jest.fn();
+    limiter.on("dailyBudgetExhausted", exhausted);
+
+    await limiter.acquire();
+
+    expect(exhausted).toHaveBeenCalledWith({
+      resetTime: new Date(Date.UTC(2026, 0, 16)),
+    });
+    await expect(limiter.acquire()).rejects.toMatchObject({
+      name: "RateLimitError",
+      resetTime: new Date(Date.UTC(2026, 0, 16)),
+    });
+  });
+
+  it("warns once when the daily budget runs low", async () => {
+    const limiter = new RateLimiter({ dailyRemaining: 12, dailyLimit: 100 });
+    const low = jest.fn();
+    limiter.on("dailyBudgetLow", low);
+
+    for (let i = 0; i < 4; i++) await limiter.acquire();
+
+    expect(low).toHaveBeenCalledTimes(1);
+    expect(low).toHaveBeenCalledWith({ remaining: 10, limit: 100 });
+  });
+
+  it("holds queued requests while paused", async () => {
+    const limiter = new RateLimiter();
+    const done = jest.fn();
+
+    limiter.pauseUntil(new Date(Date.now() + 5000));
+    limiter.acquire().then(done);
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(done).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("seeds from either key-status shape", () => {
+    const limiter = new RateLimiter();
+
+    limiter.seed({
+      success: true,
+      data: {
+        requestsPerMinute: 60,
+        dailyRequestLimit: 1000,
+        remainingRequests: { daily: 900, monthly: 20000 },
+      },
+    } as unknown as ApiKeyStatusResponse);
+    expect(limiter.remaining).toEqual({ daily: 900, monthly: 20000 });
+
+    limiter.seed({
+      success: true,
+      data: {
+        dailyLimit: 500,
+        usage: { remainingDaily: 42, remainingMonthly: 4200 },
+      },
+    } as unknown as ApiKeyStatusResponse);
+    expect(limiter.remaining).toEqual({ daily: 42, monthly: 4200 });
+
+    limiter.seed({
+      success: true,
+      data: { dailyLimit: 500 },
+    } as unknown as ApiKeyStatusResponse);
+    expect(limiter.remaining).toEqual({ daily: 42, monthly: 4200 });
+  });
+
+  it("keeps listeners from breaking the request that emitted", async () => {
+    const limiter = new RateLimiter({ dailyRemaining: 1 });
+    limiter.on("dailyBudgetExhausted", () => {
+      throw new Error("listener bug");
+    });
+
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+  });
+});
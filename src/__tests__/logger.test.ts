@@ -0,0 +1,146 @@
+import { HttpClient } from "../utils/http";
+import { createConsoleLogger, redact, resolveLogger } from "../utils/logger";
+import { NetworkError } from "../utils/errors";
+import type { Transport } from "../utils/transport";
+
+function recordingLogger() {
+  return {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+}
+
+describe("redact", () => {
+  it("hides keys, signatures and secrets at any depth", () => {
+    expect(
+      redact({
+        headers: {
+          "X-Elfa-Api-Key": "secret-key",
+          "x-elfa-signature": "signature",
+          Accept: "application/json",
+        },
+        keys: [{ apiKey: "secret-key", hmacSecret: "hmac", name: "primary" }],
+      }),
+    ).toEqual({
+      headers: {
+        "X-Elfa-Api-Key": "[REDACTED]",
+        "x-elfa-signature": "[REDACTED]",
+        Accept: "application/json",
+      },
+      keys: [
+        { apiKey: "[REDACTED]", hmacSecret: "[REDACTED]", name: "primary" },
+      ],
+    });
+  });
+
+  it("cuts cycles instead of following them", () => {
+    const cyclic: Record<string, unknown> = { name: "loop" };
+    cyclic.self = cyclic;
+
+    expect(JSON.stringify(redact(cyclic))).toContain("[Truncated]");
+  });
+});
+
+describe("resolveLogger", () => {
+  it("prints warnings only, unless debug is on", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const quiet = resolveLogger({});
+      quiet.debug({ requestId: "req-1" }, "HTTP request");
+      quiet.warn({}, "Response drift");
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith("[Elfa] Response drift");
+
+      resolveLogger({ debug: true }).debug(
+        { requestId: "req-1" },
+        "HTTP request",
+      );
+      expect(log).toHaveBeenCalledWith("[Elfa] HTTP request", {
+        requestId: "req-1",
+      });
+    } finally {
+      log.mockRestore();
+      warn.mockRestore();
+    }
+  });
+
+  it("does not let a throwing logger fail the caller", () => {
+    const logger = recordingLogger();
+    logger.debug.mockImplementation(() => {
+      throw new Error("disk full");
+    });
+
+    expect(() =>
+      resolveLogger({ logger }).debug({}, "HTTP request"),
+    ).not.toThrow();
+  });
+
+  it("filters by level on the console logger", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const logger = createConsoleLogger({ level: "error" });
+      logger.info({}, "ignored");
+      logger.error({ attempt: 1 }, "failed");
+
+      expect(log).not.toHaveBeenCalled();
+      expect(error).toHaveBeenCalledWith("[Elfa] failed", { attempt: 1 });
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+});
+
+describe("HttpClient logger", () => {
+  it("sends structured, redacted fields to a custom logger", async () => {
+    const logger = recordingLogger();
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce(new NetworkError("socket hang up"))
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: {} }),
+    } satisfies Transport;
+    const httpClient = new HttpClient({
+      baseURL: "https://api.example.com",
+      retries: 1,
+      retryDelay: 1,
+      transport,
+      logger,
+    });
+    httpClient.setAuthHeader("secret-key");
+
+    await httpClient.get("/v2/aggregations/trending-tokens");
+
+    const calls = logger.debug.mock.calls;
+    expect(calls.map(([, message]) => message)).toEqual([
+      "HTTP request",
+      "HTTP request failed",
+      "Retrying request",
+      "HTTP request",
+      "HTTP response",
+    ]);
+    const [first] = calls[0];
+    expect(first).toMatchObject({
+      requestId: expect.stringMatching(/^req-\d+$/),
+      endpoint: "GET /v2/aggregations/trending-tokens",
+      attempt: 0,
+      headers: { "x-elfa-api-key": "[REDACTED]" },
+    });
+    expect(calls[2][0]).toMatchObject({
+      requestId: first.requestId,
+      attempt: 1,
+      error: "NETWORK_ERROR",
+    });
+    expect(calls[4][0]).toMatchObject({
+      requestId: first.requestId,
+      attempt: 1,
+      status: 200,
+      durationMs: expect.any(Number),
+    });
+    expect(JSON.stringify(calls)).not.toContain("secret-key");
+  });
+});
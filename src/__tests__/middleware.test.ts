@@ -0,0 +1,178 @@
+import { HttpClient } from "../utils/http";
+import { connectStream } from "../utils/stream";
+import { AutoClient } from "../client/AutoClient";
+import type { Middleware, MiddlewareContext } from "../utils/middleware";
+import type { TransportResponse } from "../utils/transport";
+
+const ok = (data: unknown = {}): TransportResponse => ({
+  status: 200,
+  headers: {},
+  data,
+});
+
+function sse(frames: string): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(frames));
+      controller.close();
+    },
+  });
+}
+
+describe("middleware", () => {
+  it("runs in order around the request and may change its headers", async () => {
+    const transport = { request: jest.fn().mockResolvedValue(ok({ a: 1 })) };
+    const calls: string[] = [];
+    let seen: MiddlewareContext | undefined;
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      transport,
+      middleware: [
+        async (context, next) => {
+          calls.push("outer in");
+          seen = context;
+          context.headers["x-request-id"] = "r1";
+          const response = await next();
+          calls.push("outer out");
+          return response;
+        },
+        async (_, next) => {
+          calls.push("inner");
+          return next();
+        },
+      ],
+    });
+
+    await expect(
+      client.get("/v2/ping", { params: { limit: 5 } }),
+    ).resolves.toEqual({ a: 1 });
+
+    expect(calls).toEqual(["outer in", "inner", "outer out"]);
+    expect(seen).toMatchObject({
+      method: "GET",
+      path: "/v2/ping",
+      params: { limit: "5" },
+      url: "https://api.example.com/v2/ping?limit=5",
+      attempt: 0,
+      stream: false,
+      startedAt: expect.any(Number),
+    });
+    expect(transport.request.mock.calls[0][0].headers).toMatchObject({
+      "x-request-id": "r1",
+    });
+  });
+
+  it("answers locally without reaching the transport", async () => {
+    const transport = { request: jest.fn() };
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      transport,
+      middleware: [async () => ok({ mocked: true })],
+    });
+
+    await expect(client.get("/v2/ping")).resolves.toEqual({ mocked: true });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it("sees failures as SDK errors and may retry them itself", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockResolvedValueOnce({ status: 500, headers: {}, data: {} })
+        .mockResolvedValueOnce(ok({ second: true })),
+    };
+    const errors: string[] = [];
+    const retryOnce: Middleware = async (_, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        errors.push((error as Error).name);
+        return next();
+      }
+    };
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      transport,
+      retries: 0,
+      middleware: [retryOnce],
+    });
+
+    await expect(client.get("/v2/ping")).resolves.toEqual({ second: true });
+    expect(errors).toEqual(["ElfaApiError"]);
+  });
+
+  it("turns an error status answered locally into an error", async () => {
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      transport: { request: jest.fn() },
+      middleware: [async () => ({ status: 401, headers: {}, data: {} })],
+    });
+
+    await expect(client.get("/v2/ping")).rejects.toMatchObject({
+      name: "AuthenticationError",
+    });
+  });
+
+  it("runs around each stream connect attempt", async () => {
+    const attempts: Array<[number, boolean]> = [];
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {},
+          body: sse("data: a\n\n"),
+        }),
+    };
+
+    await connectStream(
+      () => ({
+        method: "GET",
+        url: "https://api.example.com/v2/auto/queries/stream",
+        headers: {},
+      }),
+      {
+        transport,
+        label: "Test stream",
+        retries: 1,
+        retryDelay: 1,
+        middleware: [
+          async (context, next) => {
+            attempts.push([context.attempt, context.stream]);
+            return next();
+          },
+        ],
+      },
+    );
+
+    expect(attempts).toEqual([
+      [0, true],
+      [1, true],
+    ]);
+  });
+
+  it("reaches Auto streams", async () => {
+    const paths: string[] = [];
+    const client = new AutoClient({
+      apiKey: "k",
+      transport: {
+        request: jest.fn().mockResolvedValue({
+          status: 200,
+          headers: {},
+          body: sse('id: 1\nevent: end\ndata: {"queryId":"q1"}\n\n'),
+        }),
+      },
+      middleware: [
+        async (context, next) => {
+          paths.push(context.path);
+          return next();
+        },
+      ],
+    });
+
+    for await (const event of client.streamQuery("q1")) void event;
+
+    expect(paths).toEqual(["/v2/auto/queries/q1/stream"]);
+  });
+});
@@ -0,0 +1,163 @@
+import { Preflight } from "../utils/preflight";
+import { KeyStatus } from "../utils/keyStatus";
+import { InsufficientScopeError } from "../utils/errors";
+import type { KeyStatusResponse } from "../types/elfa";
+
+function statusResponse(data: Record<string, unknown>): KeyStatusResponse {
+  const response = { success: true, data } as any;
+  return { ...response, keyStatus: new KeyStatus(response.data) };
+}
+
+const current = (overrides: Record<string, unknown> = {}) =>
+  statusResponse({
+    name: "k",
+    tier: "pro",
+    scopes: ["data"],
+    hmacEnabled: false,
+    athenaEnabled: false,
+    remainingRequests: { daily: 1, monthly: 1 },
+    ...overrides,
+  });
+
+describe("Preflight", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, "warn").mockImplementation();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it("refuses a named scope the key lacks and Auto without Auto", async () => {
+    const loadStatus = jest.fn().mockResolvedValue(current());
+    const preflight = new Preflight(
+      { loadStatus, hmacConfigured: () => false },
+      { requirements: { "POST /v2/chat": { scope: "chat" } } },
+    );
+
+    await expect(preflight.check("POST /v2/chat")).rejects.toThrow(
+      new InsufficientScopeError("POST /v2/chat", {
+        scope: "chat",
+        scopes: ["data"],
+      }),
+    );
+    await expect(
+      preflight.check("POST /v2/auto/queries"),
+    ).rejects.toMatchObject({
+      name: "InsufficientScopeError",
+      code: "INSUFFICIENT_SCOPE",
+      endpoint: "POST /v2/auto/queries",
+      feature: "auto",
+    });
+    await expect(
+      preflight.check("GET /v2/data/top-mentions"),
+    ).resolves.toBeUndefined();
+    expect(loadStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it("checks no scope by default", async () => {
+    const preflight = new Preflight({
+      loadStatus: async () => current({ scopes: [] }),
+      hmacConfigured: () => false,
+    });
+
+    await expect(preflight.check("POST /v2/chat")).resolves.toBeUndefined();
+    await expect(
+      preflight.check("POST /v2/chat/stream"),
+    ).resolves.toBeUndefined();
+    expect(Object.keys((await preflight.capabilities()).endpoints)).toEqual([
+      "POST /v2/auto/chat",
+      "GET /v2/auto/validate-symbol/{exchange}/{symbol}",
+      "POST /v2/auto/queries/validate",
+      "POST /v2/auto/queries",
+    ]);
+  });
+
+  it("merges requirements over the defaults", async () => {
+    const preflight = new Preflight(
+      {
+        loadStatus: async () => current({ scopes: ["chat"] }),
+        hmacConfigured: () => false,
+      },
+      {
+        requirements: {
+          "GET /v2/data/top-mentions": { scope: "data:top" },
+          "POST /v2/auto/queries": null,
+        },
+      },
+    );
+
+    await expect(
+      preflight.check("GET /v2/data/top-mentions"),
+    ).rejects.toBeInstanceOf(InsufficientScopeError);
+    await expect(preflight.check("POST /v2/auto/queries")).resolves.toBe(
+      undefined,
+    );
+    expect((await preflight.capabilities()).endpoints).toMatchObject({
+      "GET /v2/data/top-mentions": false,
+      "POST /v2/auto/chat": false,
+    });
+  });
+
+  it("refuses nothing when the status carries no capabilities", async () => {
+    const preflight = new Preflight({
+      loadStatus: async () =>
+        statusResponse({
+          name: "old",
+          tier: "free",
+          usage: { remainingDaily: 1, remainingMonthly: 1 },
+        }),
+      hmacConfigured: () => false,
+    });
+
+    await expect(
+      preflight.check("POST /v2/auto/queries"),
+    ).resolves.toBeUndefined();
+    expect(await preflight.capabilities()).toMatchObject({ known: false });
+  });
+
+  it("lets calls through when the status fetch fails, then retries it", async () => {
+    const loadStatus = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValueOnce(current());
+    const preflight = new Preflight({
+      loadStatus,
+      hmacConfigured: () => false,
+    });
+
+    await expect(
+      preflight.check("POST /v2/auto/queries"),
+    ).resolves.toBeUndefined();
+    await expect(
+      preflight.check("POST /v2/auto/queries"),
+    ).rejects.toBeInstanceOf(InsufficientScopeError);
+    expect(loadStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it("warns when the key requires HMAC and no secret is configured", async () => {
+    let secret = false;
+    const preflight = new Preflight({
+      loadStatus: async () => current({ hmacEnabled: true }),
+      hmacConfigured: () => secret,
+    });
+
+    expect(await preflight.capabilities()).toMatchObject({
+      hmacRequired: true,
+      hmacConfigured: false,
+    });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("no hmacSecret is configured"),
+    );
+
+    secret = true;
+    preflight.refresh();
+    warn.mockClear();
+    expect(await preflight.capabilities()).toMatchObject({
+      hmacConfigured: true,
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { s, validateSchema } from "../utils/schema";
+
+describe("validateSchema", () => {
+  const schema = s.object({
+    id: s.number,
+    name: s.nullable(s.string),
+    tags: s.array(s.string),
+    kind: s.literal("a", "b"),
+    extra: s.optional(s.object({ flag: s.boolean })),
+  });
+
+  it("accepts a matching value and ignores unknown keys", () => {
+    expect(
+      validateSchema(schema, {
+        id: 1,
+        name: null,
+        tags: ["x"],
+        kind: "a",
+        added: "later",
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports each offending path", () => {
+    expect(
+      validateSchema(schema, {
+        id: "1",
+        name: "n",
+        tags: ["x", 2],
+        kind: "c",
+        extra: { flag: "yes" },
+      }),
+    ).toEqual([
+      { path: "id", expected: "number", received: "string" },
+      { path: "tags[1]", expected: "string", received: "number" },
+      { path: "kind", expected: '"a" | "b"', received: "string" },
+      { path: "extra.flag", expected: "boolean", received: "string" },
+    ]);
+  });
+
+  it("treats a missing required field as undefined", () => {
+    expect(validateSchema(s.object({ id: s.number }), {})).toEqual([
+      { path: "id", expected: "number", received: "undefined" },
+    ]);
+  });
+
+  it("passes a union if any member passes, else reports the closest", () => {
+    const union = s.union(
+      s.object({ a: s.number, b: s.number }),
+      s.object({ c: s.string }),
+    );
+
+    expect(validateSchema(union, { c: "x" })).toEqual([]);
+    expect(validateSchema(union, { a: 1, b: "2" })).toEqual([
+      { path: "b", expected: "number", received: "string" },
+    ]);
+  });
+});
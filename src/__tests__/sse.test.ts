@@ -46,6 +46,22 @@ describe("readSSE", () => {
     expect(messages).toEqual([{ event: "end", data: '{"code":1}' }]);
   });
 
+  it("reads the retry field, including on a frame of its own", async () => {
+    const messages = await collect([
+      "retry: 5000\n\n",
+      "retry: soon\nid: 7\ndata: x\n\n",
+    ]);
+    expect(messages).toEqual([
+      { data: "", retry: 5000 },
+      { id: "7", data: "x" },
+    ]);
+  });
+
+  it("keeps a frame that only carries an id", async () => {
+    const messages = await collect(["id: 42\n\n", ": ping\n\n"]);
+    expect(messages).toEqual([{ id: "42", data: "" }]);
+  });
+
   it("releases the reader lock when the consumer stops early", async () => {
     const body = streamFrom(["data: a\n\n", "data: b\n\n"]);
     for await (const _ of readSSE(body)) {
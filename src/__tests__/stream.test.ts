@@ -0,0 +1,227 @@
+import { connectStream, readStreamEvents } from "../utils/stream";
+import { resolveLogger } from "../utils/logger";
+import { RateLimiter } from "../utils/limiter";
+import type { Transport, TransportResponse } from "../utils/transport";
+
+const URL = "https://api.example.com/v2/auto/queries/stream";
+
+const build = () => ({ method: "GET", url: URL, headers: {} });
+
+function sse(frames: string): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(frames));
+      controller.close();
+    },
+  });
+}
+
+function transportOf(...responses: Array<TransportResponse | Error>) {
+  const request = jest.fn();
+  for (const response of responses) {
+    if (response instanceof Error) request.mockRejectedValueOnce(response);
+    else request.mockResolvedValueOnce(response);
+  }
+  return { request } satisfies Transport;
+}
+
+async function collect(
+  iterator: AsyncIterable<{ data: string }>,
+): Promise<string[]> {
+  const data: string[] = [];
+  for await (const message of iterator) data.push(message.data);
+  return data;
+}
+
+describe("connectStream", () => {
+  it("retries network errors and 5xx before the first byte", async () => {
+    const body = sse("data: a\n\n");
+    const transport = transportOf(
+      new TypeError("fetch failed"),
+      { status: 503, headers: {}, data: { message: "busy" } },
+      { status: 200, headers: {}, body },
+    );
+    const builder = jest.fn(build);
+
+    const response = await connectStream(builder, {
+      transport,
+      label: "Test stream",
+      timeout: 500,
+      retries: 2,
+      retryDelay: 1,
+    });
+
+    expect(response.body).toBe(body);
+    expect(builder).toHaveBeenCalledTimes(3);
+    expect(transport.request).toHaveBeenLastCalledWith({
+      method: "GET",
+      url: URL,
+      headers: {},
+      timeout: 500,
+      responseType: "stream",
+    });
+  });
+
+  it("gives up once retries are spent", async () => {
+    const transport = transportOf(
+      new TypeError("fetch failed"),
+      new TypeError("fetch failed"),
+    );
+
+    await expect(
+      connectStream(build, {
+        transport,
+        label: "Test stream",
+        retries: 1,
+        retryDelay: 1,
+      }),
+    ).rejects.toMatchObject({
+      name: "NetworkError",
+      message: "Test stream failed: fetch failed",
+    });
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry errors a retry cannot fix", async () => {
+    const transport = transportOf({
+      status: 401,
+      headers: {},
+      data: { message: "bad key" },
+    });
+
+    await expect(
+      connectStream(build, { transport, label: "Test stream", retries: 3 }),
+    ).rejects.toMatchObject({ name: "AuthenticationError" });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it("takes a rate-limiter turn for each attempt", async () => {
+    const rateLimiter = new RateLimiter({ dailyRemaining: 2 });
+    const acquire = jest.spyOn(rateLimiter, "acquire");
+    const transport = transportOf(
+      { status: 503, headers: {}, data: { message: "busy" } },
+      { status: 503, headers: {}, data: { message: "busy" } },
+    );
+
+    await expect(
+      connectStream(build, {
+        transport,
+        label: "Test stream",
+        retries: 2,
+        retryDelay: 1,
+        rateLimiter,
+        priority: "high",
+      }),
+    ).rejects.toMatchObject({
+      name: "RateLimitError",
+      message: "Daily request budget exhausted",
+    });
+    expect(acquire).toHaveBeenCalledWith("high", undefined);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits as a 429's reset says", async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = transportOf(
+        { status: 429, headers: { "retry-after": "2" } },
+        { status: 200, headers: {}, body: sse("") },
+      );
+
+      const connecting = connectStream(build, {
+        transport,
+        label: "Test stream",
+        retries: 1,
+        retryDelay: 1,
+      });
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(connecting).resolves.toMatchObject({ status: 200 });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("readStreamEvents", () => {
+  it("fails a stream that goes silent for idleTimeout", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("data: a\n\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const data: string[] = [];
+
+    await expect(
+      (async () => {
+        const events = readStreamEvents(body, { idleTimeout: 20, url: URL });
+        for await (const message of events) data.push(message.data);
+      })(),
+    ).rejects.toMatchObject({
+      name: "NetworkError",
+      message: "Stream idle for 20ms",
+    });
+    expect(data).toEqual(["a"]);
+    expect(cancelled).toBe(true);
+  });
+
+  it("logs connect, events and close to the logger", async () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const response = await connectStream(
+      () => ({ ...build(), headers: { "x-elfa-api-key": "secret-key" } }),
+      {
+        transport: transportOf({
+          status: 200,
+          headers: {},
+          body: sse("id: 1\nevent: tick\ndata: a\n\n"),
+        }),
+        label: "Test stream",
+        logger: resolveLogger({ logger }),
+        requestId: "req-1",
+      },
+    );
+
+    expect(
+      await collect(
+        readStreamEvents(response.body!, {
+          logger: resolveLogger({ logger }),
+          requestId: "req-1",
+          url: URL,
+        }),
+      ),
+    ).toEqual(["a"]);
+    expect(logger.debug.mock.calls).toEqual([
+      [
+        {
+          requestId: "req-1",
+          endpoint: "GET /v2/auto/queries/stream",
+          attempt: 0,
+          url: URL,
+          headers: { "x-elfa-api-key": "[REDACTED]" },
+        },
+        "SSE connect",
+      ],
+      [
+        expect.objectContaining({ requestId: "req-1", status: 200 }),
+        "SSE response",
+      ],
+      [{ requestId: "req-1", url: URL, event: "tick", id: "1" }, "SSE event"],
+      [
+        expect.objectContaining({ requestId: "req-1", url: URL, events: 1 }),
+        "SSE closed",
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import { HttpClient } from "../utils/http";
+import { CreditMeter } from "../utils/credits";
+import { Telemetry, type OpenTelemetryApi } from "../utils/telemetry";
+import { AutoClient } from "../client/AutoClient";
+
+type Attributes = Record<string, string | number | boolean>;
+
+interface RecordedSpan {
+  name: string;
+  attributes: Attributes;
+  events: Array<{ name: string; attributes?: Attributes }>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/** Records what the SDK sends, the way a registered OpenTelemetry SDK would. */
+function recordingApi() {
+  const spans: RecordedSpan[] = [];
+  const metrics: Array<[string, number, Attributes | undefined]> = [];
+  const api: OpenTelemetryApi = {
+    trace: {
+      getTracer: () => ({
+        startSpan(name, options) {
+          const span: RecordedSpan = {
+            name,
+            attributes: { ...options?.attributes },
+            events: [],
+            exceptions: [],
+            ended: false,
+          };
+          spans.push(span);
+          return {
+            setAttribute: (key, value) => (span.attributes[key] = value),
+            addEvent: (event, attributes) =>
+              span.events.push({ name: event, attributes: attributes! }),
+            setStatus: (status) => (span.status = status),
+            recordException: (error) => span.exceptions.push(error),
+            end: () => {
+              span.ended = true;
+            },
+          };
+        },
+      }),
+    },
+    metrics: {
+      getMeter: () => ({
+        createHistogram: (name) => ({
+          record: (value, attributes) =>
+            metrics.push([name, value, attributes]),
+        }),
+        createCounter: (name) => ({
+          add: (value, attributes) => metrics.push([name, value, attributes]),
+        }),
+      }),
+    },
+  };
+  return { api, spans, metrics };
+}
+
+describe("Telemetry", () => {
+  it("traces a call with its retries, status and credits", async () => {
+    const { api, spans, metrics } = recordingApi();
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      retryDelay: 1,
+      telemetry: new Telemetry({ api }),
+      creditMeter: new CreditMeter(),
+      transport: {
+        request: jest
+          .fn()
+          .mockResolvedValueOnce({ status: 503, headers: {}, data: {} })
+          .mockResolvedValueOnce({
+            status: 200,
+            headers: { "x-elfa-credits": "3" },
+            data: {},
+          }),
+      },
+    });
+
+    await client.get("/v2/aggregations/trending-tokens");
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: "GET /v2/aggregations/trending-tokens",
+        attributes: expect.objectContaining({
+          "http.request.method": "GET",
+          "http.request.resend_count": 1,
+          "http.response.status_code": 200,
+          "elfa.credits": 3,
+        }),
+        events: [
+          expect.objectContaining({
+            name: "retry",
+            attributes: expect.objectContaining({
+              "error.type": "ELFA_API_ERROR",
+            }),
+          }),
+        ],
+        ended: true,
+      }),
+    ]);
+    expect(spans[0]!.status).toBeUndefined();
+    expect(metrics.map(([name]) => name)).toEqual([
+      "elfa.client.request.duration",
+    ]);
+  });
+
+  it("marks a failed call and counts it by error code", async () => {
+    const { api, spans, metrics } = recordingApi();
+    const client = new HttpClient({
+      baseURL: "https://api.example.com",
+      telemetry: new Telemetry({ api }),
+      transport: {
+        request: jest
+          .fn()
+          .mockResolvedValue({ status: 401, headers: {}, data: {} }),
+      },
+    });
+
+    await expect(client.get("/v2/ping")).rejects.toMatchObject({
+      name: "AuthenticationError",
+    });
+
+    expect(spans[0]).toMatchObject({
+      attributes: {
+        "http.response.status_code": 401,
+        "error.type": "AUTHENTICATION_ERROR",
+      },
+      status: { code: 2 },
+      exceptions: [expect.objectContaining({ name: "AuthenticationError" })],
+      ended: true,
+    });
+    expect(metrics).toContainEqual([
+      "elfa.client.errors",
+      1,
+      expect.objectContaining({
+        "elfa.endpoint": "GET /v2/ping",
+        "error.type": "AUTHENTICATION_ERROR",
+      }),
+    ]);
+  });
+
+  it("counts the credits a meter records", () => {
+    const { api, metrics } = recordingApi();
+    const meter = new CreditMeter();
+    new Telemetry({ api }).attach(meter);
+
+    meter.record({ endpoint: "POST /v2/chat", credits: 5 });
+
+    expect(metrics).toEqual([
+      [
+        "elfa.client.credits",
+        5,
+        { "elfa.endpoint": "POST /v2/chat", "elfa.credit_source": "manual" },
+      ],
+    ]);
+  });
+
+  it("spans a stream's lifetime and counts its events", async () => {
+    const { api, spans } = recordingApi();
+    const client = new AutoClient({
+      apiKey: "k",
+      telemetry: new Telemetry({ api }),
+      transport: {
+        request: jest.fn().mockResolvedValue({
+          status: 200,
+          headers: {},
+          body: new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  'id: 1\ndata: {"a":1}\n\nid: 2\ndata: {"a":2}\n\n',
+                ),
+              );
+              controller.close();
+            },
+          }),
+        }),
+      },
+    });
+
+    for await (const event of client.streamQuery("q1")) void event;
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: "GET /v2/auto/queries/{id}/stream",
+        attributes: expect.objectContaining({
+          "elfa.stream": true,
+          "elfa.stream.events": 2,
+          "http.response.status_code": 200,
+        }),
+        ended: true,
+      }),
+    ]);
+  });
+});
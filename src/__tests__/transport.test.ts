@@ -0,0 +1,219 @@
+import { Readable } from "node:stream";
+import axios from "axios";
+import {
+  createAxiosTransport,
+  createFetchTransport,
+  type TransportRequest,
+} from "../utils/transport";
+import { readSSE } from "../utils/sse";
+
+const request = (
+  overrides: Partial<TransportRequest> = {},
+): TransportRequest => ({
+  method: "GET",
+  url: "https://api.example.com/v2/ping",
+  headers: { Accept: "application/json" },
+  responseType: "json",
+  ...overrides,
+});
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages = [];
+  for await (const message of readSSE(body)) messages.push(message.data);
+  return messages;
+}
+
+describe("createFetchTransport", () => {
+  it("sends the request and parses a JSON body", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(
+      new Response('{"success":true}', {
+        status: 200,
+        headers: { "X-Elfa-Credits": "2" },
+      }),
+    );
+    const transport = createFetchTransport({ fetch: fetchMock });
+
+    const response = await transport.request(
+      request({ method: "POST", body: "{}" }),
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/v2/ping", {
+      method: "POST",
+      headers: { Accept: "application/json" },
+      body: "{}",
+    });
+    expect(response).toEqual({
+      status: 200,
+      headers: expect.objectContaining({ "x-elfa-credits": "2" }),
+      data: { success: true },
+    });
+  });
+
+  it("resolves error statuses with their body instead of throwing", async () => {
+    const transport = createFetchTransport({
+      fetch: jest
+        .fn()
+        .mockResolvedValue(new Response("not json", { status: 502 })),
+    });
+
+    await expect(transport.request(request())).resolves.toMatchObject({
+      status: 502,
+      data: "not json",
+    });
+  });
+
+  it("hands a 2xx stream back unread", async () => {
+    const transport = createFetchTransport({
+      fetch: jest
+        .fn()
+        .mockResolvedValue(new Response("data: a\n\ndata: b\n\n")),
+    });
+
+    const response = await transport.request(
+      request({ responseType: "stream" }),
+    );
+
+    expect(response.data).toBeUndefined();
+    expect(await collect(response.body!)).toEqual(["a", "b"]);
+  });
+
+  it("reads a failed stream's body into data", async () => {
+    const transport = createFetchTransport({
+      fetch: jest
+        .fn()
+        .mockResolvedValue(
+          new Response('{"message":"bad key"}', { status: 401 }),
+        ),
+    });
+
+    const response = await transport.request(
+      request({ responseType: "stream" }),
+    );
+
+    expect(response).toMatchObject({
+      status: 401,
+      data: { message: "bad key" },
+    });
+    expect(response.body).toBeUndefined();
+  });
+
+  it("uses the global fetch when none is given", async () => {
+    const originalFetch = global.fetch;
+    const fetchMock = jest.fn().mockResolvedValue(new Response("{}"));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    try {
+      await createFetchTransport().request(request());
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  it("reports a timeout as a NetworkError", async () => {
+    const transport = createFetchTransport({
+      fetch: jest.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init.signal!.addEventListener("abort", () =>
+              reject(init.signal!.reason),
+            );
+          }),
+      ) as unknown as typeof fetch,
+    });
+
+    await expect(
+      transport.request(request({ timeout: 20 })),
+    ).rejects.toMatchObject({
+      name: "NetworkError",
+      message: "timeout of 20ms exceeded",
+    });
+  });
+
+  it("leaves the caller's own abort alone", async () => {
+    const controller = new AbortController();
+    const reason = new Error("stop");
+    const transport = createFetchTransport({
+      fetch: jest.fn(async () => {
+        controller.abort(reason);
+        throw reason;
+      }) as unknown as typeof fetch,
+    });
+
+    await expect(
+      transport.request(request({ signal: controller.signal, timeout: 1000 })),
+    ).rejects.toBe(reason);
+  });
+});
+
+describe("createAxiosTransport", () => {
+  it("accepts an axios instance", () => {
+    expect(createAxiosTransport(axios.create())).toHaveProperty("request");
+  });
+
+  it("sends through axios without letting it throw on status", async () => {
+    const instance = {
+      request: jest.fn().mockResolvedValue({
+        status: 429,
+        headers: {
+          toJSON: () => ({ "Retry-After": "5", "set-cookie": ["a", "b"] }),
+        },
+        data: { message: "slow down" },
+      }),
+    };
+    const transport = createAxiosTransport(instance);
+
+    const response = await transport.request(
+      request({ method: "POST", body: "{}", timeout: 500 }),
+    );
+
+    const config = instance.request.mock.calls[0][0];
+    expect(config).toMatchObject({
+      method: "POST",
+      url: "https://api.example.com/v2/ping",
+      data: "{}",
+      timeout: 500,
+      responseType: "json",
+    });
+    expect(config.validateStatus(500)).toBe(true);
+    expect(response).toEqual({
+      status: 429,
+      headers: { "retry-after": "5", "set-cookie": "a, b" },
+      data: { message: "slow down" },
+    });
+  });
+
+  it("turns a Node stream into a ReadableStream", async () => {
+    const transport = createAxiosTransport({
+      request: jest.fn().mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: Readable.from([Buffer.from("data: a\n\n"), "data: b\n\n"]),
+      }),
+    });
+
+    const response = await transport.request(
+      request({ responseType: "stream" }),
+    );
+
+    expect(await collect(response.body!)).toEqual(["a", "b"]);
+  });
+
+  it("reads a failed stream's body into data", async () => {
+    const transport = createAxiosTransport({
+      request: jest.fn().mockResolvedValue({
+        status: 403,
+        headers: {},
+        data: Readable.from([Buffer.from('{"message":"no auto"}')]),
+      }),
+    });
+
+    const response = await transport.request(
+      request({ responseType: "stream" }),
+    );
+
+    expect(response).toMatchObject({
+      status: 403,
+      data: { message: "no auto" },
+    });
+  });
+});
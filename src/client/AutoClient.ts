@@ -1,7 +1,37 @@
-import { HttpClient, throwForFetchResponse } from "../utils/http.js";
-import { NetworkError } from "../utils/errors.js";
+import {
+  HttpClient,
+  resolveRetryWait,
+  toRequestConfig,
+  type RequestConfig,
+} from "../utils/http.js";
+import { NetworkError, isRetryableError } from "../utils/errors.js";
 import { signRequest } from "../utils/hmac.js";
-import { readSSE } from "../utils/sse.js";
+import { PaginationHelper, pageRequestOptions } from "../utils/pagination.js";
+import { toQueryString } from "../utils/params.js";
+import type { SSEMessage } from "../utils/sse.js";
+import {
+  connectStream,
+  readStreamEvents,
+  sleep,
+  type StreamReadOptions,
+} from "../utils/stream.js";
+import { parseAutoStreamEvent } from "../utils/autoEvents.js";
+import { toAutoError } from "../utils/autoErrors.js";
+import { inspectConditions } from "../utils/autoInspect.js";
+import type { IterateOptions, RequestOptions } from "../types/options.js";
+import type { RateLimiter } from "../utils/limiter.js";
+import { creditEndpoint, type CreditMeter } from "../utils/credits.js";
+import type { BudgetGuard } from "../utils/budget.js";
+import type { Preflight } from "../utils/preflight.js";
+import type { KeyPool } from "../utils/keyPool.js";
+import type { Middleware } from "../utils/middleware.js";
+import type { Telemetry, TelemetryCall } from "../utils/telemetry.js";
+import { nextRequestId, resolveLogger, type Logger } from "../utils/logger.js";
+import {
+  createFetchTransport,
+  type Transport,
+  type TransportResponse,
+} from "../utils/transport.js";
 import type {
   AutoChatParams,
   AutoChatResponse,
@@ -11,6 +41,9 @@ import type {
   AutoListQueriesParams,
   AutoListQueriesResponse,
   AutoPollQueryResponse,
+  AutoQueryInspection,
+  EqlConditionGroup,
+  EqlQuery,
   AutoDraft,
   AutoUpsertDraftInput,
   AutoConvertDraftResponse,
@@ -22,6 +55,11 @@ import type {
   AutoExecution,
   AutoValidateSymbolResponse,
   AutoStreamEvent,
+  AutoStreamOptions,
+  AutoStreamState,
+  AutoStreamStateChange,
+  AutoReconnectOptions,
+  AutoPagination,
   TradableExchange,
 } from "../types/auto.js";
 
@@ -34,6 +72,17 @@ export interface AutoClientOptions {
   retryDelay?: number;
   headers?: Record<string, string>;
   debug?: boolean;
+  logger?: Logger;
+  rateLimiter?: RateLimiter;
+  dedupe?: boolean;
+  creditMeter?: CreditMeter;
+  budgetGuard?: BudgetGuard;
+  preflight?: Preflight;
+  keyPool?: KeyPool;
+  transport?: Transport;
+  /** Runs around every request and stream; see `ElfaSDK.use`. */
+  middleware?: readonly Middleware[];
+  telemetry?: Telemetry;
 }
 
 const MOUNT = "/v2/auto";
@@ -44,20 +93,61 @@ export class AutoClient {
   private apiKey: string;
   private hmacSecret?: string;
   private headers?: Record<string, string>;
+  private budgetGuard?: BudgetGuard;
+  private rateLimiter?: RateLimiter;
+  private preflight?: Preflight;
+  private keyPool?: KeyPool;
+  private transport: Transport;
+  private middleware?: readonly Middleware[];
+  private telemetry?: Telemetry;
+  private logger: Logger;
+  private loggerOptions: { logger?: Logger; debug?: boolean };
+  /** How streams connect and read: as the JSON calls do. */
+  private streaming: {
+    timeout: number;
+    retries: number;
+    retryDelay: number;
+    debug: boolean;
+  };
 
   constructor(options: AutoClientOptions) {
     this.baseUrl = options.baseUrl ?? "https://api.elfa.ai";
     this.apiKey = options.apiKey;
     if (options.hmacSecret) this.hmacSecret = options.hmacSecret;
     if (options.headers) this.headers = options.headers;
-
-    this.httpClient = new HttpClient({
-      baseURL: this.baseUrl,
+    if (options.budgetGuard) this.budgetGuard = options.budgetGuard;
+    if (options.rateLimiter) this.rateLimiter = options.rateLimiter;
+    if (options.preflight) this.preflight = options.preflight;
+    if (options.keyPool) this.keyPool = options.keyPool;
+    this.transport = options.transport ?? createFetchTransport();
+    if (options.middleware) this.middleware = options.middleware;
+    if (options.telemetry) this.telemetry = options.telemetry;
+    this.loggerOptions = {
+      ...(options.logger ? { logger: options.logger } : {}),
+      ...(options.debug !== undefined ? { debug: options.debug } : {}),
+    };
+    this.logger = resolveLogger(this.loggerOptions);
+    this.streaming = {
       timeout: options.timeout ?? 30000,
       retries: options.retries ?? 3,
       retryDelay: options.retryDelay ?? 1000,
-      ...(options.headers ? { headers: options.headers } : {}),
       debug: options.debug ?? false,
+    };
+
+    this.httpClient = new HttpClient({
+      baseURL: this.baseUrl,
+      ...this.streaming,
+      ...(options.headers ? { headers: options.headers } : {}),
+      ...(options.rateLimiter ? { rateLimiter: options.rateLimiter } : {}),
+      ...(options.dedupe !== undefined ? { dedupe: options.dedupe } : {}),
+      ...(options.creditMeter ? { creditMeter: options.creditMeter } : {}),
+      ...(options.budgetGuard ? { budgetGuard: options.budgetGuard } : {}),
+      ...(options.preflight ? { preflight: options.preflight } : {}),
+      ...(options.keyPool ? { keyPool: options.keyPool } : {}),
+      ...(options.middleware ? { middleware: options.middleware } : {}),
+      ...(options.telemetry ? { telemetry: options.telemetry } : {}),
+      ...(options.logger ? { logger: options.logger } : {}),
+      transport: this.transport,
     });
     this.httpClient.setAuthHeader(this.apiKey);
   }
@@ -68,6 +158,31 @@ export class AutoClient {
     if (options.baseUrl !== undefined) this.baseUrl = options.baseUrl;
     if (options.hmacSecret !== undefined) this.hmacSecret = options.hmacSecret;
     if (options.headers !== undefined) this.headers = options.headers;
+    if (options.budgetGuard !== undefined) {
+      this.budgetGuard = options.budgetGuard;
+    }
+    if (options.rateLimiter !== undefined) {
+      this.rateLimiter = options.rateLimiter;
+    }
+    if (options.preflight !== undefined) this.preflight = options.preflight;
+    if (options.keyPool !== undefined) this.keyPool = options.keyPool;
+    if (options.transport !== undefined) this.transport = options.transport;
+    if (options.middleware !== undefined) this.middleware = options.middleware;
+    if (options.telemetry !== undefined) this.telemetry = options.telemetry;
+    if (options.timeout !== undefined) this.streaming.timeout = options.timeout;
+    if (options.retries !== undefined) this.streaming.retries = options.retries;
+    if (options.retryDelay !== undefined) {
+      this.streaming.retryDelay = options.retryDelay;
+    }
+    if (options.debug !== undefined) this.streaming.debug = options.debug;
+    if (options.logger !== undefined || options.debug !== undefined) {
+      this.loggerOptions = {
+        ...this.loggerOptions,
+        ...(options.logger !== undefined ? { logger: options.logger } : {}),
+        ...(options.debug !== undefined ? { debug: options.debug } : {}),
+      };
+      this.logger = resolveLogger(this.loggerOptions);
+    }
 
     this.httpClient.updateOptions({
       baseURL: this.baseUrl,
@@ -76,19 +191,45 @@ export class AutoClient {
       retryDelay: options.retryDelay,
       headers: this.headers,
       debug: options.debug,
+      logger: options.logger,
+      dedupe: options.dedupe,
+      rateLimiter: options.rateLimiter,
+      creditMeter: options.creditMeter,
+      budgetGuard: options.budgetGuard,
+      preflight: options.preflight,
+      keyPool: options.keyPool,
+      transport: options.transport,
+      middleware: options.middleware,
+      telemetry: options.telemetry,
     });
   }
 
-  public chat(params: AutoChatParams): Promise<AutoChatResponse> {
-    return this.post<AutoChatResponse>("/chat", params);
+  /** `options.tag` attributes the call's credits in `sdk.credits`. */
+  public chat(
+    params: AutoChatParams,
+    options?: RequestOptions,
+  ): Promise<AutoChatResponse> {
+    return this.post<AutoChatResponse>("/chat", params, options);
   }
 
   public validateQuery(input: AutoQueryInput): Promise<AutoValidateResponse> {
     return this.post<AutoValidateResponse>("/queries/validate", input);
   }
 
-  public createQuery(input: AutoQueryInput): Promise<AutoQuery> {
-    return this.post<AutoQuery>("/queries", input);
+  /**
+   * With a budget configured and no `options.estimatedCredits`, the query is
+   * validated first (free) and its `estimatedCredits` checked against the
+   * budget.
+   */
+  public async createQuery(
+    input: AutoQueryInput,
+    options?: RequestOptions,
+  ): Promise<AutoQuery> {
+    return this.post<AutoQuery>(
+      "/queries",
+      input,
+      await this.withEstimate(options, () => this.validateQuery(input)),
+    );
   }
 
   public listQueries(
@@ -101,6 +242,18 @@ export class AutoClient {
     return this.get<AutoPollQueryResponse>(`/queries/${queryId}`);
   }
 
+  /**
+   * `getQuery` as a per-leaf report: current vs target value and distance to
+   * the threshold. Pass the submitted query to map leaves back onto its
+   * condition tree; `renderInspection` prints the result.
+   */
+  public async inspectQuery(
+    queryId: string,
+    query?: EqlQuery | EqlConditionGroup,
+  ): Promise<AutoQueryInspection> {
+    return inspectConditions(await this.getQuery(queryId), query);
+  }
+
   public cancelQuery(queryId: string): Promise<AutoQuery> {
     return this.post<AutoQuery>(`/queries/${queryId}/cancel`);
   }
@@ -133,12 +286,36 @@ export class AutoClient {
     );
   }
 
-  public convertDraft(draftId: string): Promise<AutoConvertDraftResponse> {
+  /** Budget-checked against `validateDraft`'s estimate, as `createQuery`. */
+  public async convertDraft(
+    draftId: string,
+    options?: RequestOptions,
+  ): Promise<AutoConvertDraftResponse> {
     return this.post<AutoConvertDraftResponse>(
       `/queries/drafts/${draftId}/convert`,
+      undefined,
+      await this.withEstimate(options, () => this.validateDraft(draftId)),
     );
   }
 
+  private async withEstimate(
+    options: RequestOptions | undefined,
+    validate: () => Promise<AutoValidateResponse>,
+  ): Promise<RequestOptions | undefined> {
+    if (
+      options?.estimatedCredits !== undefined ||
+      !this.budgetGuard?.hasLimits(options?.tag)
+    ) {
+      return options;
+    }
+    const validation = await validate();
+    const estimatedCredits =
+      validation.estimatedCredits ?? validation.estimatedCost?.credits;
+    return estimatedCredits === undefined
+      ? options
+      : { ...options, estimatedCredits };
+  }
+
   public listSessions(queryId: string): Promise<AutoListSessionsResponse> {
     return this.get<AutoListSessionsResponse>(`/queries/${queryId}/sessions`);
   }
@@ -166,98 +343,401 @@ export class AutoClient {
     );
   }
 
+  /** Yields every query across pages, advancing `offset`. */
+  public iterateQueries(
+    params: AutoListQueriesParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<AutoQuery> {
+    return this.iterateList<AutoQuery, AutoListQueriesResponse>(
+      "/queries",
+      params,
+      (response) => response.queries ?? response.data,
+      options,
+    );
+  }
+
+  public iterateDrafts(
+    params: AutoListQueriesParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<AutoDraft> {
+    return this.iterateList<AutoDraft, AutoListDraftsResponse>(
+      "/queries/drafts",
+      params,
+      (response) => response.drafts ?? response.data,
+      options,
+    );
+  }
+
+  public iterateExecutions(
+    params: AutoListExecutionsParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<AutoExecution> {
+    return this.iterateList<AutoExecution, AutoListExecutionsResponse>(
+      "/executions",
+      params,
+      (response) => response.data,
+      options,
+    );
+  }
+
+  /** Pass an `AbortSignal`, or `AutoStreamOptions` to reconnect on drops. */
   public streamQuery(
     queryId: string,
-    signal?: AbortSignal,
+    options?: AbortSignal | AutoStreamOptions,
+  ): AsyncGenerator<AutoStreamEvent> {
+    return this.stream(`/queries/${queryId}/stream`, streamOptions(options));
+  }
+
+  public streamAll(
+    options?: AbortSignal | AutoStreamOptions,
   ): AsyncGenerator<AutoStreamEvent> {
-    return this.stream(`/queries/${queryId}/stream`, signal);
+    return this.stream("/queries/stream", streamOptions(options));
   }
 
-  public streamAll(signal?: AbortSignal): AsyncGenerator<AutoStreamEvent> {
-    return this.stream("/queries/stream", signal);
+  private async get<T>(
+    path: string,
+    params?: object,
+    options?: RequestOptions,
+  ): Promise<T> {
+    const url = `${MOUNT}${path}${toQueryString(params)}`;
+    const config = toRequestConfig(options);
+    return (
+      config ? this.httpClient.get<T>(url, config) : this.httpClient.get<T>(url)
+    ).catch(rethrowAutoError);
   }
 
-  private async get<T>(path: string, params?: object): Promise<T> {
-    return this.httpClient.get<T>(`${MOUNT}${path}${query(params)}`);
+  private iterateList<TItem, TResponse extends AutoListPage>(
+    path: string,
+    params: { limit?: number; offset?: number },
+    pick: (response: TResponse) => TItem[] | undefined,
+    options: IterateOptions,
+  ): AsyncGenerator<TItem> {
+    return PaginationHelper.iterateItems(
+      async (offset) => {
+        const response = await this.get<TResponse>(
+          path,
+          { ...params, offset },
+          pageRequestOptions(options),
+        );
+        const items = pick(response) ?? [];
+        return {
+          items,
+          next: nextOffset(response, offset, items.length, params.limit),
+        };
+      },
+      params.offset ?? 0,
+      options,
+    );
   }
 
-  private async post<T>(path: string, body?: unknown): Promise<T> {
+  private async post<T>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions,
+  ): Promise<T> {
     const bodyStr = body === undefined ? "" : JSON.stringify(body);
-    const headers = this.sign("POST", path, bodyStr);
-    return this.httpClient.post<T>(
-      `${MOUNT}${path}`,
-      body === undefined ? undefined : bodyStr,
-      headers ? { headers } : undefined,
-    );
+    const config = {
+      ...toRequestConfig(options),
+      ...this.signing("POST", path, bodyStr),
+    };
+    return this.httpClient
+      .post<T>(
+        `${MOUNT}${path}`,
+        body === undefined ? undefined : bodyStr,
+        Object.keys(config).length > 0 ? config : undefined,
+      )
+      .catch(rethrowAutoError);
   }
 
   private async delete<T>(path: string): Promise<T> {
-    const headers = this.sign("DELETE", path, "");
-    return this.httpClient.delete<T>(
-      `${MOUNT}${path}`,
-      headers ? { headers } : undefined,
-    );
+    const config = this.signing("DELETE", path, "");
+    return this.httpClient
+      .delete<T>(
+        `${MOUNT}${path}`,
+        Object.keys(config).length > 0 ? config : undefined,
+      )
+      .catch(rethrowAutoError);
   }
 
-  private sign(
-    method: string,
-    path: string,
-    body: string,
-  ): Record<string, string> | undefined {
-    if (!this.hmacSecret) return undefined;
-    return signRequest(this.hmacSecret, method, path, body);
+  /**
+   * Signature headers, or with a key pool a signer for whichever key the
+   * request goes out with: each key signs with its own secret.
+   */
+  private signing(method: string, path: string, body: string): RequestConfig {
+    if (this.keyPool) {
+      return {
+        signer: (secret) => signRequest(secret, method, path, body),
+      };
+    }
+    if (!this.hmacSecret) return {};
+    return { headers: signRequest(this.hmacSecret, method, path, body) };
   }
 
+  /**
+   * Yields events until `end`. With `reconnect`, a dropped connection is
+   * retried with exponential backoff — starting from the server's `retry:`
+   * when it sent one — and resumed with `Last-Event-ID`; events the server
+   * replays on resume are skipped by id. Without it, only the first connect
+   * is retried, per `retries`.
+   */
   private async *stream(
     path: string,
-    signal?: AbortSignal,
+    options: AutoStreamOptions,
   ): AsyncGenerator<AutoStreamEvent> {
-    const response = await fetch(`${this.baseUrl}${MOUNT}${path}`, {
-      headers: {
-        ...this.headers,
-        "x-elfa-api-key": this.apiKey,
-        Accept: "text/event-stream",
-      },
-      ...(signal ? { signal } : {}),
-    });
-
-    if (!response.ok) {
-      await throwForFetchResponse(response);
-    }
-    if (!response.body) {
-      throw new NetworkError("Auto stream returned no response body");
-    }
-
+    const { signal } = options;
+    const reconnect = options.reconnect
+      ? {
+          ...DEFAULT_RECONNECT,
+          ...(options.reconnect === true ? {} : options.reconnect),
+        }
+      : undefined;
+    const idleTimeout = options.idleTimeout ?? this.streaming.timeout;
+    const seen = new Set<string>();
+    let lastEventId = options.lastEventId;
+    let serverRetry: number | undefined;
+    let attempt = 0;
+    let closedBy: Error | undefined;
+
+    const notify = (
+      state: AutoStreamState,
+      details: Partial<AutoStreamStateChange> = {},
+    ) => {
+      try {
+        options.onStateChange?.({
+          state,
+          attempt,
+          ...(lastEventId !== undefined ? { lastEventId } : {}),
+          ...details,
+        });
+      } catch {
+        // A listener's bug is not the stream's failure.
+      }
+    };
+
+    const endpoint = creditEndpoint("GET", `${MOUNT}${path}`);
+    await this.preflight?.check(endpoint);
+    this.budgetGuard?.check({ endpoint });
+    const call = this.telemetry?.startCall("GET", `${MOUNT}${path}`, true);
+    const tracing: StreamTracing = {
+      requestId: nextRequestId(),
+      ...(call ? { call } : {}),
+    };
+    notify("connecting");
     try {
-      for await (const message of readSSE(response.body)) {
-        let data: Record<string, unknown> = {};
+      while (true) {
+        let dropped: Error;
         try {
-          data = message.data ? JSON.parse(message.data) : {};
-        } catch {
-          data = { raw: message.data };
+          const body = await this.connect(
+            path,
+            lastEventId,
+            signal,
+            reconnect ? 0 : this.streaming.retries,
+            tracing,
+          );
+          notify("open");
+          const read = readStream(body, signal, {
+            idleTimeout,
+            logger: this.logger,
+            url: `${this.baseUrl}${MOUNT}${path}`,
+            ...tracing,
+          });
+          for await (const message of read) {
+            if (message.retry !== undefined) serverRetry = message.retry;
+            if (message.id) {
+              if (seen.has(message.id)) continue;
+              remember(seen, message.id);
+              lastEventId = message.id;
+            }
+            if (!message.data && message.event === undefined) continue;
+            attempt = 0;
+            yield parseAutoStreamEvent(message);
+            if (message.event === "end") return;
+          }
+          if (!reconnect) return;
+          dropped = new NetworkError("Auto stream closed before its end event");
+        } catch (error) {
+          dropped = error as Error;
+          if (!reconnect || signal?.aborted || !isRetryableError(dropped)) {
+            throw dropped;
+          }
         }
-        const event: AutoStreamEvent = {
-          event: message.event ?? "message",
-          data,
-        };
-        if (message.id !== undefined) event.id = message.id;
-        yield event;
-        if (message.event === "end") return;
+
+        attempt++;
+        const backoff = Math.min(
+          reconnect.maxDelay,
+          (serverRetry ?? reconnect.initialDelay) * 2 ** (attempt - 1),
+        );
+        const delayMs =
+          attempt > reconnect.maxAttempts
+            ? undefined
+            : resolveRetryWait(dropped, backoff);
+        if (delayMs === undefined) throw dropped;
+
+        call?.retry(delayMs, dropped);
+        notify("reconnecting", { delayMs, error: dropped });
+        await sleep(delayMs, signal);
+        notify("connecting");
       }
+    } catch (error) {
+      closedBy = error as Error;
+      throw error;
     } finally {
-      await response.body.cancel().catch(() => {});
+      call?.end(closedBy);
+      notify("closed", closedBy ? { error: closedBy } : {});
     }
   }
-}
 
-function query(params?: object): string {
-  if (!params) return "";
-  const search = new URLSearchParams();
-  for (const [key, value] of Object.entries(params)) {
-    if (value !== undefined && value !== null) {
-      search.append(key, String(value));
+  /** Opens the stream, signed like any other Auto call. */
+  private async connect(
+    path: string,
+    lastEventId: string | undefined,
+    signal: AbortSignal | undefined,
+    retries: number,
+    tracing: StreamTracing,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const pool = this.keyPool;
+    const affinity = pool?.affinityFor(`${MOUNT}${path}`);
+    let key = pool?.select(affinity);
+    const tried: string[] = [];
+    let response: TransportResponse;
+    try {
+      response = await connectStream(
+        () => {
+          if (key) {
+            pool!.recordRequest(key.name);
+            tried.push(key.name);
+          }
+          const secret = key ? key.hmacSecret : this.hmacSecret;
+          return {
+            method: "GET",
+            url: `${this.baseUrl}${MOUNT}${path}`,
+            headers: {
+              ...this.headers,
+              "x-elfa-api-key": key?.apiKey ?? this.apiKey,
+              ...(secret ? signRequest(secret, "GET", path, "") : {}),
+              Accept: "text/event-stream",
+              ...(lastEventId !== undefined
+                ? { "Last-Event-ID": lastEventId }
+                : {}),
+            },
+          };
+        },
+        {
+          transport: this.transport,
+          label: "Auto stream",
+          timeout: this.streaming.timeout,
+          retries,
+          retryDelay: this.streaming.retryDelay,
+          logger: this.logger,
+          ...(signal ? { signal } : {}),
+          ...(this.middleware ? { middleware: this.middleware } : {}),
+          ...(this.rateLimiter ? { rateLimiter: this.rateLimiter } : {}),
+          failover: (error) => {
+            const next =
+              key &&
+              (pool!.failoverFrom(key, error, affinity) ??
+                pool!.nextOwner(error, affinity, tried));
+            if (next) key = next;
+            return !!next;
+          },
+          ...tracing,
+        },
+      );
+    } catch (error) {
+      throw toAutoError(error);
     }
+    if (key && affinity?.owned) pool!.pin(affinity.id, key.name);
+
+    if (!response.body) {
+      throw new NetworkError("Auto stream returned no response body");
+    }
+    return response.body;
+  }
+}
+
+function rethrowAutoError(error: unknown): never {
+  throw toAutoError(error);
+}
+
+/** Ties one stream's connects, reads and span together. */
+interface StreamTracing {
+  requestId: string;
+  call?: TelemetryCall;
+}
+
+const DEFAULT_RECONNECT: Required<AutoReconnectOptions> = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  maxAttempts: Infinity,
+};
+
+/** Replayed ids are only ever recent ones; older ids can be forgotten. */
+const SEEN_EVENT_IDS = 1000;
+
+function streamOptions(
+  options: AbortSignal | AutoStreamOptions | undefined,
+): AutoStreamOptions {
+  if (!options) return {};
+  return isAbortSignal(options) ? { signal: options } : options;
+}
+
+function isAbortSignal(value: object): value is AbortSignal {
+  return typeof (value as AbortSignal).aborted === "boolean";
+}
+
+function remember(seen: Set<string>, id: string): void {
+  seen.add(id);
+  if (seen.size > SEEN_EVENT_IDS) {
+    seen.delete(seen.values().next().value!);
+  }
+}
+
+/** `readStreamEvents`, with a dropped connection surfaced as `NetworkError`. */
+async function* readStream(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal | undefined,
+  options: StreamReadOptions,
+): AsyncGenerator<SSEMessage> {
+  try {
+    yield* readStreamEvents(body, options);
+  } catch (error) {
+    throw asNetworkError(error, signal);
+  }
+}
+
+function asNetworkError(error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted || !(error instanceof Error)) return error;
+  if (error.name === "NetworkError") return error;
+  return new NetworkError(`Auto stream failed: ${error.message}`, error);
+}
+
+interface AutoListPage {
+  total?: number;
+  limit?: number;
+  offset?: number;
+  pagination?: AutoPagination;
+}
+
+/**
+ * Offset of the next page. List responses report `hasMore`, a `total`, or
+ * neither — in which case a full page (`limit` items) means there may be more.
+ */
+function nextOffset(
+  response: AutoListPage,
+  offset: number,
+  count: number,
+  limit?: number,
+): number | undefined {
+  const pagination = response.pagination ?? {};
+  const next = (pagination.offset ?? response.offset ?? offset) + count;
+
+  if (pagination.hasMore !== undefined) {
+    return pagination.hasMore ? next : undefined;
+  }
+  const total = pagination.total ?? response.total;
+  if (total !== undefined) {
+    return next < total ? next : undefined;
   }
-  const str = search.toString();
-  return str ? `?${str}` : "";
+  const size = pagination.limit ?? response.limit ?? limit;
+  return size !== undefined && count >= size ? next : undefined;
 }
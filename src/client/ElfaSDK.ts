@@ -1,10 +1,22 @@
 import { ElfaV2Client } from "./ElfaV2Client.js";
 import { AutoClient } from "./AutoClient.js";
 import { ValidationError } from "../utils/errors.js";
-import type { SDKOptions } from "../types/options.js";
+import { RateLimiter } from "../utils/limiter.js";
+import { CreditMeter } from "../utils/credits.js";
+import { BudgetGuard } from "../utils/budget.js";
+import { Preflight, type Capabilities } from "../utils/preflight.js";
+import { KeyPool, type KeyUsage } from "../utils/keyPool.js";
+import type { Middleware } from "../utils/middleware.js";
+import { Telemetry } from "../utils/telemetry.js";
+import { resolveLogger } from "../utils/logger.js";
+import type {
+  SDKOptions,
+  RequestOptions,
+  IterateOptions,
+} from "../types/options.js";
 import type {
   PingResponse,
-  ApiKeyStatusResponse,
+  KeyStatusResponse,
   TrendingTokensResponse,
   TrendingTokensParams,
   AccountSmartStatsResponse,
@@ -21,6 +33,11 @@ import type {
   EventSummaryV2Params,
   TrendingNarrativesResponse,
   TrendingNarrativesParams,
+  ProcessedMention,
+  TopMentionV2,
+  TrendingToken,
+  TrendingContractAddress,
+  TrendingCAsSource,
 } from "../types/elfa.js";
 import type {
   ChatParams,
@@ -30,6 +47,19 @@ import type {
 
 export class ElfaSDK {
   public readonly auto: AutoClient;
+  /** Present when `rateLimit` is configured. */
+  public readonly rateLimiter?: RateLimiter;
+  /** Credits spent through this SDK, by endpoint, session, query and tag. */
+  public readonly credits: CreditMeter;
+  /** Present when `budget` is configured; counts what `credits` records. */
+  public readonly budget?: BudgetGuard;
+  /** Present when `keyPool` is configured. */
+  public readonly keyPool?: KeyPool;
+  /** Present when `telemetry` is configured. */
+  public readonly telemetry?: Telemetry;
+  private preflight: Preflight;
+  /** Shared with both clients, so `use` reaches requests already set up. */
+  private readonly middleware: Middleware[];
   private elfaClient: ElfaV2Client;
   private options: SDKOptions & {
     baseUrl: string;
@@ -47,12 +77,87 @@ export class ElfaSDK {
       ...options,
     };
 
+    this.middleware = [...(options.middleware ?? [])];
+
+    if (options.rateLimit) {
+      this.rateLimiter =
+        options.rateLimit instanceof RateLimiter
+          ? options.rateLimit
+          : new RateLimiter(options.rateLimit);
+    }
+
+    this.credits =
+      options.credits instanceof CreditMeter
+        ? options.credits
+        : new CreditMeter(options.credits);
+
+    if (options.budget) {
+      this.budget =
+        options.budget instanceof BudgetGuard
+          ? options.budget
+          : new BudgetGuard(options.budget);
+      this.budget.attach(this.credits);
+    }
+
+    if (options.telemetry) {
+      this.telemetry =
+        options.telemetry instanceof Telemetry
+          ? options.telemetry
+          : new Telemetry(options.telemetry);
+      this.telemetry.attach(this.credits);
+    }
+
+    if (options.keyPool) {
+      this.keyPool =
+        options.keyPool instanceof KeyPool
+          ? options.keyPool
+          : new KeyPool({
+              ...options.keyPool,
+              keys: [
+                {
+                  apiKey: options.elfaApiKey,
+                  ...(options.hmacSecret
+                    ? { hmacSecret: options.hmacSecret }
+                    : {}),
+                },
+                ...options.keyPool.keys,
+              ],
+            });
+    }
+
+    this.preflight = new Preflight(
+      {
+        // With a pool, capabilities are the first key's: `elfaApiKey`. Other
+        // keys are not checked; see `SDKOptions.preflight`.
+        loadStatus: () =>
+          this.elfaClient.getApiKeyStatus({
+            cache: false,
+            priority: "high",
+            ...(this.keyPool ? { poolKey: this.keyPool.names()[0] } : {}),
+          }),
+        hmacConfigured: () => !!this.options.hmacSecret,
+        logger: () => resolveLogger(this.options),
+      },
+      typeof options.preflight === "object" ? options.preflight : {},
+    );
+
     const clientOptions = this.buildClientOptions();
 
-    this.elfaClient = new ElfaV2Client(clientOptions);
+    this.elfaClient = new ElfaV2Client(this.dataClientOptions(clientOptions));
     this.auto = new AutoClient(clientOptions);
   }
 
+  /** The cache and response validation apply to data endpoints only. */
+  private dataClientOptions<T extends object>(clientOptions: T) {
+    return {
+      ...clientOptions,
+      ...(this.options.cache ? { cache: this.options.cache } : {}),
+      ...(this.options.validateResponses
+        ? { validateResponses: this.options.validateResponses }
+        : {}),
+    };
+  }
+
   private buildClientOptions() {
     return {
       apiKey: this.options.elfaApiKey,
@@ -61,10 +166,22 @@ export class ElfaSDK {
       retries: this.options.retries,
       retryDelay: this.options.retryDelay,
       debug: this.options.debug,
+      ...(this.options.logger ? { logger: this.options.logger } : {}),
       ...(this.options.hmacSecret
         ? { hmacSecret: this.options.hmacSecret }
         : {}),
       ...(this.options.headers ? { headers: this.options.headers } : {}),
+      ...(this.rateLimiter ? { rateLimiter: this.rateLimiter } : {}),
+      creditMeter: this.credits,
+      ...(this.budget ? { budgetGuard: this.budget } : {}),
+      ...(this.options.preflight ? { preflight: this.preflight } : {}),
+      ...(this.keyPool ? { keyPool: this.keyPool } : {}),
+      ...(this.options.transport ? { transport: this.options.transport } : {}),
+      middleware: this.middleware,
+      ...(this.telemetry ? { telemetry: this.telemetry } : {}),
+      ...(this.options.dedupe !== undefined
+        ? { dedupe: this.options.dedupe }
+        : {}),
     };
   }
 
@@ -78,77 +195,191 @@ export class ElfaSDK {
     }
   }
 
-  public async ping(): Promise<PingResponse> {
-    return this.elfaClient.ping();
+  public async ping(options?: RequestOptions): Promise<PingResponse> {
+    return this.elfaClient.ping(options);
   }
 
-  public async getApiKeyStatus(): Promise<ApiKeyStatusResponse> {
-    return this.elfaClient.getApiKeyStatus();
+  public async getApiKeyStatus(
+    options?: RequestOptions,
+  ): Promise<KeyStatusResponse> {
+    return this.elfaClient.getApiKeyStatus(options);
   }
 
   public async getTrendingTokens(
     params: TrendingTokensParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingTokensResponse> {
-    return this.elfaClient.getTrendingTokens(params);
+    return this.elfaClient.getTrendingTokens(params, options);
   }
 
   public async getAccountSmartStats(
     params: AccountSmartStatsParams,
+    options?: RequestOptions,
   ): Promise<AccountSmartStatsResponse> {
-    return this.elfaClient.getAccountSmartStats(params);
+    return this.elfaClient.getAccountSmartStats(params, options);
   }
 
   public async getKeywordMentions(
     params: KeywordMentionsParams = {},
+    options?: RequestOptions,
   ): Promise<KeywordMentionsV2Response> {
-    return this.elfaClient.getKeywordMentions(params);
+    return this.elfaClient.getKeywordMentions(params, options);
   }
 
   public async getTokenNews(
     params: TokenNewsParams = {},
+    options?: RequestOptions,
   ): Promise<TokenNewsV2Response> {
-    return this.elfaClient.getTokenNews(params);
+    return this.elfaClient.getTokenNews(params, options);
   }
 
   public async getTrendingCAsTwitter(
     params: TrendingCAsParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingCAsV2Response> {
-    return this.elfaClient.getTrendingCAsTwitter(params);
+    return this.elfaClient.getTrendingCAsTwitter(params, options);
   }
 
   public async getTrendingCAsTelegram(
     params: TrendingCAsParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingCAsV2Response> {
-    return this.elfaClient.getTrendingCAsTelegram(params);
+    return this.elfaClient.getTrendingCAsTelegram(params, options);
   }
 
   public async getTopMentions(
     params: TopMentionsV2Params,
+    options?: RequestOptions,
   ): Promise<TopMentionsV2Response> {
-    return this.elfaClient.getTopMentions(params);
+    return this.elfaClient.getTopMentions(params, options);
   }
 
   public async getEventSummary(
     params: EventSummaryV2Params,
+    options?: RequestOptions,
   ): Promise<EventSummaryV2Response> {
-    return this.elfaClient.getEventSummary(params);
+    return this.elfaClient.getEventSummary(params, options);
   }
 
   public async getTrendingNarratives(
     params: TrendingNarrativesParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingNarrativesResponse> {
-    return this.elfaClient.getTrendingNarratives(params);
+    return this.elfaClient.getTrendingNarratives(params, options);
   }
 
-  public async chat(params: ChatParams): Promise<ChatResponse> {
-    return this.elfaClient.chat(params);
+  public iterateKeywordMentions(
+    params: KeywordMentionsParams,
+    options?: IterateOptions,
+  ): AsyncGenerator<ProcessedMention> {
+    return this.elfaClient.iterateKeywordMentions(params, options);
+  }
+
+  public iterateTopMentions(
+    params: TopMentionsV2Params,
+    options?: IterateOptions,
+  ): AsyncGenerator<TopMentionV2> {
+    return this.elfaClient.iterateTopMentions(params, options);
+  }
+
+  public iterateTokenNews(
+    params: TokenNewsParams = {},
+    options?: IterateOptions,
+  ): AsyncGenerator<ProcessedMention> {
+    return this.elfaClient.iterateTokenNews(params, options);
   }
 
+  public iterateTrendingTokens(
+    params: TrendingTokensParams = {},
+    options?: IterateOptions,
+  ): AsyncGenerator<TrendingToken> {
+    return this.elfaClient.iterateTrendingTokens(params, options);
+  }
+
+  public iterateTrendingCAs(
+    source: TrendingCAsSource,
+    params: TrendingCAsParams = {},
+    options?: IterateOptions,
+  ): AsyncGenerator<TrendingContractAddress> {
+    return this.elfaClient.iterateTrendingCAs(source, params, options);
+  }
+
+  public async chat(
+    params: ChatParams,
+    options?: RequestOptions,
+  ): Promise<ChatResponse> {
+    return this.elfaClient.chat(params, options);
+  }
+
+  /** Pass an `AbortSignal`, or `RequestOptions` to also tag the spend. */
   public chatStream(
     params: ChatParams,
-    signal?: AbortSignal,
+    options?: AbortSignal | RequestOptions,
   ): AsyncGenerator<ChatStreamEvent> {
-    return this.elfaClient.chatStream(params, signal);
+    return this.elfaClient.chatStream(params, options);
+  }
+
+  /**
+   * Adds a middleware after those already in place; it runs around every
+   * attempt from then on, streams and Auto calls included. Returns a
+   * function that removes it.
+   */
+  public use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) this.middleware.splice(index, 1);
+    };
+  }
+
+  /**
+   * Fetches the key's status and seeds `rateLimiter` with its per-minute,
+   * daily and monthly limits. Call at startup and periodically to resync.
+   */
+  public async syncRateLimits(): Promise<KeyStatusResponse> {
+    const status = await this.elfaClient.getApiKeyStatus({
+      cache: false,
+      priority: "high",
+    });
+    this.rateLimiter?.seed(status);
+    return status;
+  }
+
+  /**
+   * What the key can do: its scopes, Auto access, whether HMAC is required
+   * and configured, and which endpoints with a requirement it may call.
+   * Fetched once; pass `refresh` to fetch key status again. With a key pool,
+   * this is `elfaApiKey`'s, the first key, not the pool's other keys.
+   */
+  public async capabilities(refresh = false): Promise<Capabilities> {
+    if (refresh) this.preflight.refresh();
+    return this.preflight.capabilities();
+  }
+
+  /**
+   * Fetches each pool key's status and seeds the pool with it: remaining
+   * quota for `least-used`, and a bench for keys that need payment. Returns
+   * per-key usage. A no-op without `keyPool`.
+   */
+  public async syncKeyPool(): Promise<KeyUsage[]> {
+    const pool = this.keyPool;
+    if (!pool) return [];
+    await Promise.all(
+      pool.names().map(async (name) => {
+        const { keyStatus } = await this.elfaClient.getApiKeyStatus({
+          cache: false,
+          priority: "high",
+          poolKey: name,
+        });
+        pool.seed(name, keyStatus);
+      }),
+    );
+    return pool.usage();
+  }
+
+  /** Drops every cached response. A no-op when `cache` is not configured. */
+  public async clearCache(): Promise<void> {
+    await this.elfaClient.clearCache();
   }
 
   public async testConnection(): Promise<boolean> {
@@ -172,9 +403,20 @@ export class ElfaSDK {
 
     this.options = { ...this.options, ...newOptions };
 
+    if (typeof newOptions.preflight === "object") {
+      this.preflight.configure(newOptions.preflight);
+    }
+    if (newOptions.hmacSecret !== undefined) this.preflight.refresh();
+
     const clientOptions = this.buildClientOptions();
 
-    this.elfaClient.updateOptions(clientOptions);
+    this.elfaClient.updateOptions({
+      ...clientOptions,
+      ...(newOptions.cache ? { cache: newOptions.cache } : {}),
+      ...(newOptions.validateResponses
+        ? { validateResponses: newOptions.validateResponses }
+        : {}),
+    });
     this.auto.updateOptions(clientOptions);
   }
 }
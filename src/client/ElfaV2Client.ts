@@ -1,6 +1,30 @@
-import { HttpClient, throwForFetchResponse } from "../utils/http.js";
-import { NetworkError, ValidationError } from "../utils/errors.js";
-import { readSSE } from "../utils/sse.js";
+import { HttpClient, toRequestConfig } from "../utils/http.js";
+import type { CacheOptions } from "../utils/cache.js";
+import type {
+  IterateOptions,
+  RequestOptions,
+  ResponseValidationMode,
+} from "../types/options.js";
+import {
+  NetworkError,
+  ResponseValidationError,
+  ValidationError,
+} from "../utils/errors.js";
+import { validateSchema } from "../utils/schema.js";
+import { RESPONSE_SCHEMAS } from "../utils/responseSchemas.js";
+import { PaginationHelper, pageRequestOptions } from "../utils/pagination.js";
+import { validateTimeWindowOrFromTo } from "../utils/params.js";
+import { connectStream, readStreamEvents } from "../utils/stream.js";
+import type { RateLimiter } from "../utils/limiter.js";
+import type { CreditMeter } from "../utils/credits.js";
+import type { BudgetGuard } from "../utils/budget.js";
+import type { Preflight } from "../utils/preflight.js";
+import type { KeyPool } from "../utils/keyPool.js";
+import { createFetchTransport, type Transport } from "../utils/transport.js";
+import type { Middleware } from "../utils/middleware.js";
+import type { Telemetry, TelemetryCall } from "../utils/telemetry.js";
+import { nextRequestId, resolveLogger, type Logger } from "../utils/logger.js";
+import { KeyStatus } from "../utils/keyStatus.js";
 import type {
   ChatParams,
   ChatResponse,
@@ -9,6 +33,7 @@ import type {
 import type {
   PingResponse,
   ApiKeyStatusResponse,
+  KeyStatusResponse,
   TrendingTokensResponse,
   TrendingTokensParams,
   AccountSmartStatsResponse,
@@ -25,6 +50,11 @@ import type {
   EventSummaryV2Params,
   TrendingNarrativesResponse,
   TrendingNarrativesParams,
+  ProcessedMention,
+  TopMentionV2,
+  TrendingToken,
+  TrendingContractAddress,
+  TrendingCAsSource,
 } from "../types/elfa.js";
 
 export interface ElfaV2ClientOptions {
@@ -35,10 +65,25 @@ export interface ElfaV2ClientOptions {
   retryDelay?: number;
   headers?: Record<string, string>;
   debug?: boolean;
+  logger?: Logger;
+  rateLimiter?: RateLimiter;
+  cache?: CacheOptions;
+  dedupe?: boolean;
+  validateResponses?: ResponseValidationMode;
+  creditMeter?: CreditMeter;
+  budgetGuard?: BudgetGuard;
+  preflight?: Preflight;
+  keyPool?: KeyPool;
+  transport?: Transport;
+  /** Runs around every request and stream; see `ElfaSDK.use`. */
+  middleware?: readonly Middleware[];
+  telemetry?: Telemetry;
 }
 
 export class ElfaV2Client {
   private httpClient: HttpClient;
+  private transport: Transport;
+  private logger: Logger;
   private options: ElfaV2ClientOptions;
 
   constructor(options: ElfaV2ClientOptions) {
@@ -50,8 +95,12 @@ export class ElfaV2Client {
       ...options,
     };
 
+    this.transport = this.options.transport ?? createFetchTransport();
+    this.logger = resolveLogger(this.options);
+
     const httpOptions: any = {
       baseURL: this.options.baseUrl,
+      transport: this.transport,
     };
 
     if (this.options.timeout !== undefined) {
@@ -74,6 +123,46 @@ export class ElfaV2Client {
       httpOptions.debug = this.options.debug;
     }
 
+    if (this.options.logger !== undefined) {
+      httpOptions.logger = this.options.logger;
+    }
+
+    if (this.options.cache !== undefined) {
+      httpOptions.cache = this.options.cache;
+    }
+
+    if (this.options.rateLimiter !== undefined) {
+      httpOptions.rateLimiter = this.options.rateLimiter;
+    }
+
+    if (this.options.dedupe !== undefined) {
+      httpOptions.dedupe = this.options.dedupe;
+    }
+
+    if (this.options.creditMeter !== undefined) {
+      httpOptions.creditMeter = this.options.creditMeter;
+    }
+
+    if (this.options.budgetGuard !== undefined) {
+      httpOptions.budgetGuard = this.options.budgetGuard;
+    }
+
+    if (this.options.preflight !== undefined) {
+      httpOptions.preflight = this.options.preflight;
+    }
+
+    if (this.options.keyPool !== undefined) {
+      httpOptions.keyPool = this.options.keyPool;
+    }
+
+    if (this.options.middleware !== undefined) {
+      httpOptions.middleware = this.options.middleware;
+    }
+
+    if (this.options.telemetry !== undefined) {
+      httpOptions.telemetry = this.options.telemetry;
+    }
+
     this.httpClient = new HttpClient(httpOptions);
 
     this.httpClient.setAuthHeader(this.options.apiKey);
@@ -83,6 +172,10 @@ export class ElfaV2Client {
     options: Partial<Omit<ElfaV2ClientOptions, "apiKey">>,
   ): void {
     this.options = { ...this.options, ...options };
+    if (options.transport !== undefined) this.transport = options.transport;
+    if (options.logger !== undefined || options.debug !== undefined) {
+      this.logger = resolveLogger(this.options);
+    }
 
     this.httpClient.updateOptions({
       baseURL: this.options.baseUrl,
@@ -91,43 +184,70 @@ export class ElfaV2Client {
       retryDelay: this.options.retryDelay,
       headers: this.options.headers,
       debug: this.options.debug,
+      logger: options.logger,
+      cache: options.cache,
+      dedupe: this.options.dedupe,
+      rateLimiter: options.rateLimiter,
+      creditMeter: options.creditMeter,
+      budgetGuard: options.budgetGuard,
+      preflight: options.preflight,
+      keyPool: options.keyPool,
+      transport: options.transport,
+      middleware: options.middleware,
+      telemetry: options.telemetry,
     });
   }
 
-  private validateTimeWindowOrFromTo(params: {
-    timeWindow?: string;
-    from?: number;
-    to?: number;
-  }): void {
-    const hasTimeWindow = !!params.timeWindow;
-    const hasFrom = params.from !== undefined;
-    const hasTo = params.to !== undefined;
+  public clearCache(): Promise<void> {
+    return this.httpClient.clearCache();
+  }
 
-    if ((hasFrom && !hasTo) || (!hasFrom && hasTo)) {
-      throw new ValidationError(
-        "When using from/to parameters, both from and to must be provided",
-      );
-    }
+  private async get<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const config = toRequestConfig(options);
+    const response = config
+      ? await this.httpClient.get<T>(url, config)
+      : await this.httpClient.get<T>(url);
+    return this.checkResponse(url, response);
+  }
 
-    if (!hasTimeWindow && (!hasFrom || !hasTo)) {
-      throw new ValidationError(
-        "You must provide either timeWindow or both from and to parameters",
-      );
+  private checkResponse<T>(url: string, response: T): T {
+    const mode = this.options.validateResponses ?? "off";
+    if (mode === "off") return response;
+
+    const endpoint = url.split("?")[0]!;
+    const schema = RESPONSE_SCHEMAS[endpoint];
+    if (!schema) return response;
+
+    const issues = validateSchema(schema, response);
+    if (issues.length === 0) return response;
+
+    if (mode === "strict") {
+      throw new ResponseValidationError(endpoint, issues);
     }
+    this.logger.warn({ endpoint, issues }, "Response drift");
+    return response;
   }
 
-  public async ping(): Promise<PingResponse> {
-    return this.httpClient.get<PingResponse>("/v2/ping");
+  public async ping(options?: RequestOptions): Promise<PingResponse> {
+    return this.get<PingResponse>("/v2/ping", options);
   }
 
-  public async getApiKeyStatus(): Promise<ApiKeyStatusResponse> {
-    return this.httpClient.get<ApiKeyStatusResponse>("/v2/key-status");
+  /** `keyStatus` reads the same whichever shape the API sent `data` in. */
+  public async getApiKeyStatus(
+    options?: RequestOptions,
+  ): Promise<KeyStatusResponse> {
+    const response = await this.get<ApiKeyStatusResponse>(
+      "/v2/key-status",
+      options,
+    );
+    return { ...response, keyStatus: new KeyStatus(response.data) };
   }
 
   public async getTrendingTokens(
     params: TrendingTokensParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingTokensResponse> {
-    this.validateTimeWindowOrFromTo(params);
+    validateTimeWindowOrFromTo(params);
 
     const searchParams = new URLSearchParams();
 
@@ -151,11 +271,12 @@ export class ElfaV2Client {
     }
 
     const url = `/v2/aggregations/trending-tokens${searchParams.toString() ? `?${searchParams}` : ""}`;
-    return this.httpClient.get<TrendingTokensResponse>(url);
+    return this.get<TrendingTokensResponse>(url, options);
   }
 
   public async getAccountSmartStats(
     params: AccountSmartStatsParams,
+    options?: RequestOptions,
   ): Promise<AccountSmartStatsResponse> {
     if (!params.username) {
       throw new ValidationError("Username is required");
@@ -164,13 +285,15 @@ export class ElfaV2Client {
     const searchParams = new URLSearchParams();
     searchParams.append("username", params.username);
 
-    return this.httpClient.get<AccountSmartStatsResponse>(
+    return this.get<AccountSmartStatsResponse>(
       `/v2/account/smart-stats?${searchParams}`,
+      options,
     );
   }
 
   public async getKeywordMentions(
     params: KeywordMentionsParams,
+    options?: RequestOptions,
   ): Promise<KeywordMentionsV2Response> {
     if (!params.keywords && !params.accountName) {
       throw new ValidationError(
@@ -208,13 +331,15 @@ export class ElfaV2Client {
       searchParams.append("reposts", params.reposts.toString());
     }
 
-    return this.httpClient.get<KeywordMentionsV2Response>(
+    return this.get<KeywordMentionsV2Response>(
       `/v2/data/keyword-mentions?${searchParams}`,
+      options,
     );
   }
 
   public async getTokenNews(
     params: TokenNewsParams = {},
+    options?: RequestOptions,
   ): Promise<TokenNewsV2Response> {
     const searchParams = new URLSearchParams();
 
@@ -241,13 +366,14 @@ export class ElfaV2Client {
     }
 
     const url = `/v2/data/token-news${searchParams.toString() ? `?${searchParams}` : ""}`;
-    return this.httpClient.get<TokenNewsV2Response>(url);
+    return this.get<TokenNewsV2Response>(url, options);
   }
 
   public async getTrendingCAsTwitter(
     params: TrendingCAsParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingCAsV2Response> {
-    this.validateTimeWindowOrFromTo(params);
+    validateTimeWindowOrFromTo(params);
 
     const searchParams = new URLSearchParams();
 
@@ -271,13 +397,14 @@ export class ElfaV2Client {
     }
 
     const url = `/v2/aggregations/trending-cas/twitter${searchParams.toString() ? `?${searchParams}` : ""}`;
-    return this.httpClient.get<TrendingCAsV2Response>(url);
+    return this.get<TrendingCAsV2Response>(url, options);
   }
 
   public async getTrendingCAsTelegram(
     params: TrendingCAsParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingCAsV2Response> {
-    this.validateTimeWindowOrFromTo(params);
+    validateTimeWindowOrFromTo(params);
 
     const searchParams = new URLSearchParams();
 
@@ -301,11 +428,12 @@ export class ElfaV2Client {
     }
 
     const url = `/v2/aggregations/trending-cas/telegram${searchParams.toString() ? `?${searchParams}` : ""}`;
-    return this.httpClient.get<TrendingCAsV2Response>(url);
+    return this.get<TrendingCAsV2Response>(url, options);
   }
 
   public async getTopMentions(
     params: TopMentionsV2Params,
+    options?: RequestOptions,
   ): Promise<TopMentionsV2Response> {
     if (!params.ticker) {
       throw new ValidationError("Ticker is required");
@@ -333,13 +461,15 @@ export class ElfaV2Client {
       searchParams.append("reposts", params.reposts.toString());
     }
 
-    return this.httpClient.get<TopMentionsV2Response>(
+    return this.get<TopMentionsV2Response>(
       `/v2/data/top-mentions?${searchParams}`,
+      options,
     );
   }
 
   public async getEventSummary(
     params: EventSummaryV2Params,
+    options?: RequestOptions,
   ): Promise<EventSummaryV2Response> {
     if (!params.keywords) {
       throw new ValidationError("Keywords are required");
@@ -361,13 +491,15 @@ export class ElfaV2Client {
       searchParams.append("searchType", params.searchType);
     }
 
-    return this.httpClient.get<EventSummaryV2Response>(
+    return this.get<EventSummaryV2Response>(
       `/v2/data/event-summary?${searchParams}`,
+      options,
     );
   }
 
   public async getTrendingNarratives(
     params: TrendingNarrativesParams = {},
+    options?: RequestOptions,
   ): Promise<TrendingNarrativesResponse> {
     const searchParams = new URLSearchParams();
 
@@ -385,56 +517,260 @@ export class ElfaV2Client {
     }
 
     const url = `/v2/data/trending-narratives${searchParams.toString() ? `?${searchParams}` : ""}`;
-    return this.httpClient.get<TrendingNarrativesResponse>(url);
+    return this.get<TrendingNarrativesResponse>(url, options);
   }
 
-  public async chat(params: ChatParams): Promise<ChatResponse> {
-    return this.httpClient.post<ChatResponse>(
-      "/v2/chat",
-      this.buildChatBody(params),
+  /** Yields every mention across pages, following `metadata.cursor`. */
+  public iterateKeywordMentions(
+    params: KeywordMentionsParams,
+    options: IterateOptions = {},
+  ): AsyncGenerator<ProcessedMention> {
+    return PaginationHelper.iterateItems(
+      async (cursor) => {
+        const response = await this.getKeywordMentions(
+          cursor === undefined ? params : { ...params, cursor },
+          pageRequestOptions(options),
+        );
+        const next = response.metadata.cursor;
+        return {
+          items: response.data,
+          next:
+            next !== undefined && String(next) !== String(cursor)
+              ? next
+              : undefined,
+        };
+      },
+      params.cursor,
+      options,
     );
   }
 
+  public iterateTopMentions(
+    params: TopMentionsV2Params,
+    options: IterateOptions = {},
+  ): AsyncGenerator<TopMentionV2> {
+    return PaginationHelper.iterateItems(
+      async (page) => {
+        const response = await this.getTopMentions(
+          { ...params, page },
+          pageRequestOptions(options),
+        );
+        return {
+          items: response.data,
+          next: PaginationHelper.nextPage(
+            response.metadata,
+            response.data.length,
+          ),
+        };
+      },
+      params.page ?? 1,
+      options,
+    );
+  }
+
+  public iterateTokenNews(
+    params: TokenNewsParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<ProcessedMention> {
+    return PaginationHelper.iterateItems(
+      async (page) => {
+        const response = await this.getTokenNews(
+          { ...params, page },
+          pageRequestOptions(options),
+        );
+        return {
+          items: response.data,
+          next: PaginationHelper.nextPage(
+            response.metadata,
+            response.data.length,
+          ),
+        };
+      },
+      params.page ?? 1,
+      options,
+    );
+  }
+
+  /** Pages live under `data`, alongside `page`/`pageSize`/`total`. */
+  public iterateTrendingTokens(
+    params: TrendingTokensParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<TrendingToken> {
+    return PaginationHelper.iterateItems(
+      async (page) => {
+        const { data } = await this.getTrendingTokens(
+          { ...params, page },
+          pageRequestOptions(options),
+        );
+        return {
+          items: data.data,
+          next: PaginationHelper.nextPage(data, data.data.length),
+        };
+      },
+      params.page ?? 1,
+      options,
+    );
+  }
+
+  public iterateTrendingCAs(
+    source: TrendingCAsSource,
+    params: TrendingCAsParams = {},
+    options: IterateOptions = {},
+  ): AsyncGenerator<TrendingContractAddress> {
+    const getPage =
+      source === "telegram"
+        ? this.getTrendingCAsTelegram.bind(this)
+        : this.getTrendingCAsTwitter.bind(this);
+
+    return PaginationHelper.iterateItems(
+      async (page) => {
+        const { data } = await getPage(
+          { ...params, page },
+          pageRequestOptions(options),
+        );
+        return {
+          items: data.data,
+          next: PaginationHelper.nextPage(data, data.data.length),
+        };
+      },
+      params.page ?? 1,
+      options,
+    );
+  }
+
+  public async chat(
+    params: ChatParams,
+    options?: RequestOptions,
+  ): Promise<ChatResponse> {
+    const body = this.buildChatBody(params);
+    const config = toRequestConfig(options);
+    return config
+      ? this.httpClient.post<ChatResponse>("/v2/chat", body, config)
+      : this.httpClient.post<ChatResponse>("/v2/chat", body);
+  }
+
+  /**
+   * Pass an `AbortSignal`, or `RequestOptions` for a `signal` and a credit
+   * `tag`. The `complete` event's `creditsConsumed` is what is metered.
+   *
+   * Connecting takes `timeout` and `retries` like any other call; once open,
+   * a stream silent for `timeout` ms fails with `NetworkError`.
+   */
   public async *chatStream(
     params: ChatParams,
-    signal?: AbortSignal,
+    options?: AbortSignal | RequestOptions,
   ): AsyncGenerator<ChatStreamEvent> {
-    const response = await fetch(`${this.options.baseUrl}/v2/chat/stream`, {
-      method: "POST",
-      headers: {
-        ...this.options.headers,
-        "x-elfa-api-key": this.options.apiKey,
-        "Content-Type": "application/json",
-        Accept: "text/event-stream",
-      },
-      body: JSON.stringify(this.buildChatBody(params)),
-      ...(signal ? { signal } : {}),
-    });
-
-    if (!response.ok) {
-      await throwForFetchResponse(response);
+    const call = this.options.telemetry?.startCall(
+      "POST",
+      "/v2/chat/stream",
+      true,
+    );
+    let failure: Error | undefined;
+    try {
+      yield* this.streamChat(params, options, call);
+    } catch (error) {
+      failure = error as Error;
+      throw error;
+    } finally {
+      call?.end(failure);
     }
+  }
+
+  private async *streamChat(
+    params: ChatParams,
+    options: AbortSignal | RequestOptions | undefined,
+    call: TelemetryCall | undefined,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { signal, tag, estimatedCredits, priority } =
+      chatStreamOptions(options);
+    await this.options.preflight?.check("POST /v2/chat/stream");
+    this.options.budgetGuard?.check({
+      endpoint: "POST /v2/chat/stream",
+      ...(tag !== undefined ? { tag } : {}),
+      ...(estimatedCredits !== undefined ? { estimatedCredits } : {}),
+    });
+    const pool = this.options.keyPool;
+    const affinity = pool?.affinityFor("/v2/chat/stream", params);
+    let key = pool?.select(affinity);
+    const url = `${this.options.baseUrl}/v2/chat/stream`;
+    const body = JSON.stringify(this.buildChatBody(params));
+    const requestId = nextRequestId();
+    const response = await connectStream(
+      () => {
+        if (key) pool!.recordRequest(key.name);
+        return {
+          method: "POST",
+          url,
+          headers: {
+            ...this.options.headers,
+            "x-elfa-api-key": key?.apiKey ?? this.options.apiKey,
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+          },
+          body,
+        };
+      },
+      {
+        transport: this.transport,
+        label: "Chat stream",
+        timeout: this.options.timeout ?? 0,
+        retries: this.options.retries ?? 0,
+        retryDelay: this.options.retryDelay ?? 1000,
+        logger: this.logger,
+        requestId,
+        ...(signal ? { signal } : {}),
+        ...(this.options.middleware
+          ? { middleware: this.options.middleware }
+          : {}),
+        ...(call ? { call } : {}),
+        ...(this.options.rateLimiter
+          ? { rateLimiter: this.options.rateLimiter }
+          : {}),
+        ...(priority ? { priority } : {}),
+        failover: (error) => {
+          const next = key && pool!.failoverFrom(key, error, affinity);
+          if (next) key = next;
+          return !!next;
+        },
+      },
+    );
     if (!response.body) {
       throw new NetworkError("Chat stream returned no response body");
     }
 
-    try {
-      for await (const message of readSSE(response.body)) {
-        if (!message.data || message.data === "[DONE]") {
-          if (message.data === "[DONE]") return;
-          continue;
-        }
-        let event: ChatStreamEvent;
-        try {
-          event = JSON.parse(message.data) as ChatStreamEvent;
-        } catch {
-          continue;
-        }
-        if (typeof event?.type !== "string") continue;
-        yield event;
+    for await (const message of readStreamEvents(response.body, {
+      idleTimeout: this.options.timeout ?? 0,
+      logger: this.logger,
+      requestId,
+      url,
+      ...(call ? { call } : {}),
+    })) {
+      if (!message.data || message.data === "[DONE]") {
+        if (message.data === "[DONE]") return;
+        continue;
       }
-    } finally {
-      await response.body.cancel().catch(() => {});
+      let event: ChatStreamEvent;
+      try {
+        event = JSON.parse(message.data) as ChatStreamEvent;
+      } catch {
+        continue;
+      }
+      if (typeof event?.type !== "string") continue;
+      if (
+        event.type === "complete" &&
+        typeof event.creditsConsumed === "number"
+      ) {
+        if (key) pool!.recordCredits(key.name, event.creditsConsumed);
+        call?.credit(event.creditsConsumed);
+        this.options.creditMeter?.record({
+          endpoint: "POST /v2/chat/stream",
+          credits: event.creditsConsumed,
+          source: "stream",
+          ...(event.sessionId ? { sessionId: event.sessionId } : {}),
+          ...(tag !== undefined ? { tag } : {}),
+        });
+      }
+      yield event;
     }
   }
 
@@ -455,3 +791,12 @@ export class ElfaV2Client {
     }
   }
 }
+
+function chatStreamOptions(
+  options: AbortSignal | RequestOptions | undefined,
+): RequestOptions {
+  if (!options) return {};
+  return typeof (options as AbortSignal).aborted === "boolean"
+    ? { signal: options as AbortSignal }
+    : (options as RequestOptions);
+}
@@ -0,0 +1,194 @@
+import { HttpClient } from "../utils/http.js";
+import { NetworkError, ValidationError } from "../utils/errors.js";
+import { connectStream, readStreamEvents } from "../utils/stream.js";
+import { parseAutoStreamEvent } from "../utils/autoEvents.js";
+import { AGENT_SECRET_HEADER, withPayment } from "../utils/x402.js";
+import { createFetchTransport, type Transport } from "../utils/transport.js";
+import { nextRequestId, resolveLogger, type Logger } from "../utils/logger.js";
+import type {
+  X402AutoChatParams,
+  X402AutoChatResponse,
+  X402PaymentSigner,
+} from "../types/x402.js";
+import type {
+  AutoQueryInput,
+  AutoValidateResponse,
+  AutoQuery,
+  AutoPollQueryResponse,
+  AutoListSessionsResponse,
+  AutoSession,
+  AutoStreamEvent,
+} from "../types/auto.js";
+
+export interface X402AutoClientOptions {
+  baseUrl?: string;
+  /**
+   * Sent as `x-elfa-agent-secret`. Any string; your identity is its SHA-256,
+   * so reuse the same value to reach the queries you created with it.
+   */
+  agentSecret?: string;
+  paymentSigner?: X402PaymentSigner;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  headers?: Record<string, string>;
+  debug?: boolean;
+  logger?: Logger;
+  transport?: Transport;
+}
+
+const MOUNT = "/x402/v2/auto";
+
+/**
+ * Auto over x402: no API key, paid per request. Queries belong to the agent
+ * secret rather than a key, and are read back with `POST`s on these routes.
+ */
+export class X402AutoClient {
+  private httpClient: HttpClient;
+  private baseUrl: string;
+  private agentSecret?: string;
+  private paymentSigner?: X402PaymentSigner;
+  private headers?: Record<string, string>;
+  private transport: Transport;
+  private logger: Logger;
+  private streaming: {
+    timeout: number;
+    retries: number;
+    retryDelay: number;
+    debug: boolean;
+  };
+
+  constructor(options: X402AutoClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? "https://api.elfa.ai";
+    if (options.agentSecret) this.agentSecret = options.agentSecret;
+    if (options.paymentSigner) this.paymentSigner = options.paymentSigner;
+    if (options.headers) this.headers = options.headers;
+    this.transport = options.transport ?? createFetchTransport();
+    this.logger = resolveLogger(options);
+    this.streaming = {
+      timeout: options.timeout ?? 30000,
+      retries: options.retries ?? 3,
+      retryDelay: options.retryDelay ?? 1000,
+      debug: options.debug ?? false,
+    };
+
+    this.httpClient = new HttpClient({
+      baseURL: this.baseUrl,
+      ...this.streaming,
+      ...(options.headers ? { headers: options.headers } : {}),
+      ...(options.logger ? { logger: options.logger } : {}),
+      transport: this.transport,
+    });
+  }
+
+  /** Costs credits; does not need the agent secret. */
+  public async chat(params: X402AutoChatParams): Promise<X402AutoChatResponse> {
+    if (!params.message?.trim()) {
+      throw new ValidationError("message is required");
+    }
+    return this.post<X402AutoChatResponse>("/chat", params, false);
+  }
+
+  public validateQuery(input: AutoQueryInput): Promise<AutoValidateResponse> {
+    return this.post<AutoValidateResponse>("/queries/validate", input);
+  }
+
+  public createQuery(input: AutoQueryInput): Promise<AutoQuery> {
+    return this.post<AutoQuery>("/queries", input);
+  }
+
+  public getQuery(queryId: string): Promise<AutoPollQueryResponse> {
+    return this.post<AutoPollQueryResponse>(`/queries/${queryId}`);
+  }
+
+  public cancelQuery(queryId: string): Promise<AutoQuery> {
+    return this.post<AutoQuery>(`/queries/${queryId}/cancel`);
+  }
+
+  public listSessions(queryId: string): Promise<AutoListSessionsResponse> {
+    return this.post<AutoListSessionsResponse>(`/queries/${queryId}/sessions`);
+  }
+
+  public getSession(queryId: string, sessionId: string): Promise<AutoSession> {
+    return this.post<AutoSession>(`/queries/${queryId}/sessions/${sessionId}`);
+  }
+
+  /**
+   * Yields events until `end`. Unlike `AutoClient.streamQuery` this does not
+   * reconnect, though connecting is retried per `retries`; a `204` (nothing
+   * to stream) ends it immediately. A stream silent for `timeout` ms fails
+   * with `NetworkError`.
+   */
+  public async *streamQuery(
+    queryId: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<AutoStreamEvent> {
+    const url = `${this.baseUrl}${MOUNT}/queries/${queryId}/stream`;
+    const requestId = nextRequestId();
+    const response = await connectStream(
+      () => ({
+        method: "GET",
+        url,
+        headers: {
+          ...this.headers,
+          ...this.secretHeader(),
+          Accept: "text/event-stream",
+        },
+      }),
+      {
+        transport: this.transport,
+        label: "x402 Auto stream",
+        timeout: this.streaming.timeout,
+        retries: this.streaming.retries,
+        retryDelay: this.streaming.retryDelay,
+        logger: this.logger,
+        requestId,
+        ...(signal ? { signal } : {}),
+      },
+    );
+
+    if (response.status === 204) return;
+    if (!response.body) {
+      throw new NetworkError("x402 Auto stream returned no response body");
+    }
+
+    const events = readStreamEvents(response.body, {
+      idleTimeout: this.streaming.timeout,
+      logger: this.logger,
+      requestId,
+      url,
+    });
+    for await (const message of events) {
+      if (!message.data && message.event === undefined) continue;
+      yield parseAutoStreamEvent(message);
+      if (message.event === "end") return;
+    }
+  }
+
+  private async post<T>(
+    path: string,
+    body?: unknown,
+    needsSecret: boolean = true,
+  ): Promise<T> {
+    const secret =
+      needsSecret || this.agentSecret ? this.secretHeader() : undefined;
+
+    return withPayment(
+      this.paymentSigner,
+      { method: "POST", url: `${this.baseUrl}${MOUNT}${path}` },
+      (payment) =>
+        this.httpClient.post<T>(`${MOUNT}${path}`, body, {
+          headers: { ...secret, ...payment },
+        }),
+    );
+  }
+
+  private secretHeader(): Record<string, string> {
+    if (!this.agentSecret) {
+      throw new ValidationError(
+        "agentSecret is required for x402 Auto query routes",
+      );
+    }
+    return { [AGENT_SECRET_HEADER]: this.agentSecret };
+  }
+}
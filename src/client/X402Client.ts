@@ -0,0 +1,184 @@
+import { HttpClient, toRequestConfig } from "../utils/http.js";
+import { ValidationError } from "../utils/errors.js";
+import { toQueryString, validateTimeWindowOrFromTo } from "../utils/params.js";
+import { withPayment } from "../utils/x402.js";
+import { createFetchTransport } from "../utils/transport.js";
+import {
+  X402AutoClient,
+  type X402AutoClientOptions,
+} from "./X402AutoClient.js";
+import type { RequestOptions } from "../types/options.js";
+import type { ChatResponse } from "../types/chat.js";
+import type { X402ChatParams } from "../types/x402.js";
+import type {
+  TrendingTokensResponse,
+  TrendingTokensParams,
+  AccountSmartStatsResponse,
+  AccountSmartStatsParams,
+  KeywordMentionsV2Response,
+  KeywordMentionsParams,
+  TokenNewsV2Response,
+  TokenNewsParams,
+  TrendingCAsV2Response,
+  TrendingCAsParams,
+  TopMentionsV2Response,
+  TopMentionsV2Params,
+  EventSummaryV2Response,
+  EventSummaryV2Params,
+  TrendingNarrativesResponse,
+  TrendingNarrativesParams,
+} from "../types/elfa.js";
+
+export type X402ClientOptions = X402AutoClientOptions;
+
+const MOUNT = "/x402/v2";
+
+/**
+ * The pay-per-request `/x402/v2` routes: no API key, every paid call answered
+ * with `402` until it carries an `X-PAYMENT` header. With a `paymentSigner`
+ * the client pays and retries by itself; without one, each paid call throws
+ * `PaymentRequiredError` carrying the payment requirements.
+ */
+export class X402Client {
+  public readonly auto: X402AutoClient;
+  private httpClient: HttpClient;
+  private options: X402ClientOptions &
+    Required<Pick<X402ClientOptions, "baseUrl" | "transport">>;
+
+  constructor(options: X402ClientOptions = {}) {
+    this.options = {
+      ...options,
+      baseUrl: options.baseUrl ?? "https://api.elfa.ai",
+      transport: options.transport ?? createFetchTransport(),
+    };
+
+    this.httpClient = new HttpClient({
+      baseURL: this.options.baseUrl,
+      timeout: options.timeout ?? 30000,
+      retries: options.retries ?? 3,
+      retryDelay: options.retryDelay ?? 1000,
+      ...(options.headers ? { headers: options.headers } : {}),
+      debug: options.debug ?? false,
+      transport: this.options.transport,
+    });
+    this.auto = new X402AutoClient(this.options);
+  }
+
+  public async getTrendingTokens(
+    params: TrendingTokensParams = {},
+    options?: RequestOptions,
+  ): Promise<TrendingTokensResponse> {
+    validateTimeWindowOrFromTo(params);
+    return this.get("/aggregations/trending-tokens", params, options);
+  }
+
+  public async getAccountSmartStats(
+    params: AccountSmartStatsParams,
+    options?: RequestOptions,
+  ): Promise<AccountSmartStatsResponse> {
+    if (!params.username) {
+      throw new ValidationError("Username is required");
+    }
+    return this.get("/account/smart-stats", params, options);
+  }
+
+  public async getKeywordMentions(
+    params: KeywordMentionsParams,
+    options?: RequestOptions,
+  ): Promise<KeywordMentionsV2Response> {
+    if (!params.keywords && !params.accountName) {
+      throw new ValidationError(
+        "Either keywords or accountName must be provided",
+      );
+    }
+    return this.get("/data/keyword-mentions", params, options);
+  }
+
+  public async getTokenNews(
+    params: TokenNewsParams = {},
+    options?: RequestOptions,
+  ): Promise<TokenNewsV2Response> {
+    return this.get("/data/token-news", params, options);
+  }
+
+  public async getTrendingCAsTwitter(
+    params: TrendingCAsParams = {},
+    options?: RequestOptions,
+  ): Promise<TrendingCAsV2Response> {
+    validateTimeWindowOrFromTo(params);
+    return this.get("/aggregations/trending-cas/twitter", params, options);
+  }
+
+  public async getTrendingCAsTelegram(
+    params: TrendingCAsParams = {},
+    options?: RequestOptions,
+  ): Promise<TrendingCAsV2Response> {
+    validateTimeWindowOrFromTo(params);
+    return this.get("/aggregations/trending-cas/telegram", params, options);
+  }
+
+  public async getTopMentions(
+    params: TopMentionsV2Params,
+    options?: RequestOptions,
+  ): Promise<TopMentionsV2Response> {
+    if (!params.ticker) {
+      throw new ValidationError("Ticker is required");
+    }
+    return this.get("/data/top-mentions", params, options);
+  }
+
+  public async getEventSummary(
+    params: EventSummaryV2Params,
+    options?: RequestOptions,
+  ): Promise<EventSummaryV2Response> {
+    if (!params.keywords) {
+      throw new ValidationError("Keywords are required");
+    }
+    return this.get("/data/event-summary", params, options);
+  }
+
+  public async getTrendingNarratives(
+    params: TrendingNarrativesParams = {},
+    options?: RequestOptions,
+  ): Promise<TrendingNarrativesResponse> {
+    return this.get("/data/trending-narratives", params, options);
+  }
+
+  public async chat(params: X402ChatParams): Promise<ChatResponse> {
+    const analysisType = params.analysisType ?? "chat";
+    if (analysisType === "chat" && !params.message?.trim()) {
+      throw new ValidationError("message is required for chat analysis");
+    }
+
+    const path = `${MOUNT}/chat`;
+    return withPayment(
+      this.options.paymentSigner,
+      { method: "POST", url: `${this.options.baseUrl}${path}` },
+      (payment) =>
+        this.httpClient.post<ChatResponse>(
+          path,
+          params,
+          payment ? { headers: payment } : undefined,
+        ),
+    );
+  }
+
+  private get<T>(
+    path: string,
+    params: object,
+    options?: RequestOptions,
+  ): Promise<T> {
+    const url = `${MOUNT}${path}${toQueryString(params)}`;
+    const config = toRequestConfig(options) ?? {};
+    return withPayment(
+      this.options.paymentSigner,
+      { method: "GET", url: `${this.options.baseUrl}${url}` },
+      // A paid call is sent once: its payment may settle even if it fails.
+      (payment) =>
+        this.httpClient.get<T>(
+          url,
+          payment ? { ...config, headers: payment, retries: 0 } : config,
+        ),
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { generateV2Module } from "./openapi.js";
+
+// Usage: npm run codegen [-- <swagger.json> <out.ts>]
+const specPath = resolve(process.argv[2] ?? "swagger.json");
+const outPath = resolve(process.argv[3] ?? "src/generated/v2.ts");
+
+const spec = JSON.parse(readFileSync(specPath, "utf8"));
+mkdirSync(dirname(outPath), { recursive: true });
+writeFileSync(outPath, generateV2Module(spec));
+console.log(`Wrote ${outPath} from ${specPath}`);
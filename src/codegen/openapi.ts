@@ -0,0 +1,342 @@
+/**
+ * Reads the local OpenAPI spec (`swagger.json`) and emits TypeScript for the
+ * `/v2/*` surface: component schemas, request-param interfaces and thin
+ * method stubs. The output is a reference to diff the hand-written clients
+ * against, not a replacement for them; see `npm run codegen`.
+ */
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string;
+  enum?: unknown[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  nullable?: boolean;
+  description?: string;
+}
+
+interface OpenApiParameter {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { content?: Record<string, { schema?: OpenApiSchema }> };
+  responses?: Record<
+    string,
+    { content?: Record<string, { schema?: OpenApiSchema }> }
+  >;
+}
+
+export interface OpenApiSpec {
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components?: { schemas?: Record<string, OpenApiSchema> };
+}
+
+export interface SpecParam {
+  name: string;
+  in: "query" | "path";
+  required: boolean;
+  schema: OpenApiSchema;
+}
+
+export interface SpecEndpoint {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  operationId: string;
+  /** Stub method name: the operationId without `-v2`, camel-cased. */
+  name: string;
+  params: SpecParam[];
+  body?: OpenApiSchema;
+  response?: OpenApiSchema;
+}
+
+const METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+export function listEndpoints(
+  spec: OpenApiSpec,
+  prefix: string = "/v2/",
+): SpecEndpoint[] {
+  const endpoints: SpecEndpoint[] = [];
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    if (!path.startsWith(prefix)) continue;
+
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const operationId =
+        operation.operationId ?? `${method}-${path.replace(/\W+/g, "-")}`;
+      const endpoint: SpecEndpoint = {
+        method: method.toUpperCase() as SpecEndpoint["method"],
+        path,
+        operationId,
+        name: methodName(operationId),
+        params: (operation.parameters ?? [])
+          .filter((p) => p.in === "query" || p.in === "path")
+          .map((p) => ({
+            name: p.name,
+            in: p.in as SpecParam["in"],
+            required: p.required === true,
+            schema: p.schema ?? {},
+          })),
+      };
+
+      const body = operation.requestBody?.content?.["application/json"]?.schema;
+      if (body) endpoint.body = body;
+      const response =
+        operation.responses?.["200"]?.content?.["application/json"]?.schema;
+      if (response) endpoint.response = response;
+
+      endpoints.push(endpoint);
+    }
+  }
+
+  return endpoints;
+}
+
+/** TypeScript for a schema; `$ref`s become the referenced schema's name. */
+export function schemaToType(
+  schema: OpenApiSchema,
+  indent: string = "",
+): string {
+  const type = baseType(schema, indent);
+  return schema.nullable && type !== "unknown" ? `${type} | null` : type;
+}
+
+function baseType(schema: OpenApiSchema, indent: string): string {
+  if (schema.$ref) return refName(schema.$ref);
+
+  if (schema.allOf) {
+    return join(
+      schema.allOf.map((s) => schemaToType(s, indent)),
+      " & ",
+    );
+  }
+  const members = schema.anyOf ?? schema.oneOf;
+  if (members) {
+    return join(
+      members.map((s) => schemaToType(s, indent)),
+      " | ",
+    );
+  }
+
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+    case "boolean":
+      return schema.type;
+    case "number":
+    case "integer":
+      return "number";
+    case "array":
+      return `Array<${schemaToType(schema.items ?? {}, indent)}>`;
+  }
+
+  if (schema.properties) {
+    return `{\n${members_(schema, `${indent}  `)}${indent}}`;
+  }
+  if (schema.type === "object" || schema.additionalProperties) {
+    return `Record<string, ${additional(schema, indent)}>`;
+  }
+  return "unknown";
+}
+
+function members_(schema: OpenApiSchema, indent: string): string {
+  const required = new Set(schema.required ?? []);
+  let out = "";
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const description = property.description?.split("\n")[0]?.trim();
+    if (description)
+      out += `${indent}/** ${description.replace(/\*\//g, "*\\/")} */\n`;
+    const optional = required.has(key) ? "" : "?";
+    out += `${indent}${propertyKey(key)}${optional}: ${schemaToType(property, indent)};\n`;
+  }
+  if (schema.additionalProperties) {
+    out += `${indent}[key: string]: unknown;\n`;
+  }
+  return out;
+}
+
+function additional(schema: OpenApiSchema, indent: string): string {
+  const extra = schema.additionalProperties;
+  if (typeof extra === "object" && Object.keys(extra).length > 0) {
+    return schemaToType(extra, indent);
+  }
+  return "unknown";
+}
+
+function join(types: string[], separator: string): string {
+  const unique = [...new Set(types)];
+  if (unique.length === 1) return unique[0]!;
+  return unique.map((t) => (/[|&]/.test(t) ? `(${t})` : t)).join(separator);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function refName(ref: string): string {
+  return typeName(ref.slice(ref.lastIndexOf("/") + 1));
+}
+
+/** TSOA names generic instantiations like `Record_string.unknown_`. */
+function typeName(name: string): string {
+  return name.replace(/[^\w$]/g, "_");
+}
+
+function methodName(operationId: string): string {
+  return operationId
+    .replace(/-v2$/, "")
+    .replace(/[-_](\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+function pascal(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** Component schemas reachable from the given endpoints, in spec order. */
+function reachableSchemas(
+  spec: OpenApiSpec,
+  endpoints: SpecEndpoint[],
+): string[] {
+  const schemas = spec.components?.schemas ?? {};
+  const seen = new Set<string>();
+
+  const visit = (schema: OpenApiSchema | undefined): void => {
+    if (!schema || typeof schema !== "object") return;
+    if (schema.$ref) {
+      const name = schema.$ref.slice(schema.$ref.lastIndexOf("/") + 1);
+      if (seen.has(name)) return;
+      seen.add(name);
+      visit(schemas[name]);
+      return;
+    }
+    schema.allOf?.forEach(visit);
+    schema.anyOf?.forEach(visit);
+    schema.oneOf?.forEach(visit);
+    visit(schema.items);
+    Object.values(schema.properties ?? {}).forEach(visit);
+    if (typeof schema.additionalProperties === "object") {
+      visit(schema.additionalProperties);
+    }
+  };
+
+  for (const endpoint of endpoints) {
+    visit(endpoint.body);
+    visit(endpoint.response);
+    endpoint.params.forEach((p) => visit(p.schema));
+  }
+
+  return Object.keys(schemas).filter((name) => seen.has(name));
+}
+
+/** The full `src/generated/v2.ts` module for `spec`. */
+export function generateV2Module(spec: OpenApiSpec): string {
+  const endpoints = listEndpoints(spec);
+  const schemas = spec.components?.schemas ?? {};
+  const names = reachableSchemas(spec, endpoints);
+  const out: string[] = [
+    "// Generated by `npm run codegen` from swagger.json. Do not edit by hand.",
+    "",
+  ];
+
+  for (const name of names) {
+    const schema = schemas[name]!;
+    if (schema.properties && !schema.nullable) {
+      out.push(
+        `export interface ${typeName(name)} {\n${members_(schema, "  ")}}`,
+        "",
+      );
+    } else {
+      out.push(`export type ${typeName(name)} = ${schemaToType(schema)};`, "");
+    }
+  }
+
+  for (const endpoint of endpoints) {
+    const query = endpoint.params.filter((p) => p.in === "query");
+    if (query.length === 0) continue;
+    const paramsName = `${pascal(endpoint.name)}Params`;
+    if (paramsName in schemas) {
+      throw new Error(`Generated name ${paramsName} collides with a schema`);
+    }
+    const shape: OpenApiSchema = {
+      properties: Object.fromEntries(query.map((p) => [p.name, p.schema])),
+      required: query.filter((p) => p.required).map((p) => p.name),
+    };
+    out.push(`export interface ${paramsName} {\n${members_(shape, "  ")}}`, "");
+  }
+
+  out.push(
+    "export interface GeneratedRequest {",
+    "  query?: object;",
+    "  body?: unknown;",
+    "}",
+    "",
+    "/** One stub per `/v2/*` operation, over an injected `request`. */",
+    "export abstract class GeneratedV2Api {",
+    "  protected abstract request<T>(",
+    "    method: string,",
+    "    path: string,",
+    "    request: GeneratedRequest,",
+    "  ): Promise<T>;",
+  );
+
+  for (const endpoint of endpoints) {
+    out.push("", ...stub(endpoint));
+  }
+  out.push("}", "");
+
+  return out.join("\n");
+}
+
+function stub(endpoint: SpecEndpoint): string[] {
+  const args: string[] = [];
+  const request: string[] = [];
+
+  for (const p of endpoint.params.filter((p) => p.in === "path")) {
+    args.push(`${p.name}: ${schemaToType(p.schema)}`);
+  }
+  const query = endpoint.params.filter((p) => p.in === "query");
+  if (query.length > 0) {
+    const optional = query.every((p) => !p.required);
+    args.push(
+      `params: ${pascal(endpoint.name)}Params${optional ? " = {}" : ""}`,
+    );
+    request.push("query: params");
+  }
+  if (endpoint.body) {
+    args.push(`body: ${schemaToType(endpoint.body)}`);
+    request.push("body");
+  }
+
+  const path = endpoint.path.includes("{")
+    ? `\`${endpoint.path.replace(/\{(\w+)\}/g, "${encodeURIComponent(String($1))}")}\``
+    : JSON.stringify(endpoint.path);
+  const response = endpoint.response
+    ? schemaToType(endpoint.response)
+    : "unknown";
+
+  return [
+    `  /** ${endpoint.method} ${endpoint.path} (\`${endpoint.operationId}\`) */`,
+    `  public ${endpoint.name}(${args.join(", ")}): Promise<${response}> {`,
+    `    return this.request(${JSON.stringify(endpoint.method)}, ${path}, ${
+      request.length > 0 ? `{ ${request.join(", ")} }` : "{}"
+    });`,
+    "  }",
+  ];
+}
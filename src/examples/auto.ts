@@ -1,5 +1,6 @@
 import { ElfaSDK } from "../client/ElfaSDK.js";
 import type { AutoQueryInput } from "../types/auto.js";
+import { eql, fearGreed, notify, price } from "../utils/eql.js";
 
 export async function autoExample(): Promise<void> {
   const elfa = new ElfaSDK({
@@ -42,3 +43,18 @@ export async function autoExample(): Promise<void> {
   const status = await elfa.auto.getQuery(queryId as string);
   console.log("Status:", status.status);
 }
+
+export async function autoBuilderExample(): Promise<void> {
+  const elfa = new ElfaSDK({ elfaApiKey: "your-elfa-api-key" });
+
+  const input = eql
+    .when(price("BTC").on("hyperliquid").using("current").gt(100000))
+    .and(fearGreed().lt(75))
+    .do(notify("BTC crossed 100k"))
+    .expiresIn("24h")
+    .title("BTC breakout alert")
+    .build();
+
+  const validation = await elfa.auto.validateQuery(input);
+  console.log("Query valid:", validation.valid);
+}
@@ -0,0 +1,869 @@
+// Generated by `npm run codegen` from swagger.json. Do not edit by hand.
+
+export interface PingResponseV2 {
+  success: true;
+  data: {
+    message: string;
+  };
+}
+
+export interface ApiKeyStatusDataV2 {
+  id: number;
+  /** Masked key — prefix plus the last 4 characters (e.g. `elfak_...245c`). */
+  key: string;
+  name: string;
+  status: "active" | "revoked" | "expired" | "payment_required";
+  dailyRequestLimit: number;
+  monthlyRequestLimit: number;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+  requestsPerMinute: number | null;
+  email: string | null;
+  project: string | null;
+  allowOverage: boolean | null;
+  maxOverage: number | null;
+  spendCapCredits: number | null;
+  bonusCredits: number;
+  bonusCreditsExpiresAt: string | null;
+  /** Account bookkeeping. Retained for backwards compatibility; not part of the supported surface. */
+  userId: number | null;
+  emailNotificationsEnabled: boolean;
+  lastEmailSentAt: string | null;
+  lastUsagePercentNotified: number;
+  spendAlertThreshold: string | number | null;
+  spendAlertMaxFrequencyHours: number;
+  totalSpendAlerted: string | number;
+  /** Whether Auto (`/v2/auto/*`) trade actions require an HMAC signature. */
+  hmacEnabled: boolean;
+  /** Whether this key is provisioned for Auto / Athena. */
+  athenaEnabled: boolean;
+  /** Effective scopes for this key, including any enterprise overlay. */
+  scopes: Array<string>;
+  tier: string;
+  depositCredits: number;
+  billingMode: "deposit" | "arrears";
+  usage: {
+    monthly: number;
+    daily: number;
+  };
+  limits: {
+    monthly: number;
+    daily: number;
+  };
+  isExpired: boolean;
+  remainingRequests: {
+    monthly: number;
+    daily: number;
+  };
+}
+
+export interface ApiKeyStatusResponseV2 {
+  success: boolean;
+  data: ApiKeyStatusDataV2;
+}
+
+export interface TrendingTokensResponseV2 {
+  success: boolean;
+  data: {
+    pageSize: number;
+    page: number;
+    total: number;
+    data: Array<{
+      change_percent: number;
+      previous_count: number;
+      current_count: number;
+      token: string;
+    }>;
+  };
+}
+
+export interface AccountSmartStatsResponseV2 {
+  success: boolean;
+  data: {
+    followerCount?: number;
+    smartFollowerCount?: number;
+    averageReach: number;
+    averageEngagement: number;
+    smartFollowingCount: number;
+  };
+}
+
+export interface MentionV2 {
+  /** Tweet ID (string to preserve precision across 64-bit IDs). */
+  tweetId: string;
+  /** URL to the source tweet. */
+  link: string;
+  likeCount: number | null;
+  repostCount: number | null;
+  viewCount: number | null;
+  quoteCount: number | null;
+  replyCount: number | null;
+  bookmarkCount: number | null;
+  /** ISO 8601 timestamp (e.g. "2026-04-18T15:07:49+00:00"). Not a unix timestamp. */
+  mentionedAt: string;
+  type: "repost" | "post" | "quote" | "reply" | "note" | "article";
+  /** Reposts broken down by audience: `smart` = smart accounts, `ct` = crypto-Twitter accounts. */
+  repostBreakdown: {
+    ct: number;
+    smart: number;
+  };
+}
+
+export interface TopMentionsResponseV2 {
+  success: boolean;
+  data: Array<MentionV2>;
+  metadata: {
+    pageSize: number;
+    page: number;
+    total: number;
+  };
+}
+
+export interface KeywordMentionV2 {
+  /** Tweet ID (string to preserve precision across 64-bit IDs). */
+  tweetId: string;
+  /** URL to the source tweet. */
+  link: string;
+  likeCount: number | null;
+  repostCount: number | null;
+  viewCount: number | null;
+  quoteCount: number | null;
+  replyCount: number | null;
+  bookmarkCount: number | null;
+  /** ISO 8601 timestamp (e.g. "2026-04-18T15:07:49+00:00"). Not a unix timestamp. */
+  mentionedAt: string;
+  type: "repost" | "post" | "quote" | "reply" | "note" | "article";
+  /** Reposts broken down by audience: `smart` = smart accounts, `ct` = crypto-Twitter accounts. */
+  repostBreakdown: {
+    ct: number;
+    smart: number;
+  };
+  /** Minimal account info for the author. Only `username` and `isVerified` are */
+  account?: {
+    isVerified: boolean;
+    username: string;
+  };
+}
+
+export interface KeywordMentionsResponseV2 {
+  success: boolean;
+  data: Array<KeywordMentionV2>;
+  /** Pagination metadata. `cursor` is a millisecond timestamp — pass it back as */
+  metadata: {
+    cursor?: number;
+    total: number;
+  };
+}
+
+export interface EventSummaryResponseV2 {
+  success: boolean;
+  data: Array<{
+    tweetIds: Array<string>;
+    sourceLinks: Array<string>;
+    summary: string;
+  }>;
+  metadata?: {
+    summaries: number;
+    total_summarized: number;
+    total: number;
+  };
+}
+
+export interface TrendingNarrativesResponseV2 {
+  success: boolean;
+  data: {
+    metadata: {
+      error?: string;
+      total_tweets?: number;
+      total_narratives?: number;
+    };
+    trending_narratives: Array<{
+      tweet_ids: Array<string>;
+      source_links: Array<string>;
+      narrative: string;
+    }>;
+  };
+}
+
+export interface TokenNewsResponseV2 {
+  success: boolean;
+  data: Array<MentionV2>;
+  metadata: {
+    pageSize: number;
+    page: number;
+    total: number;
+  };
+}
+
+export interface TrendingContractAddressV2 {
+  contractAddress: string;
+  chain: "ethereum" | "solana";
+  mentionCount: number;
+}
+
+export interface TrendingCAsResponseV2 {
+  success: boolean;
+  data: {
+    pageSize: number;
+    page: number;
+    total: number;
+    data: Array<TrendingContractAddressV2>;
+  };
+}
+
+export interface ChatResponseV2 {
+  success: boolean;
+  data: {
+    creditsConsumed: number;
+    sessionId: string;
+    message: string;
+  };
+}
+
+export interface ChatAssetMetadataV2 {
+  /** Token ticker symbol (e.g. "BTC", "$ETH"). Required for tokenIntro / tokenAnalysis when contractAddress is not provided. */
+  symbol?: string;
+  /** Blockchain name (e.g. "ethereum", "solana"). Use together with contractAddress as an alternative to symbol. */
+  chain?: string;
+  /** Token contract address. Use together with chain as an alternative to symbol. */
+  contractAddress?: string;
+  /** Twitter/X username. Required for accountAnalysis. */
+  username?: string;
+}
+
+export interface ChatRequestBodyV2 {
+  /** The user message. Required when analysisType is "chat"; ignored for all other analysis types. */
+  message?: string;
+  /** Omit to start a new conversation. Pass the sessionId from a previous response to continue an existing conversation. */
+  sessionId?: string;
+  /** The type of analysis to perform. Defaults to "chat". */
+  analysisType?: "chat" | "macro" | "summary" | "tokenIntro" | "tokenAnalysis" | "accountAnalysis";
+  /** Response quality mode. */
+  speed?: "fast" | "expert" | "adaptive";
+  /** Required for tokenIntro, tokenAnalysis, and accountAnalysis. See endpoint description for required fields per analysis type. */
+  assetMetadata?: ChatAssetMetadataV2;
+}
+
+export interface ApiKeyAutoChatResponse {
+  /** Session ID for continuing this conversation */
+  sessionId: string;
+  /** AI response in plain text/markdown */
+  response: string;
+  /** Optional generated title */
+  title: string | null;
+  /** Optional reasoning trace */
+  reasoning: string | null;
+  /** Related plan IDs */
+  planIds: Array<string>;
+  /** Credits this call cost. Same total as the `x-elfa-credits` response header, */
+  credits: number;
+}
+
+export interface Record_string_unknown_ {
+  [key: string]: unknown;
+}
+
+export type JsonObject = Record_string_unknown_;
+
+export interface ApiKeyAutoChatRequestBody {
+  /** Your request in natural language */
+  message: string;
+  /** Response quality mode */
+  speed?: "fast" | "expert" | "adaptive";
+  /** Continue a previous conversation */
+  sessionId?: string;
+}
+
+export interface ApiKeyValidateTradableSymbolResponse {
+  /** Whether the symbol is tradable as a perpetual on the given exchange */
+  supported: "true" | "false";
+}
+
+export interface ApiKeyValidateQueryResponse {
+  /** Whether the query is valid */
+  valid: boolean;
+  /** Validation errors (empty if valid) */
+  errors: Array<string | JsonObject>;
+  /** Validation warnings */
+  warnings: Array<string | JsonObject>;
+  /** Optional cost estimate */
+  estimatedCost?: JsonObject;
+  /** Optional simulation details */
+  simulationLlmCallsEstimate?: JsonObject;
+}
+
+export interface ApiKeyValidateQueryRequestBody {
+  /** EQL query to validate */
+  query: JsonObject;
+  /** Optional title to validate alongside the query. Accepted so agents can */
+  title?: string;
+  /** Optional description to validate alongside the query. See */
+  description?: string;
+}
+
+export interface ApiKeyCreateQueryResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyCreateQueryRequestBody {
+  /** EQL query definition */
+  query: JsonObject;
+  /** Short human-readable title for the query. */
+  title?: string;
+  /** 1–2 sentence description of the thesis or intent behind the trigger. */
+  description?: string;
+}
+
+export type ApiKeyAutoConditionValue = string | number | boolean | null;
+
+export interface ApiKeyAutoConditionState {
+  /** Zero-based condition index from the flattened EQL condition tree */
+  index?: number;
+  /** Data source that produced the value */
+  source?: string;
+  /** Source method that was evaluated */
+  method?: string;
+  /** Public condition arguments with internal source identifiers removed */
+  args?: JsonObject;
+  /** Latest observed value at evaluation time */
+  currentValue?: ApiKeyAutoConditionValue;
+  /** Threshold or comparison value from the EQL condition */
+  targetValue?: ApiKeyAutoConditionValue;
+  /** Comparison operator */
+  operator?: string;
+  /** Whether this condition was met in the latest evaluation */
+  isMet?: boolean;
+  /** ISO timestamp for the condition value */
+  lastUpdated?: string | null;
+  /** Optional evaluator explanation or error reason */
+  reason?: string;
+  /** Linked LLM conversation session, when the condition used an LLM run */
+  conversationSessionId?: string | null;
+  /** Linked Auto/LLM run id, when available */
+  runId?: string | null;
+  /** Whether the condition value came from cache */
+  cacheHit?: boolean;
+}
+
+export interface ApiKeyPollQueryLatestEvaluation {
+  /** ISO timestamp of the latest evaluation */
+  evaluatedAt: string | null;
+  /** Per-condition values from the latest evaluation snapshot */
+  conditionStates: Array<ApiKeyAutoConditionState>;
+  /** Whether the latest evaluation would trigger at that time */
+  wouldTriggerNow: boolean | null;
+  /** Number of conditions that matched in the latest evaluation */
+  matchingConditions: number | null;
+  /** Total number of conditions evaluated */
+  totalConditions: number | null;
+}
+
+export interface ApiKeyAutoExecutionDetails {
+  /** Notification/webhook/Telegram delivery summary, when applicable */
+  notification?: JsonObject | null;
+  /** LLM action summary, when applicable */
+  llm?: JsonObject | null;
+  /** Auto action summary, when applicable */
+  auto?: JsonObject | null;
+  /** Script action summary, when applicable */
+  script?: JsonObject | null;
+}
+
+export interface ApiKeyAutoExecutionError {
+  /** Stable error code */
+  code?: string | null;
+  /** Human-readable error message */
+  message?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ApiKeyAutoTriggerCondition {
+  /** Data source that fired */
+  source: string;
+  /** Source method that fired */
+  method?: string;
+  /** Public condition arguments with internal source identifiers removed */
+  args?: JsonObject;
+  /** Comparison operator */
+  operator?: string;
+  /** Threshold or comparison value from the EQL condition */
+  value?: ApiKeyAutoConditionValue;
+}
+
+export interface ApiKeyAutoTriggerMatch {
+  /** Numeric/string/boolean value observed when the trigger fired */
+  observedValue?: ApiKeyAutoConditionValue;
+  /** Public source URL for semantic tweet/news/Telegram matches, when available */
+  url?: string;
+  /** Source event timestamp for semantic matches */
+  mentionedAt?: string;
+  /** Semantic match confidence, when available */
+  confidence?: number;
+  /** Public account handle for news/tweet matches, when available */
+  accountHandle?: string;
+  /** Public Telegram chat username, when available */
+  chatUsername?: string;
+  /** Public Telegram chat title, when available */
+  chatTitle?: string;
+  /** Public Telegram message id, when available */
+  messageId?: string;
+  /** Public Telegram grouped message ids, when available */
+  messageIds?: Array<string>;
+  /** Public Telegram group id, when available */
+  groupId?: string;
+  [key: string]: unknown;
+}
+
+export interface ApiKeyAutoMatchedCondition {
+  /** Public condition definition that matched */
+  condition: ApiKeyAutoTriggerCondition;
+  /** Public match details, including observedValue for numeric conditions */
+  match?: ApiKeyAutoTriggerMatch;
+}
+
+export interface ApiKeyAutoTriggerPayload {
+  /** Trigger category, e.g. price, poll, cron, or event */
+  type?: string;
+  /** ISO timestamp when the trigger fired */
+  time?: string;
+  /** Conditions that were met when the trigger fired */
+  matchedConditions?: Array<ApiKeyAutoMatchedCondition>;
+}
+
+export interface ApiKeyPollQueryExecution {
+  /** ISO timestamp when the Auto query fired */
+  triggerTime?: string;
+  /** Number of conditions met when the Auto query fired */
+  conditionsMet?: number;
+  /** Canonical public trigger context for why the query fired */
+  trigger?: ApiKeyAutoTriggerPayload;
+  /** Execution identifier */
+  id: string;
+  /** Query identifier */
+  queryId: string;
+  /** Execution type */
+  type: string;
+  /** Execution status */
+  status: string;
+  /** Public execution details summary */
+  details?: ApiKeyAutoExecutionDetails;
+  /** Execution creation timestamp */
+  createdAt: string;
+  /** Optional execution error object from Athena (when present) */
+  error?: ApiKeyAutoExecutionError | null;
+}
+
+export interface ApiKeyPollQueryResponse {
+  /** Query identifier */
+  queryId: string;
+  /** Current query status */
+  status: string;
+  /** Latest condition evaluation snapshot */
+  latestEvaluation: ApiKeyPollQueryLatestEvaluation | null;
+  /** List of executions triggered by this query */
+  executions: Array<ApiKeyPollQueryExecution>;
+  /** Aggregated LLM credits from sessions linked to this query */
+  credits?: number;
+}
+
+export interface ApiKeyCancelQueryResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyDeleteQueryResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyAutoSessionSummary {
+  /** Session identifier */
+  sessionId: string;
+  /** Session status */
+  status: string | null;
+  /** Execution timestamp */
+  executedAt: string;
+}
+
+export interface ApiKeyListSessionsResponse {
+  /** Query identifier */
+  queryId?: string;
+  /** List of LLM output sessions */
+  sessions: Array<ApiKeyAutoSessionSummary>;
+  [key: string]: unknown;
+}
+
+export interface ApiKeyGetSessionResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyListQueriesResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyListQueryDraftsResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyGetQueryDraftResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyUpsertQueryDraftResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyUpsertQueryDraftRequestBody {
+  /** Optional draft identifier for update */
+  id?: string;
+  /** Draft query body */
+  query: JsonObject;
+  /** Short human-readable title for the draft. */
+  title?: string;
+  /** 1–2 sentence description of the thesis or intent behind the draft. */
+  description?: string;
+}
+
+export interface ApiKeyDeleteQueryDraftResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyConvertQueryDraftResponse {
+  [key: string]: unknown;
+}
+
+export interface ApiKeyAutoExecution {
+  /** ISO timestamp when the Auto query fired */
+  triggerTime?: string;
+  /** Number of conditions met when the Auto query fired */
+  conditionsMet?: number;
+  /** Canonical public trigger context for why the query fired */
+  trigger?: ApiKeyAutoTriggerPayload;
+  /** Execution identifier */
+  id?: string;
+  /** Query identifier */
+  queryId?: string;
+  /** Execution type */
+  type?: string;
+  /** Execution status */
+  status?: string;
+  /** Public execution details summary */
+  details?: ApiKeyAutoExecutionDetails;
+  /** Optional execution error object from Athena (when present) */
+  error?: ApiKeyAutoExecutionError | null;
+  /** Execution creation timestamp */
+  createdAt?: string;
+  /** Full Athena audit details; returned by the single-execution endpoint */
+  auditDetails?: JsonObject;
+  /** Action configuration snapshot; returned by the single-execution endpoint */
+  actionSnapshot?: JsonObject;
+  /** Execution context with user identity stripped */
+  executionContext?: JsonObject;
+  /** External event records linked to the execution */
+  externalEvents?: Array<JsonObject>;
+  /** Sanitized notification outbox delivery metadata linked to the execution */
+  notificationOutbox?: Array<JsonObject>;
+  /** Execution schema version */
+  schemaVersion?: number;
+  /** Last update timestamp */
+  updatedAt?: string;
+  /** Completion timestamp, if finished */
+  finishedAt?: string | null;
+}
+
+export interface ApiKeyAutoPagination {
+  /** Total matching records */
+  total?: number;
+  /** Page size */
+  limit?: number;
+  /** Offset used for the page */
+  offset?: number;
+  /** Whether another page exists */
+  hasMore?: boolean;
+}
+
+export interface ApiKeyListExecutionsResponse {
+  /** Execution records */
+  data: Array<ApiKeyAutoExecution>;
+  /** Pagination metadata */
+  pagination?: ApiKeyAutoPagination;
+}
+
+export type ApiKeyGetExecutionResponse = ApiKeyAutoExecution;
+
+export interface GetTrendingTokensParams {
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  pageSize?: number;
+  minMentions?: number;
+}
+
+export interface GetAccountSmartStatsParams {
+  username: string;
+}
+
+export interface GetTopMentionsParams {
+  ticker: string;
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  pageSize?: number;
+  reposts?: boolean;
+}
+
+export interface GetKeywordMentionsParams {
+  keywords?: string;
+  accountName?: string;
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+  searchType?: string;
+  cursor?: string;
+  reposts?: boolean;
+}
+
+export interface GetEventSummaryParams {
+  keywords: string;
+  from?: number;
+  to?: number;
+  timeWindow?: string;
+  searchType?: string;
+}
+
+export interface GetTrendingNarrativesParams {
+  timeFrame?: "day" | "week";
+  maxNarratives?: number;
+  maxTweetsPerNarrative?: number;
+}
+
+export interface GetTokenNewsParams {
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  pageSize?: number;
+  coinIds?: string;
+  reposts?: boolean;
+}
+
+export interface GetTrendingCAsTwitterParams {
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  pageSize?: number;
+  minMentions?: number;
+}
+
+export interface GetTrendingCAsTelegramParams {
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  pageSize?: number;
+  minMentions?: number;
+}
+
+export interface AutoListQueriesParams {
+  status?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AutoListQueryDraftsParams {
+  status?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AutoListExecutionsParams {
+  queryId?: string;
+  status?: string;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface GeneratedRequest {
+  query?: object;
+  body?: unknown;
+}
+
+/** One stub per `/v2/*` operation, over an injected `request`. */
+export abstract class GeneratedV2Api {
+  protected abstract request<T>(
+    method: string,
+    path: string,
+    request: GeneratedRequest,
+  ): Promise<T>;
+
+  /** GET /v2/ping (`ping-v2`) */
+  public ping(): Promise<PingResponseV2> {
+    return this.request("GET", "/v2/ping", {});
+  }
+
+  /** GET /v2/key-status (`getApiKeyStatus-v2`) */
+  public getApiKeyStatus(): Promise<ApiKeyStatusResponseV2> {
+    return this.request("GET", "/v2/key-status", {});
+  }
+
+  /** GET /v2/aggregations/trending-tokens (`getTrendingTokens-v2`) */
+  public getTrendingTokens(params: GetTrendingTokensParams = {}): Promise<TrendingTokensResponseV2> {
+    return this.request("GET", "/v2/aggregations/trending-tokens", { query: params });
+  }
+
+  /** GET /v2/account/smart-stats (`getAccountSmartStats-v2`) */
+  public getAccountSmartStats(params: GetAccountSmartStatsParams): Promise<AccountSmartStatsResponseV2> {
+    return this.request("GET", "/v2/account/smart-stats", { query: params });
+  }
+
+  /** GET /v2/data/top-mentions (`getTopMentions-v2`) */
+  public getTopMentions(params: GetTopMentionsParams): Promise<TopMentionsResponseV2> {
+    return this.request("GET", "/v2/data/top-mentions", { query: params });
+  }
+
+  /** GET /v2/data/keyword-mentions (`getKeywordMentions-v2`) */
+  public getKeywordMentions(params: GetKeywordMentionsParams = {}): Promise<KeywordMentionsResponseV2> {
+    return this.request("GET", "/v2/data/keyword-mentions", { query: params });
+  }
+
+  /** GET /v2/data/event-summary (`getEventSummary-v2`) */
+  public getEventSummary(params: GetEventSummaryParams): Promise<EventSummaryResponseV2> {
+    return this.request("GET", "/v2/data/event-summary", { query: params });
+  }
+
+  /** GET /v2/data/trending-narratives (`getTrendingNarratives-v2`) */
+  public getTrendingNarratives(params: GetTrendingNarrativesParams = {}): Promise<TrendingNarrativesResponseV2> {
+    return this.request("GET", "/v2/data/trending-narratives", { query: params });
+  }
+
+  /** GET /v2/data/token-news (`getTokenNews-v2`) */
+  public getTokenNews(params: GetTokenNewsParams = {}): Promise<TokenNewsResponseV2> {
+    return this.request("GET", "/v2/data/token-news", { query: params });
+  }
+
+  /** GET /v2/aggregations/trending-cas/twitter (`getTrendingCAsTwitter-v2`) */
+  public getTrendingCAsTwitter(params: GetTrendingCAsTwitterParams = {}): Promise<TrendingCAsResponseV2> {
+    return this.request("GET", "/v2/aggregations/trending-cas/twitter", { query: params });
+  }
+
+  /** GET /v2/aggregations/trending-cas/telegram (`getTrendingCAsTelegram-v2`) */
+  public getTrendingCAsTelegram(params: GetTrendingCAsTelegramParams = {}): Promise<TrendingCAsResponseV2> {
+    return this.request("GET", "/v2/aggregations/trending-cas/telegram", { query: params });
+  }
+
+  /** POST /v2/chat (`chat-v2`) */
+  public chat(body: ChatRequestBodyV2): Promise<ChatResponseV2> {
+    return this.request("POST", "/v2/chat", { body });
+  }
+
+  /** POST /v2/chat/stream (`chat-stream-v2`) */
+  public chatStream(body: ChatRequestBodyV2): Promise<unknown> {
+    return this.request("POST", "/v2/chat/stream", { body });
+  }
+
+  /** POST /v2/auto/chat (`auto-chat-v2`) */
+  public autoChat(body: ApiKeyAutoChatRequestBody): Promise<ApiKeyAutoChatResponse> {
+    return this.request("POST", "/v2/auto/chat", { body });
+  }
+
+  /** GET /v2/auto/validate-symbol/{exchange}/{symbol} (`auto-validate-symbol-v2`) */
+  public autoValidateSymbol(exchange: "hyperliquid" | "gmx" | "binance" | "pacifica", symbol: string): Promise<ApiKeyValidateTradableSymbolResponse> {
+    return this.request("GET", `/v2/auto/validate-symbol/${encodeURIComponent(String(exchange))}/${encodeURIComponent(String(symbol))}`, {});
+  }
+
+  /** POST /v2/auto/queries/validate (`auto-validate-query-v2`) */
+  public autoValidateQuery(body: ApiKeyValidateQueryRequestBody): Promise<ApiKeyValidateQueryResponse> {
+    return this.request("POST", "/v2/auto/queries/validate", { body });
+  }
+
+  /** GET /v2/auto/queries (`auto-list-queries-v2`) */
+  public autoListQueries(params: AutoListQueriesParams = {}): Promise<ApiKeyListQueriesResponse> {
+    return this.request("GET", "/v2/auto/queries", { query: params });
+  }
+
+  /** POST /v2/auto/queries (`auto-create-query-v2`) */
+  public autoCreateQuery(body: ApiKeyCreateQueryRequestBody): Promise<ApiKeyCreateQueryResponse> {
+    return this.request("POST", "/v2/auto/queries", { body });
+  }
+
+  /** GET /v2/auto/queries/{queryId} (`auto-poll-query-v2`) */
+  public autoPollQuery(queryId: string): Promise<ApiKeyPollQueryResponse> {
+    return this.request("GET", `/v2/auto/queries/${encodeURIComponent(String(queryId))}`, {});
+  }
+
+  /** DELETE /v2/auto/queries/{queryId} (`auto-delete-query-v2`) */
+  public autoDeleteQuery(queryId: string): Promise<ApiKeyDeleteQueryResponse> {
+    return this.request("DELETE", `/v2/auto/queries/${encodeURIComponent(String(queryId))}`, {});
+  }
+
+  /** GET /v2/auto/queries/stream (`auto-stream-queries-v2`) */
+  public autoStreamQueries(): Promise<unknown> {
+    return this.request("GET", "/v2/auto/queries/stream", {});
+  }
+
+  /** GET /v2/auto/queries/{queryId}/stream (`auto-stream-query-v2`) */
+  public autoStreamQuery(queryId: string): Promise<unknown> {
+    return this.request("GET", `/v2/auto/queries/${encodeURIComponent(String(queryId))}/stream`, {});
+  }
+
+  /** POST /v2/auto/queries/{queryId}/cancel (`auto-cancel-query-v2`) */
+  public autoCancelQuery(queryId: string): Promise<ApiKeyCancelQueryResponse> {
+    return this.request("POST", `/v2/auto/queries/${encodeURIComponent(String(queryId))}/cancel`, {});
+  }
+
+  /** GET /v2/auto/queries/{queryId}/sessions (`auto-list-sessions-v2`) */
+  public autoListSessions(queryId: string): Promise<ApiKeyListSessionsResponse> {
+    return this.request("GET", `/v2/auto/queries/${encodeURIComponent(String(queryId))}/sessions`, {});
+  }
+
+  /** GET /v2/auto/queries/{queryId}/sessions/{sessionId} (`auto-get-session-v2`) */
+  public autoGetSession(queryId: string, sessionId: string): Promise<ApiKeyGetSessionResponse> {
+    return this.request("GET", `/v2/auto/queries/${encodeURIComponent(String(queryId))}/sessions/${encodeURIComponent(String(sessionId))}`, {});
+  }
+
+  /** GET /v2/auto/queries/drafts (`auto-list-query-drafts-v2`) */
+  public autoListQueryDrafts(params: AutoListQueryDraftsParams = {}): Promise<ApiKeyListQueryDraftsResponse> {
+    return this.request("GET", "/v2/auto/queries/drafts", { query: params });
+  }
+
+  /** POST /v2/auto/queries/drafts (`auto-upsert-query-draft-v2`) */
+  public autoUpsertQueryDraft(body: ApiKeyUpsertQueryDraftRequestBody): Promise<ApiKeyUpsertQueryDraftResponse> {
+    return this.request("POST", "/v2/auto/queries/drafts", { body });
+  }
+
+  /** GET /v2/auto/queries/drafts/{draftId} (`auto-get-query-draft-v2`) */
+  public autoGetQueryDraft(draftId: string): Promise<ApiKeyGetQueryDraftResponse> {
+    return this.request("GET", `/v2/auto/queries/drafts/${encodeURIComponent(String(draftId))}`, {});
+  }
+
+  /** DELETE /v2/auto/queries/drafts/{draftId} (`auto-delete-query-draft-v2`) */
+  public autoDeleteQueryDraft(draftId: string): Promise<ApiKeyDeleteQueryDraftResponse> {
+    return this.request("DELETE", `/v2/auto/queries/drafts/${encodeURIComponent(String(draftId))}`, {});
+  }
+
+  /** POST /v2/auto/queries/drafts/{draftId}/validate (`auto-validate-query-draft-v2`) */
+  public autoValidateQueryDraft(draftId: string): Promise<ApiKeyValidateQueryResponse> {
+    return this.request("POST", `/v2/auto/queries/drafts/${encodeURIComponent(String(draftId))}/validate`, {});
+  }
+
+  /** POST /v2/auto/queries/drafts/{draftId}/convert (`auto-convert-query-draft-v2`) */
+  public autoConvertQueryDraft(draftId: string): Promise<ApiKeyConvertQueryDraftResponse> {
+    return this.request("POST", `/v2/auto/queries/drafts/${encodeURIComponent(String(draftId))}/convert`, {});
+  }
+
+  /** GET /v2/auto/executions (`auto-list-executions-v2`) */
+  public autoListExecutions(params: AutoListExecutionsParams = {}): Promise<ApiKeyListExecutionsResponse> {
+    return this.request("GET", "/v2/auto/executions", { query: params });
+  }
+
+  /** GET /v2/auto/executions/{executionId} (`auto-get-execution-v2`) */
+  public autoGetExecution(executionId: string): Promise<ApiKeyGetExecutionResponse> {
+    return this.request("GET", `/v2/auto/executions/${encodeURIComponent(String(executionId))}`, {});
+  }
+}
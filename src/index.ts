@@ -3,13 +3,116 @@ import { ElfaSDK } from "./client/ElfaSDK.js";
 export { ElfaSDK } from "./client/ElfaSDK.js";
 export { ElfaV2Client } from "./client/ElfaV2Client.js";
 export { AutoClient } from "./client/AutoClient.js";
+export { X402Client } from "./client/X402Client.js";
+export type { X402ClientOptions } from "./client/X402Client.js";
+export { X402AutoClient } from "./client/X402AutoClient.js";
+export type { X402AutoClientOptions } from "./client/X402AutoClient.js";
 
 export * from "./types/index.js";
 
 export * from "./utils/errors.js";
 export { PaginationHelper } from "./utils/pagination.js";
+export type { IterateLimits, ItemPage } from "./utils/pagination.js";
+export * from "./utils/eql.js";
+export {
+  isAutoStreamNotification,
+  isAutoStreamEnd,
+  parseAutoStreamEvent,
+} from "./utils/autoEvents.js";
+export {
+  parsePaymentChallenge,
+  withPayment,
+  X402_PAYMENT_HEADER,
+  AGENT_SECRET_HEADER,
+} from "./utils/x402.js";
+export {
+  parseAutoErrorIssues,
+  toAutoError,
+  toEqlPath,
+  toEqlIssues,
+  getEqlPath,
+} from "./utils/autoErrors.js";
+export {
+  explainTrigger,
+  explainMatchedCondition,
+  describeCondition,
+  formatConditionValue,
+} from "./utils/autoTrigger.js";
+export { inspectConditions, renderInspection } from "./utils/autoInspect.js";
+export { MemoryCacheStore } from "./utils/cache.js";
+export type { CacheOptions, CacheStore, CacheEntry } from "./utils/cache.js";
+export { CreditMeter, CREDITS_HEADER } from "./utils/credits.js";
+export type {
+  CreditMeterOptions,
+  CreditMeterEvents,
+  CreditRecord,
+  CreditSource,
+  CreditSummary,
+  CreditTotals,
+  CreditExportFormat,
+} from "./utils/credits.js";
+export { BudgetGuard, isPaidEndpoint } from "./utils/budget.js";
+export type {
+  BudgetOptions,
+  BudgetLimits,
+  BudgetRequest,
+  BudgetUsage,
+  BudgetGuardEvents,
+} from "./utils/budget.js";
+export { KeyStatus } from "./utils/keyStatus.js";
+export type { KeyStatusCounts, KeyStatusWindow } from "./utils/keyStatus.js";
+export { Preflight, DEFAULT_REQUIREMENTS } from "./utils/preflight.js";
+export type {
+  Capabilities,
+  CapabilityRequirement,
+  PreflightOptions,
+} from "./utils/preflight.js";
+export { KeyPool, maskApiKey } from "./utils/keyPool.js";
+export type {
+  KeyPoolOptions,
+  KeyPoolStrategy,
+  KeyPoolEvents,
+  KeyBenchReason,
+  KeyUsage,
+  PoolKey,
+  PoolKeyOptions,
+} from "./utils/keyPool.js";
+export {
+  createFetchTransport,
+  createAxiosTransport,
+} from "./utils/transport.js";
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+  AxiosLike,
+} from "./utils/transport.js";
+export type { Middleware, MiddlewareContext } from "./utils/middleware.js";
+export { Telemetry, TelemetryCall } from "./utils/telemetry.js";
+export type {
+  TelemetryOptions,
+  OpenTelemetryApi,
+  OtelTracer,
+  OtelMeter,
+  OtelSpan,
+} from "./utils/telemetry.js";
+export { createConsoleLogger, redact } from "./utils/logger.js";
+export type {
+  Logger,
+  LogFields,
+  LogLevel,
+  ConsoleLoggerOptions,
+} from "./utils/logger.js";
+export { RateLimiter } from "./utils/limiter.js";
+export type {
+  RateLimiterOptions,
+  RateLimiterEvents,
+  RequestPriority,
+} from "./utils/limiter.js";
 
 export type { SDKOptions } from "./types/options.js";
+export type { SchemaIssue } from "./utils/schema.js";
 
 export type {
   TrendingTokensParams,
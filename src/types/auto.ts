@@ -18,6 +18,55 @@ export type EqlConditionSource =
   | "liquidation"
   | "fear_greed";
 
+/** Sources that produce a numeric series, so they take comparison operators. */
+export type EqlNumericSource =
+  | "price"
+  | "ta"
+  | "kalshi"
+  | "polymarket"
+  | "funding"
+  | "liquidation"
+  | "fear_greed";
+
+/** Sources that fire on an event or schedule rather than a threshold. */
+export type EqlEventSource = Exclude<EqlConditionSource, EqlNumericSource>;
+
+/**
+ * `args` by condition source. The API types `args` as an open object, so
+ * every shape takes fields beyond the ones named here: those are what the
+ * builder's helpers set and what the spec documents per source.
+ */
+export interface EqlSourceArgs {
+  price: EqlArgs<{ symbol: string; exchange?: TradableExchange }>;
+  ta: EqlArgs<{
+    symbol: string;
+    indicator: string;
+    exchange?: TradableExchange;
+  }>;
+  kalshi: EqlArgs<{ market: string }>;
+  polymarket: EqlArgs<{ market: string; outcome?: string }>;
+  funding: EqlArgs<{ symbol: string; exchange?: TradableExchange }>;
+  liquidation: EqlArgs<{ symbol: string; exchange?: TradableExchange }>;
+  fear_greed: Record<string, unknown>;
+  cron: EqlArgs<{ schedule: string; timezone?: string }>;
+  /** With `method: "athena_condition"`; `period` is at least `1h`. */
+  llm: EqlArgs<{ query: string; period?: EqlDuration }>;
+  /** `username` without the `@`; start `minConfidence` at 80. */
+  tweet: EqlArgs<{ username?: string; text?: string; minConfidence?: number }>;
+  telegram: Record<string, unknown>;
+  news: EqlArgs<{ text?: string; minConfidence?: number }>;
+  sec: Record<string, unknown>;
+}
+
+type EqlArgs<T> = T & Record<string, unknown>;
+
+/**
+ * EQL durations: a whole count and a unit, e.g. `"30m"`, `"24h"`, `"7d"`.
+ * The type still lets `"1.5h"` and `"-1h"` through; `validateEqlQuery`
+ * rejects them.
+ */
+export type EqlDuration = `${number}${"s" | "m" | "h" | "d" | "w"}`;
+
 export type EqlActionType = "webhook" | "notify" | "telegram_bot" | "llm";
 
 export interface EqlConditionLeaf {
@@ -70,6 +119,21 @@ export interface AutoQueryInput {
   description?: string;
 }
 
+/** The spec's `ApiKeyAutoValidationErrorDetail`, from a failed Auto call. */
+export interface AutoErrorIssue {
+  /** Request field path, e.g. `body.query.conditions.AND.0.args.symbol`. */
+  field: string;
+  message: string;
+}
+
+/** The spec's `ValidationIssue`: `path` is dotted, e.g. `conditions.AND[0]`. */
+export interface AutoValidationIssue {
+  code: string;
+  message: string;
+  path: string;
+  [key: string]: unknown;
+}
+
 export interface AutoValidateResponse {
   valid: boolean;
   errors: Array<string | Record<string, unknown>>;
@@ -87,6 +151,14 @@ export interface AutoQuery {
   [key: string]: unknown;
 }
 
+/** List pagination as the Auto list endpoints report it. */
+export interface AutoPagination {
+  total?: number;
+  limit?: number;
+  offset?: number;
+  hasMore?: boolean;
+}
+
 export interface AutoListQueriesParams {
   status?: string;
   search?: string;
@@ -100,27 +172,166 @@ export interface AutoListQueriesResponse {
   total?: number;
   limit?: number;
   offset?: number;
-  pagination?: unknown;
+  pagination?: AutoPagination;
+}
+
+/** A threshold, or a value a condition observed. */
+export type AutoConditionValue = string | number | boolean | null;
+
+/** One leaf of the flattened condition tree, as last evaluated. */
+export interface AutoConditionState {
+  /** Zero-based index in the flattened EQL condition tree. */
+  index?: number;
+  source?: string;
+  method?: string;
+  args?: Record<string, unknown>;
+  /** Latest observed value at evaluation time. */
+  currentValue?: AutoConditionValue;
+  /** Threshold or comparison value from the EQL condition. */
+  targetValue?: AutoConditionValue;
+  operator?: string;
+  isMet?: boolean;
+  lastUpdated?: string | null;
+  /** Evaluator explanation or error reason. */
+  reason?: string;
+  /** LLM conversation behind the value, when the condition ran one. */
+  conversationSessionId?: string | null;
+  runId?: string | null;
+  cacheHit?: boolean;
+}
+
+export interface AutoLatestEvaluation {
+  evaluatedAt: string | null;
+  conditionStates: AutoConditionState[];
+  wouldTriggerNow: boolean | null;
+  matchingConditions: number | null;
+  totalConditions: number | null;
+}
+
+/** Per-action summaries; only the kinds the query ran are set. */
+export interface AutoExecutionDetails {
+  notification?: Record<string, unknown> | null;
+  llm?: Record<string, unknown> | null;
+  auto?: Record<string, unknown> | null;
+  script?: Record<string, unknown> | null;
+}
+
+export interface AutoExecutionError {
+  code?: string | null;
+  message?: string | null;
+  [key: string]: unknown;
+}
+
+/** The public definition of a condition that fired. */
+export interface AutoTriggerCondition {
+  source: string;
+  method?: string;
+  args?: Record<string, unknown>;
+  operator?: string;
+  value?: AutoConditionValue;
+}
+
+/**
+ * What a condition matched: `observedValue` for numeric sources, the source
+ * post or message for semantic ones (tweet, news, Telegram).
+ */
+export interface AutoTriggerMatch {
+  observedValue?: AutoConditionValue;
+  url?: string;
+  mentionedAt?: string;
+  confidence?: number;
+  accountHandle?: string;
+  chatUsername?: string;
+  chatTitle?: string;
+  messageId?: string;
+  messageIds?: string[];
+  groupId?: string;
+  [key: string]: unknown;
+}
+
+export interface AutoMatchedCondition {
+  condition: AutoTriggerCondition;
+  match?: AutoTriggerMatch;
+}
+
+/** Why a query fired; render it with `explainTrigger`. */
+export interface AutoTriggerPayload {
+  /** Trigger category, e.g. `price`, `poll`, `cron` or `event`. */
+  type?: string;
+  time?: string;
+  matchedConditions?: AutoMatchedCondition[];
+}
+
+/** An execution as `getQuery` lists it. */
+export interface AutoPollExecution {
+  id: string;
+  queryId: string;
+  type: string;
+  status: string;
+  createdAt: string;
+  triggerTime?: string;
+  /** Number of conditions met when the query fired. */
+  conditionsMet?: number;
+  trigger?: AutoTriggerPayload;
+  details?: AutoExecutionDetails;
+  error?: AutoExecutionError | null;
 }
 
 export interface AutoPollQueryResponse {
   queryId: string;
   status: string;
-  latestEvaluation: {
-    evaluatedAt: string | null;
-    wouldTriggerNow: boolean | null;
-  } | null;
-  executions: Array<{
-    id: string;
-    queryId: string;
-    type: string;
-    status: string;
-    createdAt: string;
-    error?: unknown;
-  }>;
+  latestEvaluation: AutoLatestEvaluation | null;
+  executions: AutoPollExecution[];
   credits?: number;
 }
 
+/** One condition leaf of an `inspectQuery` report. */
+export interface AutoConditionReport {
+  /** Position in the flattened (depth-first) condition tree. */
+  index: number;
+  /** `EqlQuery` path, e.g. `conditions.AND[1].OR[0]`, given the query. */
+  path?: string;
+  /** The leaf as submitted, when the query was supplied. */
+  condition?: EqlConditionLeaf;
+  /** The latest evaluation of the leaf; absent if it has not run yet. */
+  state?: AutoConditionState;
+  currentValue?: AutoConditionValue;
+  targetValue?: AutoConditionValue;
+  operator?: string;
+  isMet?: boolean;
+  /**
+   * `targetValue - currentValue`, when both are numbers: how far the value
+   * has to move to reach the threshold.
+   */
+  distance?: number;
+  /** `distance` as a percentage of `|currentValue|`. */
+  distancePercent?: number;
+}
+
+export type AutoInspectionNode =
+  | {
+      type: "group";
+      op: "AND" | "OR";
+      path: string;
+      /** Derived from the leaves; absent while any deciding leaf is unknown. */
+      isMet?: boolean;
+      children: AutoInspectionNode[];
+    }
+  | { type: "leaf"; path: string; report: AutoConditionReport };
+
+export interface AutoQueryInspection {
+  queryId: string;
+  status: string;
+  evaluatedAt: string | null;
+  wouldTriggerNow: boolean | null;
+  matchingConditions: number | null;
+  totalConditions: number | null;
+  /** Every leaf, in flattened order. */
+  conditions: AutoConditionReport[];
+  /** The reports arranged as the query's `conditions` tree, when supplied. */
+  tree?: AutoInspectionNode;
+}
+
 export interface AutoDraft {
   id?: string;
   title?: string;
@@ -151,7 +362,7 @@ export interface AutoListDraftsResponse {
   total?: number;
   limit?: number;
   offset?: number;
-  pagination?: unknown;
+  pagination?: AutoPagination;
 }
 
 export interface AutoListSessionsResponse {
@@ -180,14 +391,29 @@ export interface AutoSession {
   }>;
 }
 
+/**
+ * An execution from `getExecution` / `listExecutions`. The audit, snapshot
+ * and outbox fields come back on the single-execution endpoint only.
+ */
 export interface AutoExecution {
   id?: string;
-  status?: string;
-  createdAt?: string;
   queryId?: string;
   type?: string;
-  error?: unknown;
-  [key: string]: unknown;
+  status?: string;
+  createdAt?: string;
+  triggerTime?: string;
+  conditionsMet?: number;
+  trigger?: AutoTriggerPayload;
+  details?: AutoExecutionDetails;
+  error?: AutoExecutionError | null;
+  auditDetails?: Record<string, unknown>;
+  actionSnapshot?: Record<string, unknown>;
+  executionContext?: Record<string, unknown>;
+  externalEvents?: Array<Record<string, unknown>>;
+  notificationOutbox?: Array<Record<string, unknown>>;
+  schemaVersion?: number;
+  updatedAt?: string;
+  finishedAt?: string | null;
 }
 
 export interface AutoListExecutionsParams {
@@ -200,7 +426,7 @@ export interface AutoListExecutionsParams {
 
 export interface AutoListExecutionsResponse {
   data: AutoExecution[];
-  pagination?: unknown;
+  pagination?: AutoPagination;
 }
 
 export type TradableExchange = "hyperliquid" | "gmx" | "binance" | "pacifica";
@@ -217,12 +443,96 @@ export interface AutoStreamNotification {
   timestamp: number;
   executionId?: string;
   triggerTime?: string;
-  conditionsMet?: unknown;
-  autoDetails?: unknown;
+  conditionsMet?: number;
+  /** The execution's action summaries, as `AutoExecution.details`. */
+  autoDetails?: AutoExecutionDetails | null;
+}
+
+/** `end` payload; per-query streams also say which terminal status ended it. */
+export interface AutoStreamEnd {
+  code: string;
+  status?: string;
+  queryId?: string;
+}
+
+export interface AutoStreamHeartbeat {
+  timestamp?: number;
+  [key: string]: unknown;
+}
+
+export interface AutoStreamError {
+  message?: string;
+  code?: string;
+  [key: string]: unknown;
 }
 
-export interface AutoStreamEvent {
+/** Stands in for a frame whose payload did not match its event's shape. */
+export interface AutoStreamParseError {
+  /** The event name the server sent. */
   event: string;
-  data: Record<string, unknown>;
+  message: string;
+  /** The frame's `data` as received. */
+  raw: string;
+}
+
+interface AutoStreamFrame<E extends string, D> {
+  event: E;
+  data: D;
   id?: string;
 }
+
+/**
+ * One Auto stream event, discriminated on `event`. Frames without an event
+ * name arrive as `message`; names the SDK does not know yet as `unknown`,
+ * with the original in `name`.
+ */
+export type AutoStreamEvent =
+  | AutoStreamFrame<"notification", AutoStreamNotification>
+  | AutoStreamFrame<"heartbeat", AutoStreamHeartbeat>
+  | AutoStreamFrame<"end", AutoStreamEnd>
+  | AutoStreamFrame<"error", AutoStreamError>
+  | AutoStreamFrame<"parse_error", AutoStreamParseError>
+  | AutoStreamFrame<"message", Record<string, unknown>>
+  | (AutoStreamFrame<"unknown", Record<string, unknown>> & { name: string });
+
+export type AutoStreamEventType = AutoStreamEvent["event"];
+
+export type AutoStreamState = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface AutoStreamStateChange {
+  state: AutoStreamState;
+  /** Reconnection attempt, counted from 1; 0 for the first connection. */
+  attempt: number;
+  /** Wait before the next attempt, on `reconnecting`. */
+  delayMs?: number;
+  /** Why the connection dropped, on `reconnecting` and `closed`. */
+  error?: Error;
+  lastEventId?: string;
+}
+
+export interface AutoReconnectOptions {
+  /** First backoff in ms, doubled per attempt. Default 1000. */
+  initialDelay?: number;
+  /** Backoff ceiling in ms. Default 30000. */
+  maxDelay?: number;
+  /** Consecutive failed attempts before giving up. Default unlimited. */
+  maxAttempts?: number;
+}
+
+export interface AutoStreamOptions {
+  signal?: AbortSignal;
+  /**
+   * Reconnect when the connection drops instead of ending the stream, resuming
+   * from the last event id. Off by default.
+   */
+  reconnect?: boolean | AutoReconnectOptions;
+  /** Resume after this event id, e.g. one persisted by a previous worker. */
+  lastEventId?: string;
+  /**
+   * ms without any bytes from the server, heartbeats included, before the
+   * connection counts as dropped. Defaults to the client's `timeout`; 0 waits
+   * forever.
+   */
+  idleTimeout?: number;
+  onStateChange?: (change: AutoStreamStateChange) => void;
+}
@@ -1,3 +1,5 @@
+import type { KeyStatus } from "../utils/keyStatus.js";
+
 /** `ApiKeyStatusDataV2.billingMode` enumerates these in the spec. */
 export type BillingMode = "deposit" | "arrears";
 
@@ -80,6 +82,11 @@ export interface ApiKeyStatusResponse {
   data: ApiKeyStatus | ApiKeyStatusData;
 }
 
+/** What `getApiKeyStatus()` returns: the response plus its normalised view. */
+export interface KeyStatusResponse extends ApiKeyStatusResponse {
+  keyStatus: KeyStatus;
+}
+
 export interface TrendingToken {
   change_percent: number;
   previous_count: number;
@@ -233,6 +240,9 @@ export interface TokenNewsParams {
   reposts?: boolean;
 }
 
+/** Where `iterateTrendingCAs` reads from. */
+export type TrendingCAsSource = "twitter" | "telegram";
+
 export interface TrendingCAsParams {
   timeWindow?: string;
   from?: number;
@@ -301,3 +311,59 @@ export interface TrendingNarrativesParams {
   maxNarratives?: number;
   maxTweetsPerNarrative?: number;
 }
+
+/**
+ * A tweet backing an insight, as a link: the spec's `content` is raw tweet
+ * text, which the SDK does not expose. The insights schemas are in the spec,
+ * but no endpoint returns them yet, so there are no methods for them.
+ */
+export interface InsightSupportingTweet {
+  author: {
+    name: string;
+    username: string;
+  };
+  timestamp: number;
+  url: string;
+}
+
+export interface InsightsMetadata {
+  offset: number;
+  limit: number;
+  from: number;
+  to: number;
+  total: number;
+}
+
+export interface TokenInsight {
+  cgCoinId: string;
+  title: string;
+  description: string;
+  /** Free-form; the spec does not list its values. */
+  sentiment: string;
+  timestamp: number;
+  link: string;
+  supportingTweets: InsightSupportingTweet[];
+}
+
+export interface TokenInsightsResponse {
+  data: TokenInsight[];
+  metadata: InsightsMetadata;
+}
+
+/** An insight on a contract address, keyed by `chain` and `contractAddress`. */
+export interface Insight {
+  chain: string;
+  contractAddress: string;
+  title: string;
+  description: string;
+  /** Free-form; the spec does not list its values. */
+  sentiment: string;
+  timestamp: number;
+  link: string;
+  supportingTweets: InsightSupportingTweet[];
+}
+
+export interface InsightsResponse {
+  data: Insight[];
+  metadata: InsightsMetadata;
+}
@@ -2,3 +2,4 @@ export * from "./elfa.js";
 export * from "./options.js";
 export * from "./chat.js";
 export * from "./auto.js";
+export * from "./x402.js";
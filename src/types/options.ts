@@ -1,3 +1,19 @@
+import type { CacheOptions } from "../utils/cache.js";
+import type { IterateLimits } from "../utils/pagination.js";
+import type { CreditMeter, CreditMeterOptions } from "../utils/credits.js";
+import type { BudgetGuard, BudgetOptions } from "../utils/budget.js";
+import type { PreflightOptions } from "../utils/preflight.js";
+import type { KeyPool, KeyPoolOptions } from "../utils/keyPool.js";
+import type { Transport } from "../utils/transport.js";
+import type { Middleware } from "../utils/middleware.js";
+import type { Telemetry, TelemetryOptions } from "../utils/telemetry.js";
+import type { Logger } from "../utils/logger.js";
+import type {
+  RateLimiter,
+  RateLimiterOptions,
+  RequestPriority,
+} from "../utils/limiter.js";
+
 export interface SDKOptions {
   elfaApiKey: string;
   hmacSecret?: string;
@@ -7,4 +23,85 @@ export interface SDKOptions {
   retryDelay?: number;
   headers?: Record<string, string>;
   debug?: boolean;
+  /**
+   * Receives the SDK's logs, with secrets redacted. Defaults to the console:
+   * everything with `debug`, warnings only without.
+   */
+  logger?: Logger;
+  /** Opt-in response cache for data GETs. Auto requests are never cached. */
+  cache?: CacheOptions;
+  /**
+   * Client-side rate limiting shared by every client. Pass options, or a
+   * `RateLimiter` to share one budget across several SDK instances.
+   */
+  rateLimit?: RateLimiterOptions | RateLimiter;
+  /** Share one request among concurrent identical GETs. Default true. */
+  dedupe?: boolean;
+  /**
+   * Check data responses against a schema per endpoint: `warn` logs a drift
+   * report, `strict` throws `ResponseValidationError`. Default `off`.
+   */
+  validateResponses?: ResponseValidationMode;
+  /**
+   * Options for `sdk.credits`, or a `CreditMeter` to total spend across
+   * several SDK instances.
+   */
+  credits?: CreditMeterOptions | CreditMeter;
+  /**
+   * Credit ceilings per minute, hour and day, overall and per tag. Calls that
+   * would break one throw `BudgetExceededError` before they are sent. Pass a
+   * `BudgetGuard` to share one budget across several SDK instances.
+   */
+  budget?: BudgetOptions | BudgetGuard;
+  /**
+   * Fetch key status once and refuse calls the key lacks the scope or Auto
+   * access for with `InsufficientScopeError`, before they are sent. With a
+   * `keyPool`, only `elfaApiKey`'s status is checked, whichever key a call
+   * goes out on. Default false; `sdk.capabilities()` works either way.
+   */
+  preflight?: boolean | PreflightOptions;
+  /**
+   * More keys to spread requests across, alongside `elfaApiKey` (paired with
+   * `hmacSecret`). Pass a `KeyPool` to use exactly its keys.
+   */
+  keyPool?: KeyPoolOptions | KeyPool;
+  /**
+   * Sends every request, JSON and SSE alike. Defaults to `fetch`; see
+   * `createFetchTransport` and `createAxiosTransport`.
+   */
+  transport?: Transport;
+  /** Middleware in place from the start; `sdk.use` adds more. */
+  middleware?: Middleware[];
+  /**
+   * OpenTelemetry spans and metrics for every call and stream. Pass
+   * `{ api }` with `@opentelemetry/api`, or a `Telemetry` to share.
+   */
+  telemetry?: TelemetryOptions | Telemetry;
 }
+
+export type ResponseValidationMode = "off" | "warn" | "strict";
+
+/** Per-call options, accepted as the last argument of the data methods. */
+export interface RequestOptions {
+  /** `false` bypasses the response cache for this call. */
+  cache?: boolean;
+  /** Rate-limiter lane for this call. */
+  priority?: RequestPriority;
+  /** Cancels the request; an aborted call is never retried. */
+  signal?: AbortSignal;
+  /** Attributes this call's credits to a tag in `sdk.credits`. */
+  tag?: string;
+  /**
+   * Expected cost of this call, checked against `budget`. Defaults to the
+   * budget's `defaultEstimate`; Auto creations ask the API for an estimate.
+   */
+  estimatedCredits?: number;
+  /** Sends this call with the named `keyPool` key, without failover. */
+  poolKey?: string;
+}
+
+/**
+ * Options for the `iterate*` methods. Pages are requested in the `low`
+ * rate-limiter lane unless `priority` says otherwise.
+ */
+export interface IterateOptions extends RequestOptions, IterateLimits {}
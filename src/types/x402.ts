@@ -0,0 +1,66 @@
+import type { ChatParams } from "./chat.js";
+
+/**
+ * One way to pay for a request, as listed in a 402 challenge's `accepts`.
+ * Field names follow the x402 protocol; amounts are strings in the asset's
+ * smallest unit.
+ */
+export interface X402PaymentRequirements {
+  scheme: string;
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  description?: string;
+  mimeType?: string;
+  payTo: string;
+  maxTimeoutSeconds?: number;
+  asset: string;
+  extra?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** The body of a `402 Payment Required` response. */
+export interface X402PaymentChallenge {
+  x402Version: number;
+  accepts: X402PaymentRequirements[];
+  error?: string;
+}
+
+/** What a payment signer is asked to pay for. */
+export interface X402PaymentRequest {
+  method: string;
+  /** Full URL of the request, query string included. */
+  url: string;
+  x402Version: number;
+  requirements: X402PaymentRequirements[];
+}
+
+/**
+ * Builds the `X-PAYMENT` header value for a challenge: pick one of
+ * `requirements`, sign a payment for it with your wallet, and return the
+ * encoded payload. The SDK holds no keys and moves no funds itself.
+ */
+export type X402PaymentSigner = (
+  request: X402PaymentRequest,
+) => Promise<string> | string;
+
+/** `/x402/v2/chat` takes the `/v2/chat` body, but without `adaptive` speed. */
+export interface X402ChatParams extends Omit<ChatParams, "speed"> {
+  speed?: "fast" | "expert";
+}
+
+export interface X402AutoChatParams {
+  message: string;
+  speed?: "fast" | "expert";
+  sessionId?: string;
+}
+
+export interface X402AutoChatResponse {
+  success: boolean;
+  data: {
+    creditsConsumed: number;
+    sessionId: string;
+    /** Markdown; generated EQL arrives in a JSON code block. */
+    message: string;
+  };
+}
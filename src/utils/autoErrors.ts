@@ -0,0 +1,99 @@
+import {
+  AutoApiError,
+  AutoValidationError,
+  type ElfaApiError,
+} from "./errors.js";
+import type {
+  AutoErrorIssue,
+  AutoValidationIssue,
+  EqlQuery,
+} from "../types/auto.js";
+
+/** Statuses the Auto routes use for a request body they reject. */
+const VALIDATION_STATUSES = new Set([400, 422]);
+
+/**
+ * The `{ field, message }` entries of an `ApiKeyAutoErrorResponse`. Its
+ * `details` may also be a string or a free-form object; those carry no
+ * field-level issues and yield `[]`.
+ */
+export function parseAutoErrorIssues(body: unknown): AutoErrorIssue[] {
+  const details =
+    body && typeof body === "object"
+      ? (body as Record<string, unknown>).details
+      : undefined;
+  if (!Array.isArray(details)) return [];
+
+  return details.filter(
+    (entry): entry is AutoErrorIssue =>
+      !!entry &&
+      typeof entry === "object" &&
+      typeof entry.field === "string" &&
+      typeof entry.message === "string",
+  );
+}
+
+/**
+ * Re-types an `ElfaApiError` from an Auto route as `AutoApiError`, or
+ * `AutoValidationError` for a rejected body. Anything else — auth, rate
+ * limit, payment, network — passes through unchanged.
+ */
+export function toAutoError(error: unknown): unknown {
+  if (!(error instanceof Error) || error.name !== "ElfaApiError") return error;
+
+  const { message, statusCode, details } = error as ElfaApiError;
+  const issues = parseAutoErrorIssues(details);
+  const status = statusCode ?? 0;
+  return VALIDATION_STATUSES.has(status)
+    ? new AutoValidationError(message, status, details, issues)
+    : new AutoApiError(message, status, details, issues);
+}
+
+/**
+ * The `EqlQuery` path a server `field` points at, in `validateEqlQuery`'s
+ * notation: `body.query.conditions.AND.0.args` → `conditions.AND[0].args`.
+ * `undefined` when the field is outside the query (e.g. `body.title`).
+ */
+export function toEqlPath(field: string): string | undefined {
+  const segments = field.replace(/\[(\d+)\]/g, ".$1").split(".");
+  if (segments[0] === "body") segments.shift();
+  if (segments[0] !== "query") return undefined;
+  segments.shift();
+
+  return segments
+    .filter((segment) => segment !== "")
+    .reduce(
+      (path, segment) =>
+        /^\d+$/.test(segment)
+          ? `${path}[${segment}]`
+          : path
+            ? `${path}.${segment}`
+            : segment,
+      "",
+    );
+}
+
+/**
+ * Server issues as `AutoValidationIssue`s, so they render alongside
+ * `validateEqlQuery` output. Issues outside the query keep their raw `field`
+ * as `path`.
+ */
+export function toEqlIssues(issues: AutoErrorIssue[]): AutoValidationIssue[] {
+  return issues.map((issue) => ({
+    code: "server_validation",
+    path: toEqlPath(issue.field) ?? issue.field,
+    message: issue.message,
+    field: issue.field,
+  }));
+}
+
+/** The node of `query` at an `EqlQuery` path, or `undefined` if absent. */
+export function getEqlPath(query: EqlQuery, path: string): unknown {
+  if (path === "") return query;
+  let node: unknown = query;
+  for (const segment of path.replace(/\[(\d+)\]/g, ".$1").split(".")) {
+    if (!node || typeof node !== "object") return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
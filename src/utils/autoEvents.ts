@@ -0,0 +1,86 @@
+import type { SSEMessage } from "./sse.js";
+import type {
+  AutoStreamEnd,
+  AutoStreamEvent,
+  AutoStreamNotification,
+} from "../types/auto.js";
+
+const NOTIFICATION_STATUSES = new Set([
+  "triggered",
+  "stopped",
+  "ended",
+  "update",
+]);
+
+export function isAutoStreamNotification(
+  value: unknown,
+): value is AutoStreamNotification {
+  return (
+    isObject(value) &&
+    typeof value.status === "string" &&
+    NOTIFICATION_STATUSES.has(value.status) &&
+    typeof value.title === "string" &&
+    typeof value.body === "string" &&
+    typeof value.queryId === "string" &&
+    typeof value.timestamp === "number"
+  );
+}
+
+export function isAutoStreamEnd(value: unknown): value is AutoStreamEnd {
+  return isObject(value) && typeof value.code === "string";
+}
+
+/**
+ * Payload checks per known event name; the rest only need an object. A Map,
+ * so a name like `constructor` is not found on the prototype.
+ */
+const GUARDS = new Map<string, (value: unknown) => boolean>([
+  ["notification", isAutoStreamNotification],
+  ["end", isAutoStreamEnd],
+  ["heartbeat", isObject],
+  ["error", isObject],
+  ["message", isObject],
+]);
+
+/**
+ * Turns one SSE frame into a typed `AutoStreamEvent`. Never throws: a payload
+ * that is not JSON, or not the shape its event promises, becomes a
+ * `parse_error` event carrying the raw frame.
+ */
+export function parseAutoStreamEvent(message: SSEMessage): AutoStreamEvent {
+  const name = message.event ?? "message";
+  let event: AutoStreamEvent;
+
+  let data: unknown = {};
+  let failure: string | undefined;
+  if (message.data) {
+    try {
+      data = JSON.parse(message.data);
+    } catch (error) {
+      failure = `Invalid JSON in ${name} event: ${(error as Error).message}`;
+    }
+  }
+
+  const guard = GUARDS.get(name) ?? isObject;
+  if (failure === undefined && !guard(data)) {
+    failure = `Unexpected ${name} payload`;
+  }
+
+  if (failure !== undefined) {
+    event = {
+      event: "parse_error",
+      data: { event: name, message: failure, raw: message.data },
+    };
+  } else if (GUARDS.has(name)) {
+    event = { event: name, data } as AutoStreamEvent;
+  } else {
+    event = { event: "unknown", name, data: data as Record<string, unknown> };
+  }
+
+  if (message.id !== undefined) event.id = message.id;
+  return event;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
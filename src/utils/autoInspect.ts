@@ -0,0 +1,232 @@
+import { isConditionGroup, type EqlCondition } from "./eql.js";
+import { describeCondition, formatConditionValue } from "./autoTrigger.js";
+import type {
+  AutoConditionReport,
+  AutoConditionState,
+  AutoInspectionNode,
+  AutoPollQueryResponse,
+  AutoQueryInspection,
+  EqlConditionGroup,
+  EqlConditionLeaf,
+  EqlQuery,
+} from "../types/auto.js";
+
+interface FlatLeaf {
+  path: string;
+  leaf: EqlConditionLeaf;
+}
+
+/** Leaves in the server's flattened order: depth-first, left to right. */
+function flattenLeaves(node: EqlCondition, path: string): FlatLeaf[] {
+  if (!isConditionGroup(node)) return [{ path, leaf: node }];
+  const op = "AND" in node ? "AND" : "OR";
+  const children = (node as Record<typeof op, EqlCondition[]>)[op];
+  return children.flatMap((child, index) =>
+    flattenLeaves(child, `${path}.${op}[${index}]`),
+  );
+}
+
+function toReport(
+  index: number,
+  state: AutoConditionState | undefined,
+  flat: FlatLeaf | undefined,
+): AutoConditionReport {
+  const report: AutoConditionReport = { index };
+  // A leaf whose source disagrees with the state is not the one evaluated
+  if (flat && (!state?.source || state.source === flat.leaf.source)) {
+    report.path = flat.path;
+    report.condition = flat.leaf;
+  }
+  if (!state) return report;
+
+  report.state = state;
+  if (state.currentValue !== undefined)
+    report.currentValue = state.currentValue;
+  if (state.targetValue !== undefined) report.targetValue = state.targetValue;
+  if (state.operator !== undefined) report.operator = state.operator;
+  if (state.isMet !== undefined) report.isMet = state.isMet;
+
+  const { currentValue, targetValue } = state;
+  if (typeof currentValue === "number" && typeof targetValue === "number") {
+    report.distance = targetValue - currentValue;
+    if (currentValue !== 0) {
+      report.distancePercent = (report.distance / Math.abs(currentValue)) * 100;
+    }
+  }
+  return report;
+}
+
+/** AND is met when every child is, OR when any is; unknown leaves undecided. */
+function groupMet(op: "AND" | "OR", met: Array<boolean | undefined>) {
+  const decisive = op === "AND" ? false : true;
+  if (met.includes(decisive)) return decisive;
+  return met.every((value) => value !== undefined) ? !decisive : undefined;
+}
+
+function buildTree(
+  node: EqlCondition,
+  path: string,
+  reports: AutoConditionReport[],
+  next: { index: number },
+): AutoInspectionNode {
+  if (!isConditionGroup(node)) {
+    const report = reports[next.index++] ?? { index: next.index - 1 };
+    return { type: "leaf", path, report };
+  }
+
+  const op = "AND" in node ? "AND" : "OR";
+  const children = (node as Record<typeof op, EqlCondition[]>)[op].map(
+    (child, index) =>
+      buildTree(child, `${path}.${op}[${index}]`, reports, next),
+  );
+  const group: AutoInspectionNode = { type: "group", op, path, children };
+  const isMet = groupMet(
+    op,
+    children.map((child) =>
+      child.type === "leaf" ? child.report.isMet : child.isMet,
+    ),
+  );
+  if (isMet !== undefined) group.isMet = isMet;
+  return group;
+}
+
+/**
+ * A per-leaf report from a `getQuery` response. The poll response only
+ * carries flattened condition indexes; pass the submitted query (or its
+ * `conditions`) to map them back onto the tree.
+ */
+export function inspectConditions(
+  poll: AutoPollQueryResponse,
+  query?: EqlQuery | EqlConditionGroup,
+): AutoQueryInspection {
+  const evaluation = poll.latestEvaluation;
+  const states = evaluation?.conditionStates ?? [];
+  const conditions = query && "conditions" in query ? query.conditions : query;
+  const leaves = conditions ? flattenLeaves(conditions, "conditions") : [];
+
+  const byIndex = new Map<number, AutoConditionState>();
+  states.forEach((state, position) =>
+    byIndex.set(state.index ?? position, state),
+  );
+  const count = Math.max(
+    leaves.length,
+    ...[...byIndex.keys()].map((i) => i + 1),
+  );
+
+  const reports: AutoConditionReport[] = [];
+  for (let index = 0; index < count; index++) {
+    reports.push(toReport(index, byIndex.get(index), leaves[index]));
+  }
+
+  const inspection: AutoQueryInspection = {
+    queryId: poll.queryId,
+    status: poll.status,
+    evaluatedAt: evaluation?.evaluatedAt ?? null,
+    wouldTriggerNow: evaluation?.wouldTriggerNow ?? null,
+    matchingConditions: evaluation?.matchingConditions ?? null,
+    totalConditions: evaluation?.totalConditions ?? null,
+    conditions: reports,
+  };
+  if (conditions) {
+    inspection.tree = buildTree(conditions, "conditions", reports, {
+      index: 0,
+    });
+  }
+  return inspection;
+}
+
+function mark(isMet: boolean | undefined): string {
+  if (isMet === undefined) return "?";
+  return isMet ? "✓" : "✗";
+}
+
+function formatNumber(value: number, digits: number): string {
+  return String(Number(value.toFixed(digits)));
+}
+
+function describeReport(report: AutoConditionReport): string {
+  const { state, condition } = report;
+  const definition = describeCondition({
+    source: state?.source ?? condition?.source ?? "condition",
+    method: state?.method ?? condition?.method,
+    args: state?.args ?? condition?.args,
+    operator: report.operator ?? condition?.operator,
+    value:
+      report.targetValue ??
+      (typeof condition?.value === "object" ? undefined : condition?.value),
+  });
+  if (!state) return `${definition} — not evaluated`;
+
+  const details: string[] = [];
+  if (report.currentValue !== undefined) {
+    details.push(`current ${formatConditionValue(report.currentValue)}`);
+  }
+  if (report.distance !== undefined) {
+    const sign = report.distance > 0 ? "+" : "";
+    const percent =
+      report.distancePercent !== undefined
+        ? ` (${sign}${formatNumber(report.distancePercent, 2)}%)`
+        : "";
+    details.push(
+      `distance ${sign}${formatNumber(report.distance, 6)}${percent}`,
+    );
+  }
+  if (state.reason) details.push(state.reason);
+  return details.length > 0
+    ? `${definition} — ${details.join(", ")}`
+    : definition;
+}
+
+function renderNode(
+  node: AutoInspectionNode,
+  prefix: string,
+  last: boolean,
+  lines: string[],
+): void {
+  const branch = last ? "└─ " : "├─ ";
+  if (node.type === "leaf") {
+    lines.push(
+      `${prefix}${branch}${mark(node.report.isMet)} ${describeReport(node.report)}`,
+    );
+    return;
+  }
+  lines.push(`${prefix}${branch}${mark(node.isMet)} ${node.op}`);
+  const childPrefix = `${prefix}${last ? "   " : "│  "}`;
+  node.children.forEach((child, index) =>
+    renderNode(child, childPrefix, index === node.children.length - 1, lines),
+  );
+}
+
+/**
+ * The inspection as text for CLIs and logs: a summary line, then the
+ * condition tree (or the flat leaf list without one), `✓` met, `✗` not met,
+ * `?` not evaluated.
+ */
+export function renderInspection(inspection: AutoQueryInspection): string {
+  const verdict =
+    inspection.wouldTriggerNow === null
+      ? "not evaluated yet"
+      : inspection.wouldTriggerNow
+        ? "would trigger now"
+        : "would not trigger now";
+  const counts =
+    inspection.matchingConditions !== null &&
+    inspection.totalConditions !== null
+      ? `, ${inspection.matchingConditions}/${inspection.totalConditions} conditions met`
+      : "";
+  const lines = [
+    `${inspection.queryId} (${inspection.status}): ${verdict}${counts}`,
+  ];
+
+  const nodes: AutoInspectionNode[] = inspection.tree
+    ? [inspection.tree]
+    : inspection.conditions.map((report) => ({
+        type: "leaf",
+        path: report.path ?? `[${report.index}]`,
+        report,
+      }));
+  nodes.forEach((node, index) =>
+    renderNode(node, "", index === nodes.length - 1, lines),
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,67 @@
+import type {
+  AutoMatchedCondition,
+  AutoTriggerCondition,
+  AutoTriggerMatch,
+  AutoTriggerPayload,
+} from "../types/auto.js";
+
+/** A condition value as it reads in an explanation: strings unquoted. */
+export function formatConditionValue(value: unknown): string {
+  if (value === undefined) return "?";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * A condition on one line, e.g. `price.current(symbol=BTC) > 100000`.
+ * Event conditions without an operator render as their source and args only.
+ */
+export function describeCondition(condition: AutoTriggerCondition): string {
+  const args = Object.entries(condition.args ?? {})
+    .map(([key, value]) => `${key}=${formatConditionValue(value)}`)
+    .join(", ");
+  const method = condition.method ? `.${condition.method}` : "";
+  const call = `${condition.source}${method}(${args})`;
+
+  return condition.operator
+    ? `${call} ${condition.operator} ${formatConditionValue(condition.value)}`
+    : call;
+}
+
+/** What a match saw: its observed value, or the post or message it found. */
+function describeMatch(match: AutoTriggerMatch): string | undefined {
+  if (match.observedValue !== undefined) {
+    return `observed ${formatConditionValue(match.observedValue)}`;
+  }
+
+  const where = match.accountHandle
+    ? `@${match.accountHandle.replace(/^@/, "")}`
+    : (match.chatTitle ?? match.chatUsername);
+  const parts = [
+    where && `by ${where}`,
+    match.mentionedAt && `at ${match.mentionedAt}`,
+    match.confidence !== undefined && `confidence ${match.confidence}`,
+    match.url,
+  ].filter(Boolean);
+  return parts.length > 0 ? `matched ${parts.join(", ")}` : undefined;
+}
+
+/** One matched condition: `price.current(symbol=BTC) > 100000 — observed 100234`. */
+export function explainMatchedCondition(matched: AutoMatchedCondition): string {
+  const condition = describeCondition(matched.condition);
+  const match = matched.match && describeMatch(matched.match);
+  return match ? `${condition} — ${match}` : condition;
+}
+
+/**
+ * One line per condition that fired, with the value it observed. Takes an
+ * execution from `getQuery`, `getExecution` or `listExecutions`; `[]` when it
+ * recorded no trigger context.
+ */
+export function explainTrigger(execution: {
+  trigger?: AutoTriggerPayload | null;
+}): string[] {
+  return (execution.trigger?.matchedConditions ?? []).map(
+    explainMatchedCondition,
+  );
+}
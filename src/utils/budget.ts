@@ -0,0 +1,207 @@
+import { BudgetExceededError, type BudgetWindow } from "./errors.js";
+import { TypedEmitter } from "./events.js";
+import type { CreditMeter, CreditRecord } from "./credits.js";
+
+/** Credit ceilings over sliding windows. Unset means no ceiling. */
+export interface BudgetLimits {
+  perMinute?: number;
+  perHour?: number;
+  perDay?: number;
+}
+
+export interface BudgetOptions extends BudgetLimits {
+  /**
+   * Ceilings for calls tagged with `RequestOptions.tag`, checked on top of
+   * the global ones.
+   */
+  tags?: Record<string, BudgetLimits>;
+  /** Credits assumed for a paid call with no estimate of its own. Default 1. */
+  defaultEstimate?: number;
+}
+
+export interface BudgetRequest {
+  /** `METHOD /path` as `CreditMeter` records it. */
+  endpoint: string;
+  tag?: string;
+  estimatedCredits?: number;
+}
+
+export interface BudgetUsage {
+  minute: number;
+  hour: number;
+  day: number;
+}
+
+export interface BudgetGuardEvents {
+  refused: BudgetExceededError;
+}
+
+interface Spend {
+  at: number;
+  credits: number;
+  tag?: string;
+}
+
+const WINDOW_MS: Record<BudgetWindow, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+const LIMIT_KEYS: Record<BudgetWindow, keyof BudgetLimits> = {
+  minute: "perMinute",
+  hour: "perHour",
+  day: "perDay",
+};
+
+/** The Auto routes that cost credits; every other `/v2/auto` route is free. */
+const PAID_AUTO_ENDPOINTS = new Set([
+  "POST /v2/auto/chat",
+  "POST /v2/auto/queries",
+  "POST /v2/auto/queries/drafts/{id}/convert",
+]);
+
+/** Whether `endpoint` can cost credits, so counts against the budget. */
+export function isPaidEndpoint(endpoint: string): boolean {
+  return (
+    !/^\w+ \/v2\/auto\//.test(endpoint) || PAID_AUTO_ENDPOINTS.has(endpoint)
+  );
+}
+
+/**
+ * Refuses calls that would take spend over a ceiling, before they are sent.
+ * Spend comes from the `CreditMeter` it is attached to; `ElfaSDK` attaches
+ * `sdk.budget` to `sdk.credits`. Only recorded spend counts: calls still in
+ * flight are not reserved, so concurrent calls can overshoot by their own
+ * cost.
+ */
+export class BudgetGuard extends TypedEmitter<BudgetGuardEvents> {
+  private limits: BudgetLimits = {};
+  private tagLimits: Record<string, BudgetLimits> = {};
+  private defaultEstimate = 1;
+  private spends: Spend[] = [];
+
+  constructor(options: BudgetOptions = {}) {
+    super();
+    this.configure(options);
+  }
+
+  public configure(options: BudgetOptions): void {
+    const { tags, defaultEstimate, ...limits } = options;
+    this.limits = { ...this.limits, ...limits };
+    if (tags) this.tagLimits = { ...this.tagLimits, ...tags };
+    if (defaultEstimate !== undefined) this.defaultEstimate = defaultEstimate;
+  }
+
+  /** Counts every record `meter` makes; returns a function that detaches. */
+  public attach(meter: CreditMeter): () => void {
+    return meter.on("record", (record: CreditRecord) =>
+      this.spend(record.credits, record.tag, record.at),
+    );
+  }
+
+  public spend(credits: number, tag?: string, at: Date = new Date()): void {
+    this.spends.push({
+      at: at.getTime(),
+      credits,
+      ...(tag !== undefined ? { tag } : {}),
+    });
+  }
+
+  /** Throws `BudgetExceededError` if `request` would break a ceiling. */
+  public check(request: BudgetRequest, now: number = Date.now()): void {
+    if (!isPaidEndpoint(request.endpoint)) return;
+    this.prune(now);
+
+    const estimated = request.estimatedCredits ?? this.defaultEstimate;
+    const scopes: Array<[BudgetLimits, string | undefined]> = [
+      [this.limits, undefined],
+    ];
+    const tagLimits =
+      request.tag !== undefined ? this.tagLimits[request.tag] : undefined;
+    if (tagLimits) scopes.push([tagLimits, request.tag]);
+
+    for (const [limits, tag] of scopes) {
+      for (const window of Object.keys(WINDOW_MS) as BudgetWindow[]) {
+        const limit = limits[LIMIT_KEYS[window]];
+        if (limit === undefined) continue;
+
+        const spent = this.spent(window, now, tag);
+        if (spent + estimated <= limit) continue;
+
+        const error = new BudgetExceededError({
+          window,
+          limit,
+          spent,
+          estimated,
+          endpoint: request.endpoint,
+          ...(tag !== undefined ? { tag } : {}),
+          ...this.retryAt(window, limit, estimated, now, tag),
+        });
+        this.emit("refused", error);
+        throw error;
+      }
+    }
+  }
+
+  /** Credits spent in each window, overall or for one tag. */
+  public usage(tag?: string, now: number = Date.now()): BudgetUsage {
+    this.prune(now);
+    return {
+      minute: this.spent("minute", now, tag),
+      hour: this.spent("hour", now, tag),
+      day: this.spent("day", now, tag),
+    };
+  }
+
+  /** Whether `configure` set any ceiling, global or per tag. */
+  public hasLimits(tag?: string): boolean {
+    const set = (limits: BudgetLimits | undefined) =>
+      !!limits && Object.values(limits).some((value) => value !== undefined);
+    return set(this.limits) || (tag !== undefined && set(this.tagLimits[tag]));
+  }
+
+  public reset(): void {
+    this.spends = [];
+  }
+
+  private inWindow(window: BudgetWindow, now: number, tag?: string): Spend[] {
+    const since = now - WINDOW_MS[window];
+    return this.spends.filter(
+      (spend) => spend.at > since && (tag === undefined || spend.tag === tag),
+    );
+  }
+
+  private spent(window: BudgetWindow, now: number, tag?: string): number {
+    return this.inWindow(window, now, tag).reduce(
+      (sum, spend) => sum + spend.credits,
+      0,
+    );
+  }
+
+  /** When enough spend will have aged out of the window for this call. */
+  private retryAt(
+    window: BudgetWindow,
+    limit: number,
+    estimated: number,
+    now: number,
+    tag?: string,
+  ): { retryAt?: Date } {
+    if (estimated > limit) return {};
+    let spent = this.spent(window, now, tag);
+    for (const spend of this.inWindow(window, now, tag)) {
+      spent -= spend.credits;
+      if (spent + estimated <= limit) {
+        return { retryAt: new Date(spend.at + WINDOW_MS[window]) };
+      }
+    }
+    return {};
+  }
+
+  private prune(now: number): void {
+    const since = now - WINDOW_MS.day;
+    if (this.spends.length > 0 && this.spends[0]!.at <= since) {
+      this.spends = this.spends.filter((spend) => spend.at > since);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+type MaybePromise<T> = T | Promise<T>;
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch ms after which the entry is stale. */
+  expiresAt: number;
+  /** Epoch ms until which a stale entry may still be served while refreshing. */
+  staleUntil: number;
+}
+
+/**
+ * Where cached responses live. Methods may be sync or async, so a Redis or
+ * similar shared store can implement it directly.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  clear(): MaybePromise<void>;
+}
+
+export interface CacheOptions {
+  /** Defaults to a `MemoryCacheStore` private to the client. */
+  store?: CacheStore;
+  /**
+   * TTL in ms for GETs with no entry in `ttls`. Leave unset to cache only the
+   * endpoints listed there.
+   */
+  ttl?: number;
+  /**
+   * Per-endpoint TTLs in ms, keyed by path without the query string, e.g.
+   * `{ "/v2/aggregations/trending-tokens": 60000 }`.
+   */
+  ttls?: Record<string, number>;
+  /**
+   * How long in ms past its TTL an entry may still be returned while a
+   * background request refreshes it. Default 0: expired entries are refetched
+   * before returning.
+   */
+  staleWhileRevalidate?: number;
+}
+
+/** In-memory LRU store: the least recently read entry is evicted first. */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  public get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) return undefined;
+    if (Date.now() >= entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Map iteration order is insertion order; re-inserting marks it as fresh.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  public set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+}
+
+/** TTL in ms for a path, or `undefined` when it should not be cached. */
+export function resolveCacheTtl(
+  options: CacheOptions,
+  url: string,
+): number | undefined {
+  const path = url.split("?")[0];
+  const ttl = options.ttls?.[path] ?? options.ttl;
+  return ttl !== undefined && ttl > 0 ? ttl : undefined;
+}
@@ -0,0 +1,285 @@
+import { TypedEmitter } from "./events.js";
+
+/** Response header carrying what a call cost. */
+export const CREDITS_HEADER = "x-elfa-credits";
+
+/** Where a cost was read from. `manual` is a `record()` call of your own. */
+export type CreditSource = "header" | "body" | "stream" | "manual";
+
+export interface CreditRecord {
+  /** `METHOD /path`, with ids collapsed, e.g. `POST /v2/auto/chat`. */
+  endpoint: string;
+  credits: number;
+  source: CreditSource;
+  at: Date;
+  sessionId?: string;
+  queryId?: string;
+  /** `RequestOptions.tag` of the call. */
+  tag?: string;
+}
+
+export interface CreditTotals {
+  credits: number;
+  calls: number;
+}
+
+export interface CreditSummary {
+  total: CreditTotals;
+  byEndpoint: Record<string, CreditTotals>;
+  bySession: Record<string, CreditTotals>;
+  /**
+   * Spend attributed to each query. `reported` is the server's own running
+   * total for the query's LLM sessions, from the latest `getQuery`.
+   */
+  byQuery: Record<string, CreditTotals & { reported?: number }>;
+  byTag: Record<string, CreditTotals>;
+}
+
+export interface CreditMeterOptions {
+  /** Records kept for `records()` and `export()`. Default 1000. */
+  maxRecords?: number;
+}
+
+export interface CreditMeterEvents {
+  record: CreditRecord;
+}
+
+/** One response as the HTTP layer saw it. */
+export interface CreditObservation {
+  method: string;
+  url: string;
+  /** The `x-elfa-credits` header, if sent. */
+  header?: string;
+  body?: unknown;
+  tag?: string;
+}
+
+export type CreditExportFormat = "json" | "csv";
+
+/** Path segments that hold an id when they follow one of these. */
+const ID_PARENTS = new Set(["queries", "sessions", "drafts", "executions"]);
+const ROUTE_LITERALS = new Set(["stream", "validate", "drafts"]);
+
+/**
+ * `METHOD /path` without the query string, ids replaced by `{id}` and
+ * `validate-symbol`'s pair by `{exchange}/{symbol}`.
+ */
+export function creditEndpoint(method: string, url: string): string {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0] ?? "";
+  const segments = path.split("/");
+  const collapsed = segments.map((segment, index) => {
+    if (segments[index - 1] === "validate-symbol") return "{exchange}";
+    if (segments[index - 2] === "validate-symbol") return "{symbol}";
+    return index > 0 &&
+      ID_PARENTS.has(segments[index - 1]!) &&
+      !ROUTE_LITERALS.has(segment)
+      ? "{id}"
+      : segment;
+  });
+  return `${method.toUpperCase()} ${collapsed.join("/")}`;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/** `getQuery`'s `credits` is a running total, not what the poll cost. */
+function isPollResponse(body: Record<string, unknown>): boolean {
+  return "latestEvaluation" in body && "executions" in body;
+}
+
+/**
+ * Tallies what each call cost, from the `x-elfa-credits` header, the body's
+ * `credits` / `creditsConsumed`, or a chat stream's `complete` event.
+ * `ElfaSDK` keeps one in `sdk.credits`, shared by every client it builds.
+ * Calls that report no cost are not recorded.
+ */
+export class CreditMeter extends TypedEmitter<CreditMeterEvents> {
+  private maxRecords: number;
+  private history: CreditRecord[] = [];
+  private totals: CreditSummary = emptySummary();
+
+  constructor(options: CreditMeterOptions = {}) {
+    super();
+    this.maxRecords = options.maxRecords ?? 1000;
+  }
+
+  /** Records the cost a response reports, if any. */
+  public observe(observation: CreditObservation): CreditRecord | undefined {
+    const body = asObject(observation.body);
+    const data = asObject(body?.data);
+    const queryId =
+      readString(body?.queryId) ??
+      /\/auto\/queries\/([^/?]+)/.exec(observation.url)?.[1];
+    const attribution = {
+      sessionId: readString(body?.sessionId) ?? readString(data?.sessionId),
+      queryId: queryId && !ROUTE_LITERALS.has(queryId) ? queryId : undefined,
+      tag: observation.tag,
+    };
+
+    const poll = body !== undefined && isPollResponse(body);
+    if (poll && attribution.queryId) {
+      const reported = readNumber(body.credits);
+      if (reported !== undefined) {
+        this.bucket(this.totals.byQuery, attribution.queryId).reported =
+          reported;
+      }
+    }
+
+    const header = readNumber(observation.header);
+    const fromBody = poll
+      ? undefined
+      : (readNumber(body?.credits) ??
+        readNumber(body?.creditsConsumed) ??
+        readNumber(data?.creditsConsumed));
+    const credits = header ?? fromBody;
+    if (credits === undefined) return undefined;
+
+    return this.record({
+      endpoint: creditEndpoint(observation.method, observation.url),
+      credits,
+      source: header !== undefined ? "header" : "body",
+      ...withoutUndefined(attribution),
+    });
+  }
+
+  /** Adds a cost the SDK cannot see, e.g. spend settled elsewhere. */
+  public record(
+    entry: Omit<CreditRecord, "at" | "source"> & {
+      at?: Date;
+      source?: CreditSource;
+    },
+  ): CreditRecord {
+    const record: CreditRecord = {
+      ...entry,
+      source: entry.source ?? "manual",
+      at: entry.at ?? new Date(),
+    };
+
+    this.history.push(record);
+    if (this.history.length > this.maxRecords) this.history.shift();
+
+    add(this.totals.total, record.credits);
+    add(this.bucket(this.totals.byEndpoint, record.endpoint), record.credits);
+    if (record.sessionId) {
+      add(this.bucket(this.totals.bySession, record.sessionId), record.credits);
+    }
+    if (record.queryId) {
+      add(this.bucket(this.totals.byQuery, record.queryId), record.credits);
+    }
+    if (record.tag) {
+      add(this.bucket(this.totals.byTag, record.tag), record.credits);
+    }
+
+    this.emit("record", record);
+    return record;
+  }
+
+  /** Totals since construction or the last `reset()`. */
+  public summary(): CreditSummary {
+    const copy = <T extends CreditTotals>(map: Record<string, T>) =>
+      Object.fromEntries(
+        Object.entries(map).map(([key, totals]) => [key, { ...totals }]),
+      );
+    return {
+      total: { ...this.totals.total },
+      byEndpoint: copy(this.totals.byEndpoint),
+      bySession: copy(this.totals.bySession),
+      byQuery: copy(this.totals.byQuery),
+      byTag: copy(this.totals.byTag),
+    };
+  }
+
+  /** The most recent records, oldest first, up to `maxRecords`. */
+  public records(): CreditRecord[] {
+    return this.history.map((record) => ({ ...record }));
+  }
+
+  /**
+   * `json`: `{ summary, records }`. `csv`: one row per record, for a
+   * spreadsheet or a finance import.
+   */
+  public export(format: CreditExportFormat = "json"): string {
+    if (format === "json") {
+      return JSON.stringify({
+        summary: this.summary(),
+        records: this.history,
+      });
+    }
+
+    const columns = [
+      "at",
+      "endpoint",
+      "credits",
+      "source",
+      "sessionId",
+      "queryId",
+      "tag",
+    ] as const;
+    const rows = this.history.map((record) =>
+      columns
+        .map((column) =>
+          csvCell(column === "at" ? record.at.toISOString() : record[column]),
+        )
+        .join(","),
+    );
+    return [columns.join(","), ...rows].join("\n");
+  }
+
+  public reset(): void {
+    this.history = [];
+    this.totals = emptySummary();
+  }
+
+  private bucket<T extends CreditTotals>(
+    map: Record<string, T>,
+    key: string,
+  ): T {
+    let totals = map[key];
+    if (!totals) {
+      totals = { credits: 0, calls: 0 } as T;
+      map[key] = totals;
+    }
+    return totals;
+  }
+}
+
+function emptySummary(): CreditSummary {
+  return {
+    total: { credits: 0, calls: 0 },
+    byEndpoint: {},
+    bySession: {},
+    byQuery: {},
+    byTag: {},
+  };
+}
+
+function add(totals: CreditTotals, credits: number): void {
+  totals.credits += credits;
+  totals.calls += 1;
+}
+
+function withoutUndefined<T extends object>(value: T) {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
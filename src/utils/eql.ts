@@ -0,0 +1,644 @@
+import { ValidationError } from "./errors.js";
+import type {
+  AutoQueryInput,
+  AutoValidateResponse,
+  AutoValidationIssue,
+  EqlActionStep,
+  EqlActionType,
+  EqlConditionGroup,
+  EqlConditionLeaf,
+  EqlDuration,
+  EqlEventSource,
+  EqlNumericSource,
+  EqlOperator,
+  EqlQuery,
+  EqlSourceArgs,
+  TradableExchange,
+} from "../types/auto.js";
+
+export type EqlCondition = EqlConditionGroup | EqlConditionLeaf;
+
+/** Numeric sources whose `args` carry an `exchange`. */
+type ExchangeSource = "price" | "ta" | "funding" | "liquidation";
+
+/**
+ * A numeric condition that has its source and args but no threshold yet.
+ * Each comparison method finishes it into an `EqlConditionLeaf`.
+ */
+export class EqlConditionBuilder<S extends EqlNumericSource> {
+  private readonly source: S;
+  private args: EqlSourceArgs[S];
+  private method?: string;
+
+  constructor(source: S, args: EqlSourceArgs[S]) {
+    this.source = source;
+    this.args = args;
+  }
+
+  public on<T extends ExchangeSource>(
+    this: EqlConditionBuilder<T>,
+    exchange: TradableExchange,
+  ): EqlConditionBuilder<T> {
+    this.args = { ...this.args, exchange };
+    return this;
+  }
+
+  public using(method: string): this {
+    this.method = method;
+    return this;
+  }
+
+  /** Merges in more `args`, including fields the SDK does not name. */
+  public with(args: Partial<EqlSourceArgs[S]>): this {
+    this.args = { ...this.args, ...args };
+    return this;
+  }
+
+  public gt(value: number): EqlConditionLeaf {
+    return this.compare(">", value);
+  }
+
+  public gte(value: number): EqlConditionLeaf {
+    return this.compare(">=", value);
+  }
+
+  public lt(value: number): EqlConditionLeaf {
+    return this.compare("<", value);
+  }
+
+  public lte(value: number): EqlConditionLeaf {
+    return this.compare("<=", value);
+  }
+
+  public eq(value: number): EqlConditionLeaf {
+    return this.compare("==", value);
+  }
+
+  public neq(value: number): EqlConditionLeaf {
+    return this.compare("!=", value);
+  }
+
+  public crossesAbove(value: number): EqlConditionLeaf {
+    return this.compare("crosses_above", value);
+  }
+
+  public crossesBelow(value: number): EqlConditionLeaf {
+    return this.compare("crosses_below", value);
+  }
+
+  private compare(operator: EqlOperator, value: number): EqlConditionLeaf {
+    const leaf: EqlConditionLeaf = {
+      source: this.source,
+      args: { ...this.args },
+      operator,
+      value,
+    };
+    if (this.method !== undefined) leaf.method = this.method;
+    return leaf;
+  }
+}
+
+export function price(symbol: string): EqlConditionBuilder<"price"> {
+  return new EqlConditionBuilder("price", { symbol });
+}
+
+export function ta(
+  symbol: string,
+  indicator: string,
+): EqlConditionBuilder<"ta"> {
+  return new EqlConditionBuilder("ta", { symbol, indicator });
+}
+
+export function funding(symbol: string): EqlConditionBuilder<"funding"> {
+  return new EqlConditionBuilder("funding", { symbol });
+}
+
+export function liquidation(
+  symbol: string,
+): EqlConditionBuilder<"liquidation"> {
+  return new EqlConditionBuilder("liquidation", { symbol });
+}
+
+export function kalshi(market: string): EqlConditionBuilder<"kalshi"> {
+  return new EqlConditionBuilder("kalshi", { market });
+}
+
+export function polymarket(
+  market: string,
+  outcome?: string,
+): EqlConditionBuilder<"polymarket"> {
+  return new EqlConditionBuilder(
+    "polymarket",
+    outcome === undefined ? { market } : { market, outcome },
+  );
+}
+
+export function fearGreed(): EqlConditionBuilder<"fear_greed"> {
+  return new EqlConditionBuilder("fear_greed", {});
+}
+
+/** An event or schedule condition. These fire on occurrence, so no operator. */
+export function onEvent<S extends EqlEventSource>(
+  source: S,
+  args: EqlSourceArgs[S],
+  method?: string,
+): EqlConditionLeaf {
+  const leaf: EqlConditionLeaf = { source, args: { ...args } };
+  if (method !== undefined) leaf.method = method;
+  return leaf;
+}
+
+export function cron(schedule: string, timezone?: string): EqlConditionLeaf {
+  return onEvent(
+    "cron",
+    timezone === undefined ? { schedule } : { schedule, timezone },
+  );
+}
+
+export function tweet(args: EqlSourceArgs["tweet"]): EqlConditionLeaf {
+  return onEvent("tweet", args);
+}
+
+export function telegram(args: EqlSourceArgs["telegram"]): EqlConditionLeaf {
+  return onEvent("telegram", args);
+}
+
+export function news(args: EqlSourceArgs["news"]): EqlConditionLeaf {
+  return onEvent("news", args);
+}
+
+export function sec(args: EqlSourceArgs["sec"]): EqlConditionLeaf {
+  return onEvent("sec", args);
+}
+
+/** A fuzzy world-state predicate, judged over `period` (at least `1h`). */
+export function llm(query: string, period?: EqlDuration): EqlConditionLeaf {
+  return onEvent(
+    "llm",
+    period === undefined ? { query } : { query, period },
+    "athena_condition",
+  );
+}
+
+export function allOf(...conditions: EqlCondition[]): EqlConditionGroup {
+  return { AND: conditions };
+}
+
+export function anyOf(...conditions: EqlCondition[]): EqlConditionGroup {
+  return { OR: conditions };
+}
+
+/** An action without its `stepId`; the builder sets `step_1` on `build()`. */
+export interface EqlAction {
+  type: EqlActionType;
+  params: Record<string, unknown>;
+  stepId?: string;
+}
+
+export function notify(
+  message: string,
+  params: Record<string, unknown> = {},
+): EqlAction {
+  return { type: "notify", params: { ...params, message } };
+}
+
+export function webhook(
+  url: string,
+  params: Record<string, unknown> = {},
+): EqlAction {
+  return { type: "webhook", params: { ...params, url } };
+}
+
+export function telegramBot(params: Record<string, unknown>): EqlAction {
+  return { type: "telegram_bot", params };
+}
+
+export function llmAction(
+  prompt: string,
+  params: Record<string, unknown> = {},
+): EqlAction {
+  return { type: "llm", params: { ...params, prompt } };
+}
+
+/**
+ * Fluent builder for `AutoQueryInput`.
+ *
+ * `and`/`or` fold left: `when(a).and(b).or(c)` is `(a AND b) OR c`. Use
+ * `allOf`/`anyOf` to nest explicitly.
+ */
+export class EqlQueryBuilder {
+  private root?: EqlCondition;
+  private action?: EqlAction;
+  private expiry?: EqlDuration;
+  private repeatPolicy?: { cooldown: EqlDuration; maxTriggers: number };
+  private titleText?: string;
+  private descriptionText?: string;
+
+  public when(condition: EqlCondition): this {
+    this.root = condition;
+    return this;
+  }
+
+  public and(condition: EqlCondition): this {
+    return this.combine("AND", condition);
+  }
+
+  public or(condition: EqlCondition): this {
+    return this.combine("OR", condition);
+  }
+
+  /**
+   * Sets the action to run when the conditions are met. A query has exactly
+   * one, so a second call replaces the first. Not named `then`: that would
+   * make the builder a thenable, and `await`ing it would hang.
+   */
+  public do(action: EqlAction): this {
+    this.action = action;
+    return this;
+  }
+
+  public expiresIn(duration: EqlDuration): this {
+    this.expiry = duration;
+    return this;
+  }
+
+  public repeat(cooldown: EqlDuration, maxTriggers: number): this {
+    this.repeatPolicy = { cooldown, maxTriggers };
+    return this;
+  }
+
+  public title(title: string): this {
+    this.titleText = title;
+    return this;
+  }
+
+  public description(description: string): this {
+    this.descriptionText = description;
+    return this;
+  }
+
+  public toQuery(): EqlQuery {
+    if (!this.root) {
+      throw new ValidationError("EQL query needs a condition: call when()");
+    }
+    if (!this.action) {
+      throw new ValidationError("EQL query needs an action: call do()");
+    }
+    if (!this.expiry) {
+      throw new ValidationError("EQL query needs an expiry: call expiresIn()");
+    }
+
+    const conditions: EqlConditionGroup = isConditionGroup(this.root)
+      ? this.root
+      : { AND: [this.root] };
+
+    const action: EqlActionStep = {
+      stepId: this.action.stepId ?? "step_1",
+      type: this.action.type,
+      params: this.action.params,
+    };
+
+    const query: EqlQuery = {
+      conditions,
+      actions: [action],
+      expiresIn: this.expiry,
+    };
+    if (this.repeatPolicy) query.repeat = { ...this.repeatPolicy };
+    return query;
+  }
+
+  public build(): AutoQueryInput {
+    const input: AutoQueryInput = { query: this.toQuery() };
+    if (this.titleText !== undefined) input.title = this.titleText;
+    if (this.descriptionText !== undefined) {
+      input.description = this.descriptionText;
+    }
+    return input;
+  }
+
+  private combine(op: "AND" | "OR", condition: EqlCondition): this {
+    if (!this.root) {
+      this.root = condition;
+    } else if (op in this.root) {
+      const group = this.root as Record<typeof op, EqlCondition[]>;
+      this.root = { [op]: [...group[op], condition] } as EqlConditionGroup;
+    } else {
+      this.root = { [op]: [this.root, condition] } as EqlConditionGroup;
+    }
+    return this;
+  }
+}
+
+export function isConditionGroup(
+  condition: EqlCondition,
+): condition is EqlConditionGroup {
+  return "AND" in condition || "OR" in condition;
+}
+
+export const eql = {
+  when(condition: EqlCondition): EqlQueryBuilder {
+    return new EqlQueryBuilder().when(condition);
+  },
+};
+
+const NUMERIC_SOURCES: ReadonlySet<string> = new Set<EqlNumericSource>([
+  "price",
+  "ta",
+  "kalshi",
+  "polymarket",
+  "funding",
+  "liquidation",
+  "fear_greed",
+]);
+
+const EVENT_SOURCES: ReadonlySet<string> = new Set<EqlEventSource>([
+  "cron",
+  "llm",
+  "tweet",
+  "telegram",
+  "news",
+  "sec",
+]);
+
+const OPERATORS: ReadonlySet<string> = new Set<EqlOperator>([
+  ">",
+  "<",
+  ">=",
+  "<=",
+  "==",
+  "!=",
+  "crosses_above",
+  "crosses_below",
+]);
+
+/** Event sources match or they do not; only equality makes sense on them. */
+const EVENT_OPERATORS: ReadonlySet<string> = new Set<EqlOperator>(["==", "!="]);
+
+const ACTION_TYPES: ReadonlySet<string> = new Set<EqlActionType>([
+  "webhook",
+  "notify",
+  "telegram_bot",
+  "llm",
+]);
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** The shortest `period` an `llm` condition may judge over. */
+const MIN_LLM_PERIOD_MS = DURATION_UNITS_MS.h;
+
+/**
+ * Parses an EQL duration (`"30m"`, `"24h"`, `"7d"`) into milliseconds.
+ * Returns `undefined` for anything else, including zero, negative and
+ * fractional counts.
+ */
+export function parseEqlDuration(duration: unknown): number | undefined {
+  if (typeof duration !== "string") return undefined;
+  const match = duration.trim().match(/^(\d+)([smhdw])$/);
+  if (!match) return undefined;
+  const ms = parseInt(match[1], 10) * DURATION_UNITS_MS[match[2]];
+  return ms > 0 ? ms : undefined;
+}
+
+export interface EqlValidateResponse extends AutoValidateResponse {
+  errors: AutoValidationIssue[];
+  warnings: AutoValidationIssue[];
+}
+
+/**
+ * Checks an `EqlQuery` locally, without the network round-trip or credits of
+ * `AutoClient.validateQuery`. Structural only: it cannot tell whether a
+ * symbol trades on an exchange or what the query will cost, so a query that
+ * passes here should still go through `validateQuery` before `createQuery`.
+ */
+export function validateEqlQuery(query: EqlQuery): EqlValidateResponse {
+  const errors: AutoValidationIssue[] = [];
+  const warnings: AutoValidationIssue[] = [];
+  const error = (code: string, path: string, message: string) => {
+    errors.push({ code, path, message });
+  };
+
+  if (!isObject(query)) {
+    error("invalid_query", "", "query must be an object");
+    return { valid: false, errors, warnings };
+  }
+
+  validateCondition(query.conditions, "conditions", error, true);
+
+  if (!Array.isArray(query.actions) || query.actions.length === 0) {
+    error("missing_action", "actions", "actions must contain one step");
+  } else {
+    if (query.actions.length > 1) {
+      error(
+        "too_many_actions",
+        "actions",
+        `actions must contain exactly one step, got ${query.actions.length}`,
+      );
+    }
+    const seen = new Set<string>();
+    query.actions.forEach((step, index) => {
+      const path = `actions[${index}]`;
+      if (!isObject(step)) {
+        error("invalid_action", path, "action step must be an object");
+        return;
+      }
+      if (typeof step.stepId !== "string" || !step.stepId.trim()) {
+        error("missing_step_id", `${path}.stepId`, "stepId is required");
+      } else if (seen.has(step.stepId)) {
+        error(
+          "duplicate_step_id",
+          `${path}.stepId`,
+          `stepId "${step.stepId}" is used more than once`,
+        );
+      } else {
+        seen.add(step.stepId);
+      }
+      if (!ACTION_TYPES.has(step.type)) {
+        error(
+          "invalid_action_type",
+          `${path}.type`,
+          `unknown action type "${String(step.type)}"`,
+        );
+      }
+      if (!isObject(step.params)) {
+        error("invalid_params", `${path}.params`, "params must be an object");
+      }
+    });
+  }
+
+  const expiresMs = parseEqlDuration(query.expiresIn);
+  if (expiresMs === undefined) {
+    error(
+      "invalid_duration",
+      "expiresIn",
+      `expiresIn "${String(query.expiresIn)}" is not a duration like "30m", "24h" or "7d"`,
+    );
+  }
+
+  if (query.repeat !== undefined) {
+    if (!isObject(query.repeat)) {
+      error("invalid_repeat", "repeat", "repeat must be an object");
+    } else {
+      const cooldownMs = parseEqlDuration(query.repeat.cooldown);
+      if (cooldownMs === undefined) {
+        error(
+          "invalid_duration",
+          "repeat.cooldown",
+          `cooldown "${String(query.repeat.cooldown)}" is not a duration like "30m", "24h" or "7d"`,
+        );
+      } else if (expiresMs !== undefined && cooldownMs >= expiresMs) {
+        warnings.push({
+          code: "cooldown_exceeds_expiry",
+          path: "repeat.cooldown",
+          message:
+            "cooldown is not shorter than expiresIn, so the query can trigger at most once",
+        });
+      }
+
+      const { maxTriggers } = query.repeat;
+      if (
+        typeof maxTriggers !== "number" ||
+        !Number.isInteger(maxTriggers) ||
+        maxTriggers <= 0
+      ) {
+        error(
+          "invalid_max_triggers",
+          "repeat.maxTriggers",
+          "maxTriggers must be an integer greater than 0",
+        );
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+function validateCondition(
+  node: unknown,
+  path: string,
+  error: (code: string, path: string, message: string) => void,
+  root = false,
+): void {
+  if (!isObject(node)) {
+    error("invalid_condition", path, "condition must be an object");
+    return;
+  }
+
+  const ops = (["AND", "OR"] as const).filter((op) => op in node);
+  if (ops.length > 1) {
+    error("invalid_group", path, "a group must have exactly one of AND or OR");
+    return;
+  }
+  if (ops.length === 1) {
+    const op = ops[0];
+    const children = node[op];
+    if (!Array.isArray(children) || children.length === 0) {
+      error("empty_group", `${path}.${op}`, `${op} group must not be empty`);
+      return;
+    }
+    children.forEach((child, index) =>
+      validateCondition(child, `${path}.${op}[${index}]`, error),
+    );
+    return;
+  }
+
+  if (root) {
+    error(
+      "invalid_group",
+      path,
+      "conditions must be an AND or OR group at the top level",
+    );
+    return;
+  }
+
+  validateLeaf(node, path, error);
+}
+
+function validateLeaf(
+  leaf: Record<string, unknown>,
+  path: string,
+  error: (code: string, path: string, message: string) => void,
+): void {
+  const { source, operator, value } = leaf;
+  const numeric = NUMERIC_SOURCES.has(source as string);
+
+  if (!numeric && !EVENT_SOURCES.has(source as string)) {
+    error(
+      "invalid_source",
+      `${path}.source`,
+      `unknown condition source "${String(source)}"`,
+    );
+    return;
+  }
+  if (!isObject(leaf.args)) {
+    error("invalid_args", `${path}.args`, "args must be an object");
+  } else if (source === "llm" && leaf.args.period !== undefined) {
+    const periodMs = parseEqlDuration(leaf.args.period);
+    if (periodMs === undefined || periodMs < MIN_LLM_PERIOD_MS) {
+      error(
+        "invalid_duration",
+        `${path}.args.period`,
+        `period "${String(leaf.args.period)}" is not a duration of at least "1h"`,
+      );
+    }
+  }
+  if (leaf.method !== undefined && typeof leaf.method !== "string") {
+    error("invalid_method", `${path}.method`, "method must be a string");
+  }
+
+  if (operator === undefined) {
+    if (numeric) {
+      error(
+        "missing_operator",
+        `${path}.operator`,
+        `${String(source)} conditions need an operator and a value`,
+      );
+    }
+    return;
+  }
+
+  if (!OPERATORS.has(operator as string)) {
+    error(
+      "invalid_operator",
+      `${path}.operator`,
+      `unknown operator "${String(operator)}"`,
+    );
+    return;
+  }
+
+  if (!numeric && !EVENT_OPERATORS.has(operator as string)) {
+    const crossing =
+      operator === "crosses_above" || operator === "crosses_below";
+    error(
+      crossing ? "crossing_requires_numeric" : "operator_not_allowed",
+      `${path}.operator`,
+      crossing
+        ? `${String(operator)} needs a numeric series; ${String(source)} is not one`
+        : `operator "${String(operator)}" is not allowed on ${String(source)} conditions`,
+    );
+    return;
+  }
+
+  if (value === undefined) {
+    error(
+      "missing_value",
+      `${path}.value`,
+      "a value is required with operator",
+    );
+  } else if (numeric && typeof value !== "number") {
+    error(
+      "invalid_value",
+      `${path}.value`,
+      `${String(source)} conditions compare against a number`,
+    );
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
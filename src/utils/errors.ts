@@ -1,3 +1,10 @@
+import type { SchemaIssue } from "./schema.js";
+import type { AutoErrorIssue } from "../types/auto.js";
+import type {
+  X402PaymentChallenge,
+  X402PaymentRequirements,
+} from "../types/x402.js";
+
 export class ElfaSDKError extends Error {
   public readonly code: string;
   public readonly statusCode?: number;
@@ -23,12 +30,54 @@ export class ElfaSDKError extends Error {
 }
 
 export class ElfaApiError extends ElfaSDKError {
-  constructor(message: string, statusCode: number, details?: any) {
-    super(message, "ELFA_API_ERROR", statusCode, details);
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: any,
+    code: string = "ELFA_API_ERROR",
+  ) {
+    super(message, code, statusCode, details);
     this.name = "ElfaApiError";
   }
 }
 
+/**
+ * A failed `/v2/auto/*` call. `details` is the raw `ApiKeyAutoErrorResponse`
+ * body; `issues` are its `{ field, message }` entries, empty when the server
+ * sent none. Still an `ElfaApiError`, so existing handlers keep matching.
+ */
+export class AutoApiError extends ElfaApiError {
+  public readonly issues: AutoErrorIssue[];
+
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: any,
+    issues: AutoErrorIssue[] = [],
+    code: string = "AUTO_API_ERROR",
+  ) {
+    super(message, statusCode, details, code);
+    this.name = "AutoApiError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * The server rejected the request body (`400`/`422`). `toEqlIssues` maps
+ * `issues` onto `EqlQuery` paths, in the same shape `validateEqlQuery` uses.
+ */
+export class AutoValidationError extends AutoApiError {
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: any,
+    issues: AutoErrorIssue[] = [],
+  ) {
+    super(message, statusCode, details, issues, "AUTO_VALIDATION_ERROR");
+    this.name = "AutoValidationError";
+  }
+}
+
 export class ValidationError extends ElfaSDKError {
   constructor(message: string, details?: any) {
     super(message, "VALIDATION_ERROR", undefined, details);
@@ -55,6 +104,158 @@ export class RateLimitError extends ElfaSDKError {
   }
 }
 
+/**
+ * The client-side rate limiter's queue is at `maxQueueSize`. Thrown before
+ * any request is sent, and deliberately not retryable: retrying would only
+ * add to the queue that is already full.
+ */
+export class RateLimitQueueFullError extends ElfaSDKError {
+  constructor(message: string = "Rate limiter queue is full") {
+    super(message, "RATE_LIMIT_QUEUE_FULL");
+    this.name = "RateLimitQueueFullError";
+  }
+}
+
+export type BudgetWindow = "minute" | "hour" | "day";
+
+export interface BudgetExceededDetails {
+  window: BudgetWindow;
+  limit: number;
+  spent: number;
+  estimated: number;
+  endpoint: string;
+  /** Set when the ceiling broken is a per-tag one. */
+  tag?: string;
+  /** When enough spend ages out of the window; unset if it never will. */
+  retryAt?: Date;
+}
+
+const BUDGET_EXCEEDED_ERROR_NAME = "BudgetExceededError";
+
+/**
+ * The call would take spend over a `budget` ceiling. Thrown before the
+ * request is sent, so nothing was charged, and not retryable.
+ */
+export class BudgetExceededError extends ElfaSDKError {
+  public readonly window: BudgetWindow;
+  public readonly limit: number;
+  public readonly spent: number;
+  public readonly estimated: number;
+  public readonly endpoint: string;
+  public readonly tag?: string;
+  public readonly retryAt?: Date;
+
+  constructor(details: BudgetExceededDetails) {
+    super(
+      `${details.endpoint} would exceed the ` +
+        (details.tag !== undefined ? `"${details.tag}" ` : "") +
+        `per-${details.window} budget: ${details.spent} of ${details.limit} ` +
+        `credits spent, ${details.estimated} more estimated`,
+      "BUDGET_EXCEEDED",
+      undefined,
+      details,
+    );
+    this.name = BUDGET_EXCEEDED_ERROR_NAME;
+    this.window = details.window;
+    this.limit = details.limit;
+    this.spent = details.spent;
+    this.estimated = details.estimated;
+    this.endpoint = details.endpoint;
+    if (details.tag !== undefined) {
+      this.tag = details.tag;
+    }
+    if (details.retryAt !== undefined) {
+      this.retryAt = details.retryAt;
+    }
+  }
+}
+
+export type CapabilityFeature = "auto";
+
+/**
+ * The key lacks a scope or feature the endpoint needs, per its key status.
+ * Thrown by the `preflight` check before the request is sent.
+ */
+export class InsufficientScopeError extends ElfaSDKError {
+  public readonly endpoint: string;
+  public readonly scope?: string;
+  public readonly feature?: CapabilityFeature;
+
+  constructor(
+    endpoint: string,
+    missing: { scope?: string; scopes?: string[]; feature?: CapabilityFeature },
+  ) {
+    super(
+      missing.scope !== undefined
+        ? `${endpoint} requires the "${missing.scope}" scope; this key has ` +
+            (missing.scopes?.length ? missing.scopes.join(", ") : "none")
+        : `${endpoint} requires Auto, which is not enabled for this key`,
+      "INSUFFICIENT_SCOPE",
+      undefined,
+      missing,
+    );
+    this.name = "InsufficientScopeError";
+    this.endpoint = endpoint;
+    if (missing.scope !== undefined) {
+      this.scope = missing.scope;
+    }
+    if (missing.feature !== undefined) {
+      this.feature = missing.feature;
+    }
+  }
+}
+
+/**
+ * A response did not match the schema for its endpoint. Thrown only with
+ * `validateResponses: "strict"`; `path` is the first offending field.
+ */
+export class ResponseValidationError extends ElfaSDKError {
+  public readonly endpoint: string;
+  public readonly path: string;
+  public readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    const [first] = issues;
+    super(
+      `Response from ${endpoint} does not match the expected shape at ` +
+        `${first?.path || "(root)"}: expected ${first?.expected}, received ` +
+        `${first?.received}` +
+        (issues.length > 1 ? ` (and ${issues.length - 1} more)` : ""),
+      "RESPONSE_VALIDATION_ERROR",
+      undefined,
+      issues,
+    );
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.path = first?.path ?? "";
+    this.issues = issues;
+  }
+}
+
+const PAYMENT_REQUIRED_ERROR_NAME = "PaymentRequiredError";
+
+/**
+ * A `402 Payment Required`. On the x402 routes `requirements` lists the
+ * accepted ways to pay; pass a `paymentSigner` to `X402Client` to have the
+ * SDK pay and retry. On API-key routes it means the key itself needs credits,
+ * and `requirements` is empty.
+ */
+export class PaymentRequiredError extends ElfaSDKError {
+  public readonly x402Version: number;
+  public readonly requirements: X402PaymentRequirements[];
+
+  constructor(
+    message: string,
+    challenge: X402PaymentChallenge = { x402Version: 1, accepts: [] },
+    details?: any,
+  ) {
+    super(message, "PAYMENT_REQUIRED", 402, details);
+    this.name = PAYMENT_REQUIRED_ERROR_NAME;
+    this.x402Version = challenge.x402Version;
+    this.requirements = challenge.accepts;
+  }
+}
+
 export class AuthenticationError extends ElfaSDKError {
   constructor(message: string = "Authentication failed") {
     super(message, "AUTHENTICATION_ERROR", 401);
@@ -81,6 +282,46 @@ export function isRateLimitError(error: Error): error is RateLimitError {
   return error.name === RATE_LIMIT_ERROR_NAME;
 }
 
+/** Narrows an error to `PaymentRequiredError`; by `name`, as above. */
+export function isPaymentRequiredError(
+  error: Error,
+): error is PaymentRequiredError {
+  return error.name === PAYMENT_REQUIRED_ERROR_NAME;
+}
+
+/** Narrows an error to `BudgetExceededError`; by `name`, as above. */
+export function isBudgetExceededError(
+  error: Error,
+): error is BudgetExceededError {
+  return error.name === BUDGET_EXCEEDED_ERROR_NAME;
+}
+
+const API_ERROR_NAMES = new Set([
+  "ElfaApiError",
+  "AutoApiError",
+  "AutoValidationError",
+]);
+
+/** Every class above; a new `ElfaSDKError` subclass belongs here too. */
+const SDK_ERROR_NAMES = new Set([
+  "ElfaSDKError",
+  ...API_ERROR_NAMES,
+  "ValidationError",
+  RATE_LIMIT_ERROR_NAME,
+  "RateLimitQueueFullError",
+  BUDGET_EXCEEDED_ERROR_NAME,
+  "InsufficientScopeError",
+  "ResponseValidationError",
+  PAYMENT_REQUIRED_ERROR_NAME,
+  "AuthenticationError",
+  "NetworkError",
+]);
+
+/** Narrows to any `ElfaSDKError`; by `name`, as above. */
+export function isElfaSDKError(error: unknown): error is ElfaSDKError {
+  return error instanceof Error && SDK_ERROR_NAMES.has(error.name);
+}
+
 export function isRetryableError(error: Error): boolean {
   // Check by error name for better compatibility
   if (isRateLimitError(error)) {
@@ -91,7 +332,7 @@ export function isRetryableError(error: Error): boolean {
     return true;
   }
 
-  if (error.name === "ElfaApiError" && (error as any).statusCode) {
+  if (API_ERROR_NAMES.has(error.name) && (error as any).statusCode) {
     const statusCode = (error as any).statusCode;
     return statusCode >= 500 && statusCode < 600;
   }
@@ -110,3 +351,12 @@ export function getErrorMessage(error: unknown): string {
 
   return "An unknown error occurred";
 }
+
+/** The `ElfaSDKError` code, else the error's name. */
+export function getErrorCode(error: unknown): string {
+  if (isElfaSDKError(error)) {
+    return error.code;
+  }
+
+  return error instanceof Error ? error.name : "UNKNOWN_ERROR";
+}
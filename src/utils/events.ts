@@ -0,0 +1,43 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. Not Node's `EventEmitter`, so it runs anywhere
+ * the SDK does, and a throwing listener cannot break the request that
+ * emitted the event.
+ */
+export class TypedEmitter<Events extends object> {
+  private listeners: {
+    [K in keyof Events]?: Set<Listener<Events[K]>>;
+  } = {};
+
+  /** Subscribes to `event`; returns a function that unsubscribes. */
+  public on<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of this.listeners[event] ?? []) {
+      try {
+        listener(payload);
+      } catch {
+        // A listener's bug is not the request's failure.
+      }
+    }
+  }
+}
@@ -1,17 +1,61 @@
-import axios, {
-  type AxiosInstance,
-  type AxiosRequestConfig,
-  type AxiosResponse,
-  type AxiosError,
-} from "axios";
 import {
   ElfaApiError,
+  ElfaSDKError,
   NetworkError,
   RateLimitError,
   AuthenticationError,
+  PaymentRequiredError,
+  ValidationError,
   isRateLimitError,
   isRetryableError,
+  isElfaSDKError,
+  getErrorMessage,
+  getErrorCode,
 } from "./errors.js";
+import {
+  MemoryCacheStore,
+  resolveCacheTtl,
+  type CacheOptions,
+  type CacheStore,
+} from "./cache.js";
+import type { RateLimiter, RequestPriority } from "./limiter.js";
+import {
+  CREDITS_HEADER,
+  creditEndpoint,
+  type CreditMeter,
+  type CreditRecord,
+} from "./credits.js";
+import type { BudgetGuard } from "./budget.js";
+import type { Preflight } from "./preflight.js";
+import {
+  benchReason,
+  type KeyAffinity,
+  type KeyBenchReason,
+  type KeyPool,
+  type PoolKey,
+} from "./keyPool.js";
+import { parsePaymentChallenge } from "./x402.js";
+import { toQueryString } from "./params.js";
+import {
+  createFetchTransport,
+  isSuccessStatus,
+  type Transport,
+  type TransportResponse,
+} from "./transport.js";
+import {
+  createMiddlewareContext,
+  runMiddleware,
+  toTransportRequest,
+  type Middleware,
+} from "./middleware.js";
+import type { Telemetry, TelemetryCall } from "./telemetry.js";
+import {
+  nextRequestId,
+  resolveLogger,
+  type LogFields,
+  type Logger,
+} from "./logger.js";
+import type { RequestOptions } from "../types/options.js";
 import { VERSION } from "../version.js";
 
 export interface HttpClientOptions {
@@ -20,12 +64,58 @@ export interface HttpClientOptions {
   retries?: number;
   retryDelay?: number;
   headers?: Record<string, string>;
+  /** Logs each request to the console when no `logger` is given. */
   debug?: boolean;
+  /** Receives the request logs, redacted. */
+  logger?: Logger;
+  cache?: CacheOptions;
+  rateLimiter?: RateLimiter;
+  /**
+   * Coalesce concurrent identical GETs (same URL, params, headers and key)
+   * into one request whose result or error every caller shares. Default true.
+   */
+  dedupe?: boolean;
+  /** Sees every response that reached the network, for its credit cost. */
+  creditMeter?: CreditMeter;
+  /** Checked before every attempt that would reach the network. */
+  budgetGuard?: BudgetGuard;
+  /** Checked once per request, before the budget and the limiter. */
+  preflight?: Preflight;
+  /** Picks the API key per attempt, overriding the auth header. */
+  keyPool?: KeyPool;
+  /** Sends each attempt. Defaults to `createFetchTransport()`. */
+  transport?: Transport;
+  /** Runs around each attempt. Read per attempt, so it may grow later. */
+  middleware?: readonly Middleware[];
+  /** Traces each request, retries included, as one span. */
+  telemetry?: Telemetry;
 }
 
-export interface RequestConfig extends AxiosRequestConfig {
+export interface RequestConfig {
+  method?: string;
+  /** Relative to `baseURL` unless absolute. */
+  url?: string;
+  /** Appended to `url` as a query string; unset entries are skipped. */
+  params?: object;
+  /** JSON-encoded unless already a string. */
+  data?: any;
+  headers?: Record<string, string>;
+  timeout?: number;
+  signal?: AbortSignal;
   retries?: number;
   retryDelay?: number;
+  /** `false` skips the response cache for this call, both read and write. */
+  cache?: boolean;
+  /** Rate-limiter lane. Defaults to `normal` for GET/HEAD, else `high`. */
+  priority?: RequestPriority;
+  /** Credit attribution tag; see `RequestOptions.tag`. */
+  tag?: string;
+  /** Expected cost, checked against the budget guard before sending. */
+  estimatedCredits?: number;
+  /** Sends with this `keyPool` key, without failover. */
+  poolKey?: string;
+  /** Signs with the chosen pool key's `hmacSecret`, when it has one. */
+  signer?: (hmacSecret: string) => Record<string, string>;
 }
 
 /**
@@ -35,8 +125,13 @@ export interface RequestConfig extends AxiosRequestConfig {
 export const MAX_RATE_LIMIT_WAIT_MS = 60000;
 
 export class HttpClient {
-  private client: AxiosInstance;
+  private transport: Transport;
+  private headers: Record<string, string>;
   private options: HttpClientOptions;
+  private cacheStore?: CacheStore;
+  private revalidating = new Set<string>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private logger: Logger;
 
   constructor(options: HttpClientOptions) {
     this.options = {
@@ -44,103 +139,283 @@ export class HttpClient {
       retries: 3,
       retryDelay: 1000,
       debug: false,
+      dedupe: true,
       ...options,
     };
 
-    const clientConfig: any = {
-      baseURL: this.options.baseURL,
-      headers: {
-        "User-Agent": `@elfa-ai/sdk/${VERSION}`,
-        Accept: "application/json",
-        "Content-Type": "application/json",
-        ...this.options.headers,
-      },
+    this.headers = {
+      "User-Agent": `@elfa-ai/sdk/${VERSION}`,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...this.options.headers,
     };
+    this.transport = this.options.transport ?? createFetchTransport();
+    this.logger = resolveLogger(this.options);
 
-    if (this.options.timeout !== undefined) {
-      clientConfig.timeout = this.options.timeout;
+    if (this.options.cache) {
+      this.cacheStore = this.options.cache.store ?? new MemoryCacheStore();
     }
+  }
 
-    this.client = axios.create(clientConfig);
+  public async request<T = any>(config: RequestConfig): Promise<T> {
+    const cached = this.cachePolicy(config);
+    if (!cached) {
+      return this.sendShared<T>(config);
+    }
 
-    this.setupInterceptors();
-  }
+    const { store, key, ttl } = cached;
+    const entry = await store.get(key);
+    const now = Date.now();
 
-  private setupInterceptors(): void {
-    this.client.interceptors.request.use(
-      (config) => {
-        if (this.options.debug) {
-          console.log(`[HTTP] ${config.method?.toUpperCase()} ${config.url}`, {
-            params: config.params,
-            data: config.data,
-          });
-        }
-        return config;
-      },
-      (error) => Promise.reject(error),
-    );
+    if (entry && now < entry.expiresAt) {
+      this.log({ cacheKey: key }, "Cache hit");
+      return entry.value as T;
+    }
 
-    this.client.interceptors.response.use(
-      (response) => {
-        if (this.options.debug) {
-          console.log(`[HTTP] ${response.status} ${response.config.url}`, {
-            data: response.data,
-          });
-        }
-        return response;
-      },
-      (error) => this.handleResponseError(error),
-    );
+    if (entry && now < entry.staleUntil) {
+      this.log({ cacheKey: key }, "Cache stale, revalidating");
+      this.revalidate(store, key, ttl, config);
+      return entry.value as T;
+    }
+
+    const value = await this.sendShared<T>(config);
+    await store.set(key, this.cacheEntry(value, ttl));
+    return value;
   }
 
-  private handleResponseError(error: AxiosError): Promise<never> {
-    if (error.response) {
-      const { status, data } = error.response;
-      const message = extractErrorMessage(data);
+  public async clearCache(): Promise<void> {
+    await this.cacheStore?.clear();
+  }
 
-      if (status === 401) {
-        throw new AuthenticationError(message);
-      }
+  /**
+   * Only GETs are cached, and only when the endpoint has a TTL. Everything
+   * else — Auto mutations included — always goes to the network.
+   */
+  private cachePolicy(
+    config: RequestConfig,
+  ): { store: CacheStore; key: string; ttl: number } | undefined {
+    const cacheOptions = this.options.cache;
+    if (!this.cacheStore || !cacheOptions || config.cache === false) {
+      return undefined;
+    }
+    if ((config.method ?? "get").toUpperCase() !== "GET" || !config.url) {
+      return undefined;
+    }
 
-      if (status === 429) {
-        const resetTime = this.extractRateLimitReset(error.response);
-        throw new RateLimitError(message, resetTime, data);
-      }
+    const ttl = resolveCacheTtl(cacheOptions, config.url);
+    if (ttl === undefined) return undefined;
+
+    const params = config.params
+      ? `#${toQueryString(config.params).slice(1)}`
+      : "";
+    const key = `GET ${this.options.baseURL}${config.url}${params}`;
+    return { store: this.cacheStore, key, ttl };
+  }
+
+  private cacheEntry(value: unknown, ttl: number) {
+    const expiresAt = Date.now() + ttl;
+    return {
+      value,
+      expiresAt,
+      staleUntil: expiresAt + (this.options.cache?.staleWhileRevalidate ?? 0),
+    };
+  }
 
-      throw new ElfaApiError(message, status, data);
+  private revalidate(
+    store: CacheStore,
+    key: string,
+    ttl: number,
+    config: RequestConfig,
+  ): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    this.sendShared(config)
+      .then((value) => store.set(key, this.cacheEntry(value, ttl)))
+      .catch((error) => {
+        // The caller already has the stale value; the next request retries.
+        this.log(
+          { cacheKey: key, error: getErrorMessage(error) },
+          "Cache revalidation failed",
+        );
+      })
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Joins an identical GET already in flight instead of sending another.
+   * The entry is dropped as soon as it settles, so this never serves an old
+   * result — that is the cache's job.
+   */
+  private sendShared<T>(config: RequestConfig): Promise<T> {
+    const key = this.inflightKey(config);
+    if (key === undefined) {
+      return this.send<T>(config);
     }
 
-    if (error.request) {
-      throw new NetworkError(`Network error: ${error.message}`, error);
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.log(
+        { endpoint: creditEndpoint("GET", config.url ?? "") },
+        "Joining in-flight request",
+      );
+      return pending as Promise<T>;
     }
 
-    throw new NetworkError(`Request setup error: ${error.message}`, error);
+    const request = this.send<T>(config);
+    const settle = () => this.inflight.delete(key);
+    request.then(settle, settle);
+    this.inflight.set(key, request);
+    return request;
   }
 
-  private extractRateLimitReset(response: AxiosResponse): Date | undefined {
-    return computeRateLimitReset((name) => {
-      const value = response.headers[name];
-      return value == null ? undefined : String(value);
-    });
+  private inflightKey(config: RequestConfig): string | undefined {
+    if (this.options.dedupe === false) return undefined;
+    if ((config.method ?? "get").toUpperCase() !== "GET") return undefined;
+    // One caller aborting must not abort everyone who joined it.
+    if (config.signal) return undefined;
+
+    return JSON.stringify([
+      this.options.baseURL,
+      config.url,
+      config.params ?? null,
+      config.headers ?? null,
+      this.headers["x-elfa-api-key"] ?? null,
+      // A call pinned to a pool key must be sent with that key.
+      config.poolKey ?? null,
+      // Credits and budgets are kept per tag; a shared call counts for one.
+      config.tag ?? null,
+    ]);
   }
 
-  public async request<T = any>(config: RequestConfig): Promise<T> {
+  private log(fields: LogFields, message: string): void {
+    this.logger.debug(fields, message);
+  }
+
+  private async send<T>(config: RequestConfig): Promise<T> {
+    const requestId = nextRequestId();
+    const telemetry = this.options.telemetry;
+    if (!telemetry) return this.sendAttempts<T>(config, requestId);
+
+    const call = telemetry.startCall(config.method ?? "get", config.url ?? "");
+    try {
+      const value = await this.sendAttempts<T>(config, requestId, call);
+      call.end();
+      return value;
+    } catch (error) {
+      call.end(error as Error);
+      throw error;
+    }
+  }
+
+  private async sendAttempts<T>(
+    config: RequestConfig,
+    requestId: string,
+    call?: TelemetryCall,
+  ): Promise<T> {
     const method = (config.method ?? "get").toUpperCase();
     const idempotent = method === "GET" || method === "HEAD";
     const maxRetries =
       config.retries ?? (idempotent ? (this.options.retries ?? 3) : 0);
     const retryDelay = config.retryDelay ?? this.options.retryDelay ?? 1000;
 
+    const endpoint = creditEndpoint(method, config.url ?? "");
+    if (this.options.preflight) {
+      await this.options.preflight.check(endpoint);
+    }
+
+    const pool = this.options.keyPool;
+    const affinity = pool?.affinityFor(config.url ?? "", config.data);
+    let failover: { from: string; reason: KeyBenchReason } | undefined;
+    let owner: PoolKey | undefined;
+    const tried: string[] = [];
+
     let lastError: Error;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Outside the try: a refusal from our own budget guard or limiter is
+      // not a server response and must not be retried or fed back into the
+      // limiter.
+      this.options.budgetGuard?.check({
+        endpoint,
+        ...(config.tag !== undefined ? { tag: config.tag } : {}),
+        ...(config.estimatedCredits !== undefined
+          ? { estimatedCredits: config.estimatedCredits }
+          : {}),
+      });
+      const queuedAt = Date.now();
+      await this.options.rateLimiter?.acquire(
+        config.priority ?? (idempotent ? "normal" : "high"),
+        config.signal,
+      );
+      call?.queued(Date.now() - queuedAt);
+
+      const key = owner ?? this.poolKey(config, affinity, failover);
+      failover = undefined;
+      owner = undefined;
+      if (key) {
+        pool!.recordRequest(key.name);
+        tried.push(key.name);
+      }
+
       try {
-        const response = await this.client.request<T>(config);
-        return response.data;
+        const response = await this.execute(
+          method,
+          key ? withPoolKey(config, key) : config,
+          { requestId, endpoint, attempt },
+        );
+        const record = this.meter(method, config, response);
+        call?.response(response.status);
+        if (record) call?.credit(record.credits);
+        if (key) {
+          if (record) pool!.recordCredits(key.name, record.credits);
+          pool!.learn(config.url ?? "", response.data, key.name);
+          if (affinity?.owned) {
+            if (method === "DELETE") pool!.unpin(affinity.id);
+            else pool!.pin(affinity.id, key.name);
+          }
+        }
+        return response.data as T;
       } catch (error) {
         lastError = error as Error;
 
-        if (attempt === maxRetries || !isRetryableError(lastError)) {
+        const reason = key && benchReason(lastError);
+        if (key && reason) {
+          pool!.bench(
+            key.name,
+            reason,
+            isRateLimitError(lastError) ? lastError.resetTime : undefined,
+          );
+          // Another key is not a retry: the request never ran on this one.
+          if (
+            !config.poolKey &&
+            !affinity?.owned &&
+            !config.signal?.aborted &&
+            pool!.hasAlternative(key.name)
+          ) {
+            failover = { from: key.name, reason };
+            attempt--;
+            continue;
+          }
+        }
+        // An id this pool has not seen succeed may belong to another key.
+        if (key && !config.poolKey && !config.signal?.aborted) {
+          owner = pool!.nextOwner(lastError, affinity, tried);
+          if (owner) {
+            attempt--;
+            continue;
+          }
+        }
+
+        if (isRateLimitError(lastError) && lastError.resetTime) {
+          this.options.rateLimiter?.pauseUntil(lastError.resetTime);
+        }
+
+        if (
+          attempt === maxRetries ||
+          config.signal?.aborted ||
+          !isRetryableError(lastError)
+        ) {
           break;
         }
 
@@ -155,12 +430,19 @@ export class HttpClient {
           break;
         }
 
-        if (this.options.debug) {
-          console.log(
-            `[HTTP] Retry attempt ${attempt + 1}/${maxRetries} after ${wait}ms`,
-          );
-        }
+        this.log(
+          {
+            requestId,
+            endpoint,
+            attempt: attempt + 1,
+            retries: maxRetries,
+            waitMs: wait,
+            error: getErrorCode(lastError),
+          },
+          "Retrying request",
+        );
 
+        call?.retry(wait, lastError);
         await this.delay(wait);
       }
     }
@@ -168,6 +450,142 @@ export class HttpClient {
     throw lastError!;
   }
 
+  /**
+   * One attempt through the middleware and the transport; a non-2xx status
+   * throws.
+   */
+  private async execute(
+    method: string,
+    config: RequestConfig,
+    fields: { requestId: string; endpoint: string; attempt: number },
+  ): Promise<TransportResponse> {
+    const { attempt } = fields;
+    const timeout = config.timeout ?? this.options.timeout;
+    const context = createMiddlewareContext(
+      {
+        method,
+        url: this.resolveUrl(config),
+        headers: { ...this.headers, ...config.headers },
+        ...(config.data !== undefined
+          ? {
+              body:
+                typeof config.data === "string"
+                  ? config.data
+                  : JSON.stringify(config.data),
+            }
+          : {}),
+        ...(config.signal ? { signal: config.signal } : {}),
+      },
+      attempt,
+      false,
+    );
+
+    const response = await runMiddleware(
+      this.options.middleware ?? [],
+      context,
+      async (context) => {
+        this.log(
+          {
+            ...fields,
+            method,
+            url: context.url,
+            headers: context.headers,
+          },
+          "HTTP request",
+        );
+        const startedAt = Date.now();
+        let response: TransportResponse;
+        try {
+          response = await this.transport.request(
+            toTransportRequest(context, timeout, "json"),
+          );
+        } catch (error) {
+          this.log(
+            {
+              ...fields,
+              durationMs: Date.now() - startedAt,
+              error: getErrorMessage(error),
+            },
+            "HTTP request failed",
+          );
+          if (isElfaSDKError(error)) throw error;
+          throw new NetworkError(
+            `Network error: ${getErrorMessage(error)}`,
+            error instanceof Error ? error : undefined,
+          );
+        }
+
+        this.log(
+          {
+            ...fields,
+            status: response.status,
+            durationMs: Date.now() - startedAt,
+          },
+          "HTTP response",
+        );
+        if (!isSuccessStatus(response.status)) {
+          throw responseError(response);
+        }
+        return response;
+      },
+    );
+    // A middleware answering locally may answer with an error status.
+    if (!isSuccessStatus(response.status)) {
+      throw responseError(response);
+    }
+    return response;
+  }
+
+  private resolveUrl(config: RequestConfig): string {
+    const url = config.url ?? "";
+    const absolute = /^https?:\/\//i.test(url)
+      ? url
+      : `${this.options.baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+    const query = toQueryString(config.params);
+    if (!query) return absolute;
+    return absolute.includes("?")
+      ? `${absolute}&${query.slice(1)}`
+      : `${absolute}${query}`;
+  }
+
+  private poolKey(
+    config: RequestConfig,
+    affinity: KeyAffinity | undefined,
+    failover: { from: string; reason: KeyBenchReason } | undefined,
+  ): PoolKey | undefined {
+    const pool = this.options.keyPool;
+    if (!pool) return undefined;
+
+    if (config.poolKey !== undefined) {
+      const key = pool.get(config.poolKey);
+      if (!key) {
+        throw new ValidationError(`Unknown pool key: ${config.poolKey}`);
+      }
+      return key;
+    }
+
+    const key = pool.select(affinity);
+    if (failover) pool.failover(failover.from, key.name, failover.reason);
+    return key;
+  }
+
+  private meter(
+    method: string,
+    config: RequestConfig,
+    response: TransportResponse,
+  ): CreditRecord | undefined {
+    const meter = this.options.creditMeter;
+    if (!meter) return undefined;
+    const header = response.headers[CREDITS_HEADER];
+    return meter.observe({
+      method,
+      url: config.url ?? "",
+      ...(header != null ? { header: String(header) } : {}),
+      body: response.data,
+      ...(config.tag !== undefined ? { tag: config.tag } : {}),
+    });
+  }
+
   public async get<T = any>(url: string, config?: RequestConfig): Promise<T> {
     return this.request<T>({ ...config, method: "GET", url });
   }
@@ -201,21 +619,25 @@ export class HttpClient {
     );
     this.options = { ...this.options, ...patch };
 
-    if (options.baseURL !== undefined) {
-      this.client.defaults.baseURL = options.baseURL;
+    if (options.headers !== undefined) {
+      Object.assign(this.headers, options.headers);
     }
 
-    if (options.timeout !== undefined) {
-      this.client.defaults.timeout = options.timeout;
+    if (options.transport !== undefined) {
+      this.transport = options.transport;
     }
 
-    if (options.headers !== undefined) {
-      Object.assign(this.client.defaults.headers.common, options.headers);
+    if (options.logger !== undefined || options.debug !== undefined) {
+      this.logger = resolveLogger(this.options);
+    }
+
+    if (options.cache !== undefined) {
+      this.cacheStore = options.cache.store ?? new MemoryCacheStore();
     }
   }
 
   public setAuthHeader(token: string): void {
-    this.client.defaults.headers.common["x-elfa-api-key"] = token;
+    this.headers["x-elfa-api-key"] = token;
   }
 
   private delay(ms: number): Promise<void> {
@@ -223,6 +645,34 @@ export class HttpClient {
   }
 }
 
+/** `config` sent with `key`: its API key, and its signature if it signs. */
+function withPoolKey(config: RequestConfig, key: PoolKey): RequestConfig {
+  return {
+    ...config,
+    headers: {
+      ...(config.headers as Record<string, string> | undefined),
+      "x-elfa-api-key": key.apiKey,
+      ...(config.signer && key.hmacSecret ? config.signer(key.hmacSecret) : {}),
+    },
+  };
+}
+
+/** Maps per-call `RequestOptions` onto `RequestConfig`; undefined if empty. */
+export function toRequestConfig(
+  options: RequestOptions = {},
+): RequestConfig | undefined {
+  const config: RequestConfig = {};
+  if (options.cache !== undefined) config.cache = options.cache;
+  if (options.priority !== undefined) config.priority = options.priority;
+  if (options.signal !== undefined) config.signal = options.signal;
+  if (options.tag !== undefined) config.tag = options.tag;
+  if (options.estimatedCredits !== undefined) {
+    config.estimatedCredits = options.estimatedCredits;
+  }
+  if (options.poolKey !== undefined) config.poolKey = options.poolKey;
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
 export function extractErrorMessage(data: any): string {
   if (typeof data === "string") {
     return data;
@@ -245,31 +695,25 @@ export function extractErrorMessage(data: any): string {
   return "Unknown API error";
 }
 
-export async function throwForFetchResponse(
-  response: Response,
-): Promise<never> {
-  const text = await response.text().catch(() => "");
-  let data: any = text;
-  try {
-    data = text ? JSON.parse(text) : undefined;
-  } catch {
-    data = text;
-  }
-
+/** The error for a non-2xx response, by status. */
+export function responseError(response: TransportResponse): ElfaSDKError {
+  const { status, data } = response;
   const message = extractErrorMessage(data);
 
-  if (response.status === 401) {
-    throw new AuthenticationError(message);
+  if (status === 401) {
+    return new AuthenticationError(message);
   }
 
-  if (response.status === 429) {
-    const resetTime = computeRateLimitReset(
-      (name) => response.headers.get(name) ?? undefined,
-    );
-    throw new RateLimitError(message, resetTime, data);
+  if (status === 402) {
+    return new PaymentRequiredError(message, parsePaymentChallenge(data), data);
+  }
+
+  if (status === 429) {
+    const resetTime = computeRateLimitReset((name) => response.headers[name]);
+    return new RateLimitError(message, resetTime, data);
   }
 
-  throw new ElfaApiError(message, response.status, data);
+  return new ElfaApiError(message, status, data);
 }
 
 /**
@@ -1,3 +1,23 @@
 export * from "./errors.js";
 export * from "./http.js";
 export * from "./pagination.js";
+export * from "./eql.js";
+export * from "./cache.js";
+export * from "./events.js";
+export * from "./limiter.js";
+export * from "./autoEvents.js";
+export * from "./schema.js";
+export * from "./params.js";
+export * from "./x402.js";
+export * from "./autoErrors.js";
+export * from "./autoTrigger.js";
+export * from "./autoInspect.js";
+export * from "./credits.js";
+export * from "./budget.js";
+export * from "./keyStatus.js";
+export * from "./preflight.js";
+export * from "./keyPool.js";
+export * from "./transport.js";
+export * from "./middleware.js";
+export * from "./telemetry.js";
+export * from "./logger.js";
@@ -0,0 +1,448 @@
+import {
+  ValidationError,
+  isElfaSDKError,
+  isPaymentRequiredError,
+  isRateLimitError,
+} from "./errors.js";
+import { TypedEmitter } from "./events.js";
+import type { KeyStatus, KeyStatusCounts } from "./keyStatus.js";
+
+export type KeyPoolStrategy = "round-robin" | "least-used" | "sticky";
+
+export interface PoolKeyOptions {
+  apiKey: string;
+  /** Signs Auto requests sent with this key, and only those. */
+  hmacSecret?: string;
+  /**
+   * How the key shows up in `usage()` and events; unique within the pool.
+   * Defaults to a masked key, numbered when two keys mask the same.
+   */
+  name?: string;
+}
+
+export interface KeyPoolOptions {
+  keys: PoolKeyOptions[];
+  /**
+   * `round-robin` takes turns. `least-used` prefers the most remaining daily
+   * quota, then the fewest requests sent. `sticky` takes turns but keeps a
+   * chat session on the key that started it. Default `round-robin`.
+   */
+  strategy?: KeyPoolStrategy;
+  /** How long a rate-limited key sits out when no reset was sent. Default 60s. */
+  rateLimitCooldown?: number;
+}
+
+export interface PoolKey {
+  name: string;
+  apiKey: string;
+  hmacSecret?: string;
+}
+
+export type KeyBenchReason = "rate_limited" | "payment_required";
+
+export interface KeyUsage {
+  name: string;
+  requests: number;
+  credits: number;
+  rateLimited: number;
+  paymentRequired: number;
+  benched: boolean;
+  /** When a benched key returns; null if it waits for `restore`. */
+  benchedUntil: Date | null;
+  /** Remaining quota from the last `seed`, less requests sent since. */
+  remaining?: KeyStatusCounts;
+}
+
+export interface KeyPoolEvents {
+  benched: { name: string; reason: KeyBenchReason; until: Date | null };
+  failover: { from: string; to: string; reason: KeyBenchReason };
+}
+
+/** What a request is tied to: an Auto resource is owned by one key. */
+export interface KeyAffinity {
+  id: string;
+  /** Owned ids never move; session ids move when their key is benched. */
+  owned: boolean;
+}
+
+interface KeyState extends PoolKey, Omit<KeyUsage, "benched" | "benchedUntil"> {
+  /** ms timestamp; `Infinity` until `restore` for payment_required. */
+  benchedUntil: number;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN = 60_000;
+/** Most ids kept pinned; the least recently used go first. */
+const MAX_PINS = 10_000;
+
+/** An Auto query, draft or execution id in a request path. */
+const AUTO_RESOURCE_ID =
+  /\/v2\/auto\/(?:queries\/drafts|queries|executions)\/([^/?]+)/;
+const AUTO_ROUTE_LITERALS = new Set(["stream", "validate", "drafts"]);
+
+/** `elfak_...245c`, the way the API masks keys in `/v2/key-status`. */
+export function maskApiKey(apiKey: string): string {
+  const prefix = apiKey.includes("_")
+    ? apiKey.slice(0, apiKey.indexOf("_") + 1)
+    : "";
+  return `${prefix}...${apiKey.slice(-4)}`;
+}
+
+/**
+ * Several API keys behind one client. Each request takes a key by
+ * `strategy`; a key answering `429` or `402` is benched and the request
+ * fails over to the next. Auto queries and drafts stay on the key that
+ * created them, since no other key can see them; an id the pool has not
+ * seen succeed yet is looked for on each key in turn.
+ */
+export class KeyPool extends TypedEmitter<KeyPoolEvents> {
+  private readonly states: KeyState[];
+  private readonly strategy: KeyPoolStrategy;
+  private readonly rateLimitCooldown: number;
+  private readonly pins = new Map<string, string>();
+  private cursor = 0;
+
+  constructor(options: KeyPoolOptions) {
+    super();
+    if (options.keys.length === 0) {
+      throw new ValidationError("keyPool needs at least one key");
+    }
+    this.strategy = options.strategy ?? "round-robin";
+    this.rateLimitCooldown =
+      options.rateLimitCooldown ?? DEFAULT_RATE_LIMIT_COOLDOWN;
+    const names = uniqueNames(options.keys);
+    this.states = options.keys.map((key, i) => ({
+      name: names[i]!,
+      apiKey: key.apiKey,
+      ...(key.hmacSecret ? { hmacSecret: key.hmacSecret } : {}),
+      requests: 0,
+      credits: 0,
+      rateLimited: 0,
+      paymentRequired: 0,
+      benchedUntil: 0,
+    }));
+  }
+
+  public get size(): number {
+    return this.states.length;
+  }
+
+  /**
+   * The key for the next request. Benched keys are skipped; when every key
+   * is benched, the one back soonest is used rather than failing locally.
+   * An owned id is only pinned once a response confirms its key.
+   */
+  public select(affinity?: KeyAffinity, now: number = Date.now()): PoolKey {
+    const pinned = affinity && this.pins.get(affinity.id);
+    if (pinned !== undefined) {
+      const state = this.find(pinned);
+      if (state && (affinity!.owned || this.available(state, now))) {
+        this.pin(affinity!.id, pinned);
+        return toPoolKey(state);
+      }
+    }
+
+    const available = this.states.filter((state) => this.available(state, now));
+    const state =
+      available.length === 0
+        ? this.states.reduce((a, b) =>
+            b.benchedUntil < a.benchedUntil ? b : a,
+          )
+        : this.strategy === "least-used"
+          ? leastUsed(available)
+          : this.nextInTurn(available);
+
+    if (affinity && !affinity.owned && this.strategy === "sticky") {
+      this.pin(affinity.id, state.name);
+    }
+    return toPoolKey(state);
+  }
+
+  /** The named key, benched or not. */
+  public get(name: string): PoolKey | undefined {
+    const state = this.find(name);
+    return state && toPoolKey(state);
+  }
+
+  /**
+   * What a request is tied to: the Auto resource in its path, else the chat
+   * `sessionId` in its body.
+   */
+  public affinityFor(url: string, body?: unknown): KeyAffinity | undefined {
+    const id = AUTO_RESOURCE_ID.exec(url)?.[1];
+    if (id !== undefined && !AUTO_ROUTE_LITERALS.has(id)) {
+      return { id: `auto:${id}`, owned: true };
+    }
+    const sessionId = readRecord(parseBody(body))?.sessionId;
+    return typeof sessionId === "string"
+      ? { id: `session:${sessionId}`, owned: false }
+      : undefined;
+  }
+
+  /**
+   * Pins what a response created to the key that created it: Auto queries
+   * and drafts always, chat sessions under `sticky`.
+   */
+  public learn(url: string, body: unknown, name: string): void {
+    const record = readRecord(body);
+    if (!record) return;
+
+    if (url.includes("/v2/auto/queries")) {
+      const query = readRecord(record.query);
+      for (const id of [record.queryId, record.id, query?.queryId, query?.id]) {
+        if (typeof id === "string") this.pin(`auto:${id}`, name);
+      }
+    }
+    if (this.strategy === "sticky") {
+      const sessionId = record.sessionId ?? readRecord(record.data)?.sessionId;
+      if (typeof sessionId === "string") {
+        this.pin(`session:${sessionId}`, name);
+      }
+    }
+  }
+
+  /** Ties `id` to a key, e.g. an Auto query to the key that created it. */
+  public pin(id: string, name: string): void {
+    if (!this.find(name)) return;
+    this.pins.delete(id);
+    this.pins.set(id, name);
+    if (this.pins.size > MAX_PINS) {
+      this.pins.delete(this.pins.keys().next().value!);
+    }
+  }
+
+  /** Forgets `id`'s key, e.g. once its Auto query is deleted. */
+  public unpin(id: string): void {
+    this.pins.delete(id);
+  }
+
+  /**
+   * After a `404` for an owned id with no pin: a key not in `tried` that
+   * may own it, preferring keys in rotation. Undefined for other errors,
+   * for a pinned id, or once every key has been tried.
+   */
+  public nextOwner(
+    error: Error,
+    affinity: KeyAffinity | undefined,
+    tried: string[],
+    now: number = Date.now(),
+  ): PoolKey | undefined {
+    if (!affinity?.owned || this.pins.has(affinity.id)) return undefined;
+    if (!isElfaSDKError(error) || error.statusCode !== 404) return undefined;
+    const untried = this.states.filter((state) => !tried.includes(state.name));
+    const state =
+      untried.find((state) => this.available(state, now)) ?? untried[0];
+    return state && toPoolKey(state);
+  }
+
+  /** Whether a key other than `name` is in rotation. */
+  public hasAlternative(name: string, now: number = Date.now()): boolean {
+    return this.states.some(
+      (state) => state.name !== name && this.available(state, now),
+    );
+  }
+
+  /** Counts a request sent with `name`. */
+  public recordRequest(name: string): void {
+    const state = this.find(name);
+    if (!state) return;
+    state.requests += 1;
+    if (state.remaining) {
+      state.remaining = {
+        daily: Math.max(0, state.remaining.daily - 1),
+        monthly: Math.max(0, state.remaining.monthly - 1),
+      };
+    }
+  }
+
+  public recordCredits(name: string, credits: number): void {
+    const state = this.find(name);
+    if (state) state.credits += credits;
+  }
+
+  /**
+   * Takes `name` out of rotation: a rate-limited key until `until` (or
+   * `rateLimitCooldown`), a key that needs payment until `restore`.
+   */
+  public bench(
+    name: string,
+    reason: KeyBenchReason,
+    until?: Date,
+    now: number = Date.now(),
+  ): void {
+    const state = this.find(name);
+    if (!state) return;
+    if (reason === "rate_limited") {
+      state.rateLimited += 1;
+      state.benchedUntil = until?.getTime() ?? now + this.rateLimitCooldown;
+    } else {
+      state.paymentRequired += 1;
+      state.benchedUntil = Infinity;
+    }
+    this.emit("benched", {
+      name,
+      reason,
+      until: Number.isFinite(state.benchedUntil)
+        ? new Date(state.benchedUntil)
+        : null,
+    });
+  }
+
+  /** Puts a benched key back in rotation. */
+  public restore(name: string): void {
+    const state = this.find(name);
+    if (state) state.benchedUntil = 0;
+  }
+
+  /** Reports a failover from one key to another; see the `failover` event. */
+  public failover(from: string, to: string, reason: KeyBenchReason): void {
+    this.emit("failover", { from, to, reason });
+  }
+
+  /**
+   * After `error` on `key`: benches the key on a `429` or `402` and returns
+   * the key to resend with, reporting the failover. Undefined when the error
+   * is of another kind, `affinity` owns the key, or no other key is in
+   * rotation.
+   */
+  public failoverFrom(
+    key: PoolKey,
+    error: Error,
+    affinity?: KeyAffinity,
+  ): PoolKey | undefined {
+    const reason = benchReason(error);
+    if (!reason) return undefined;
+    this.bench(
+      key.name,
+      reason,
+      isRateLimitError(error) ? error.resetTime : undefined,
+    );
+    if (affinity?.owned || !this.hasAlternative(key.name)) return undefined;
+
+    const next = this.select(affinity);
+    this.failover(key.name, next.name, reason);
+    return next;
+  }
+
+  /**
+   * Adopts a key's status: its remaining quota for `least-used` (unknown
+   * unless both windows are reported), and its bench — a `payment_required`
+   * key is benched, and an active key benched for payment is restored.
+   */
+  public seed(name: string, status: KeyStatus): void {
+    const state = this.find(name);
+    if (!state) return;
+    const { daily, monthly } = status.remaining;
+    state.remaining =
+      daily !== undefined && monthly !== undefined
+        ? { daily, monthly }
+        : undefined;
+    if (status.status === "payment_required") {
+      if (Number.isFinite(state.benchedUntil)) {
+        this.bench(name, "payment_required");
+      }
+    } else if (status.status === "active" && state.benchedUntil === Infinity) {
+      this.restore(name);
+    }
+  }
+
+  public usage(now: number = Date.now()): KeyUsage[] {
+    return this.states.map((state) => ({
+      name: state.name,
+      requests: state.requests,
+      credits: state.credits,
+      rateLimited: state.rateLimited,
+      paymentRequired: state.paymentRequired,
+      benched: !this.available(state, now),
+      benchedUntil:
+        state.benchedUntil > now && Number.isFinite(state.benchedUntil)
+          ? new Date(state.benchedUntil)
+          : null,
+      ...(state.remaining ? { remaining: { ...state.remaining } } : {}),
+    }));
+  }
+
+  public names(): string[] {
+    return this.states.map((state) => state.name);
+  }
+
+  private find(name: string): KeyState | undefined {
+    return this.states.find((state) => state.name === name);
+  }
+
+  private available(state: KeyState, now: number): boolean {
+    return state.benchedUntil <= now;
+  }
+
+  private nextInTurn(available: KeyState[]): KeyState {
+    for (let i = 0; i < this.states.length; i++) {
+      const state = this.states[(this.cursor + i) % this.states.length]!;
+      if (available.includes(state)) {
+        this.cursor = (this.states.indexOf(state) + 1) % this.states.length;
+        return state;
+      }
+    }
+    return available[0]!;
+  }
+}
+
+/** Explicit names must differ; masked defaults that collide are numbered. */
+function uniqueNames(keys: PoolKeyOptions[]): string[] {
+  const taken = new Set<string>();
+  for (const key of keys) {
+    if (key.name === undefined) continue;
+    if (taken.has(key.name)) {
+      throw new ValidationError(`Duplicate pool key name: ${key.name}`);
+    }
+    taken.add(key.name);
+  }
+  return keys.map((key) => {
+    if (key.name !== undefined) return key.name;
+    const masked = maskApiKey(key.apiKey);
+    let name = masked;
+    for (let n = 2; taken.has(name); n++) name = `${masked}#${n}`;
+    taken.add(name);
+    return name;
+  });
+}
+
+function readRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/** Request bodies reach the transport already serialised by some callers. */
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string" || !body.startsWith("{")) return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function leastUsed(available: KeyState[]): KeyState {
+  return available.reduce((best, state) => {
+    const remaining = state.remaining?.daily ?? Infinity;
+    const bestRemaining = best.remaining?.daily ?? Infinity;
+    if (remaining !== bestRemaining) {
+      return remaining > bestRemaining ? state : best;
+    }
+    return state.requests < best.requests ? state : best;
+  });
+}
+
+function toPoolKey(state: KeyState): PoolKey {
+  return {
+    name: state.name,
+    apiKey: state.apiKey,
+    ...(state.hmacSecret ? { hmacSecret: state.hmacSecret } : {}),
+  };
+}
+
+/** Why a key sits out after `error`; undefined if the key is not at fault. */
+export function benchReason(error: Error): KeyBenchReason | undefined {
+  if (isRateLimitError(error)) return "rate_limited";
+  if (isPaymentRequiredError(error)) return "payment_required";
+  return undefined;
+}
@@ -0,0 +1,117 @@
+import type {
+  ApiKeyStatus,
+  ApiKeyStatusData,
+  BillingMode,
+} from "../types/elfa.js";
+
+export interface KeyStatusCounts {
+  daily: number;
+  monthly: number;
+}
+
+export type KeyStatusWindow = keyof KeyStatusCounts;
+
+/**
+ * `getApiKeyStatus()`'s data as one shape, whichever of `ApiKeyStatus` or
+ * the older `ApiKeyStatusData` the API sent. Fields the older shape lacks
+ * read as their "none" value: no scopes, HMAC and Auto off, no expiry.
+ * Missing usage counts read as 0, so a partial response does not throw;
+ * missing remaining counts stay unset, since 0 would mean the key is spent.
+ */
+export class KeyStatus {
+  public readonly name: string;
+  public readonly tier: string;
+  /** Unset in the older shape, which does not report it. */
+  public readonly status?: ApiKeyStatus["status"];
+  public readonly billingMode?: BillingMode;
+  public readonly limits: KeyStatusCounts & { perMinute: number | null };
+  public readonly usage: KeyStatusCounts;
+  /** Unset per window when the older shape sends no usage. */
+  public readonly remaining: Partial<KeyStatusCounts>;
+  public readonly scopes: string[];
+  public readonly hmacEnabled: boolean;
+  /** Whether the key is provisioned for Auto (`athenaEnabled`). */
+  public readonly autoEnabled: boolean;
+  public readonly expiresAt: Date | null;
+  public readonly isExpired: boolean;
+  public readonly allowOverage: boolean;
+  public readonly maxOverage: number | null;
+  public readonly spendCapCredits: number | null;
+
+  constructor(data: ApiKeyStatus | ApiKeyStatusData) {
+    this.name = data.name;
+    this.tier = data.tier;
+    this.allowOverage = data.allowOverage ?? false;
+    this.maxOverage = data.maxOverage ?? null;
+
+    if ("remainingRequests" in data) {
+      this.status = data.status;
+      this.billingMode = data.billingMode;
+      this.limits = {
+        daily: data.dailyRequestLimit,
+        monthly: data.monthlyRequestLimit,
+        perMinute: data.requestsPerMinute ?? null,
+      };
+      this.usage = {
+        daily: data.usage?.daily ?? 0,
+        monthly: data.usage?.monthly ?? 0,
+      };
+      this.remaining = {
+        daily: data.remainingRequests.daily,
+        monthly: data.remainingRequests.monthly,
+      };
+      this.scopes = [...(data.scopes ?? [])];
+      this.hmacEnabled = data.hmacEnabled ?? false;
+      this.autoEnabled = data.athenaEnabled ?? false;
+      this.expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+      this.isExpired = data.isExpired ?? false;
+      this.spendCapCredits = data.spendCapCredits ?? null;
+    } else {
+      this.limits = {
+        daily: data.dailyLimit,
+        monthly: data.monthlyLimit,
+        perMinute: null,
+      };
+      this.usage = {
+        daily: data.usage?.today ?? 0,
+        monthly: data.usage?.month ?? 0,
+      };
+      this.remaining = {
+        daily: data.usage?.remainingDaily,
+        monthly: data.usage?.remainingMonthly,
+      };
+      this.scopes = [];
+      this.hmacEnabled = false;
+      this.autoEnabled = false;
+      this.expiresAt = null;
+      this.isExpired = false;
+      this.spendCapCredits = null;
+    }
+  }
+
+  /**
+   * Whether the key holds `scope`, as named in its key status. Auto access
+   * is `autoEnabled`, not a scope.
+   */
+  public hasScope(scope: string): boolean {
+    return this.scopes.includes(scope);
+  }
+
+  /**
+   * Whether usage has reached `percent` of the limit, in `window` or in
+   * either window when omitted. A window without a limit is never near it.
+   */
+  public isNearLimit(percent: number = 90, window?: KeyStatusWindow): boolean {
+    const windows: KeyStatusWindow[] = window ? [window] : ["daily", "monthly"];
+    return windows.some((w) => {
+      const limit = this.limits[w];
+      return limit > 0 && (this.usage[w] / limit) * 100 >= percent;
+    });
+  }
+
+  /** Milliseconds until the key expires, 0 once it has; null if it never does. */
+  public timeUntilExpiry(now: number = Date.now()): number | null {
+    if (!this.expiresAt) return null;
+    return Math.max(0, this.expiresAt.getTime() - now);
+  }
+}
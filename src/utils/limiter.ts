@@ -0,0 +1,284 @@
+import { RateLimitError, RateLimitQueueFullError } from "./errors.js";
+import { TypedEmitter } from "./events.js";
+import type { ApiKeyStatusResponse } from "../types/elfa.js";
+import { KeyStatus } from "./keyStatus.js";
+
+/**
+ * Queue lane for a request. `high` drains first: by default Auto mutations
+ * (every non-`GET`) run there, data reads in `normal`, and bulk pulls such as
+ * paginated iteration should ask for `low`.
+ */
+export type RequestPriority = "high" | "normal" | "low";
+
+export interface RateLimiterOptions {
+  /** Bucket size and refill rate. Unset means no per-minute throttling. */
+  requestsPerMinute?: number;
+  /** Requests left today; at 0 every call is refused until re-seeded. */
+  dailyRemaining?: number;
+  /** Requests left this month; at 0 every call is refused until re-seeded. */
+  monthlyRemaining?: number;
+  /** Used for the default `lowBudgetThreshold`. */
+  dailyLimit?: number;
+  /** Most requests allowed to wait at once. Default 100. */
+  maxQueueSize?: number;
+  /**
+   * `dailyBudgetLow` fires once when `dailyRemaining` drops to this.
+   * Defaults to 10% of `dailyLimit` when that is known.
+   */
+  lowBudgetThreshold?: number;
+}
+
+export interface RateLimiterEvents {
+  dailyBudgetLow: { remaining: number; limit?: number };
+  dailyBudgetExhausted: { resetTime: Date };
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+const LANES: RequestPriority[] = ["high", "normal", "low"];
+
+/**
+ * Client-side token bucket that keeps a key under its limits instead of
+ * finding them with a `429`. Shared by every client built from one
+ * `ElfaSDK`, since they spend the same key's budget.
+ */
+export class RateLimiter extends TypedEmitter<RateLimiterEvents> {
+  private capacity?: number;
+  private tokens = 0;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private dailyRemaining?: number;
+  private monthlyRemaining?: number;
+  private dailyLimit?: number;
+  private lowBudgetThreshold?: number;
+  private lowBudgetNotified = false;
+  private maxQueueSize: number;
+  private queues: Record<RequestPriority, Waiter[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    super();
+    this.maxQueueSize = options.maxQueueSize ?? 100;
+    this.configure(options);
+  }
+
+  public configure(options: RateLimiterOptions): void {
+    if (options.maxQueueSize !== undefined) {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+    if (options.requestsPerMinute !== undefined) {
+      this.refill();
+      this.tokens =
+        this.capacity === undefined
+          ? options.requestsPerMinute
+          : Math.min(this.tokens, options.requestsPerMinute);
+      this.capacity = options.requestsPerMinute;
+    }
+    if (options.dailyLimit !== undefined) this.dailyLimit = options.dailyLimit;
+    if (options.monthlyRemaining !== undefined) {
+      this.monthlyRemaining = options.monthlyRemaining;
+    }
+    if (options.lowBudgetThreshold !== undefined) {
+      this.lowBudgetThreshold = options.lowBudgetThreshold;
+    } else if (this.dailyLimit !== undefined) {
+      this.lowBudgetThreshold = Math.ceil(this.dailyLimit * 0.1);
+    }
+    if (options.dailyRemaining !== undefined) {
+      this.dailyRemaining = options.dailyRemaining;
+      this.lowBudgetNotified =
+        this.lowBudgetThreshold !== undefined &&
+        this.dailyRemaining <= this.lowBudgetThreshold;
+    }
+    this.drain();
+  }
+
+  /** Adopts the limits `getApiKeyStatus()` reports, in either shape. */
+  public seed(status: ApiKeyStatusResponse): void {
+    const { limits, remaining } = new KeyStatus(status.data);
+    this.configure({
+      ...(limits.perMinute !== null
+        ? { requestsPerMinute: limits.perMinute }
+        : {}),
+      ...(remaining.daily !== undefined
+        ? { dailyRemaining: remaining.daily }
+        : {}),
+      ...(remaining.monthly !== undefined
+        ? { monthlyRemaining: remaining.monthly }
+        : {}),
+      dailyLimit: limits.daily,
+    });
+  }
+
+  /**
+   * Resolves when a request may be sent. Rejects with `RateLimitError` once
+   * the daily or monthly budget is spent, with `RateLimitQueueFullError`
+   * when `maxQueueSize` requests are already waiting, and with the signal's
+   * reason on abort, giving up its place in the queue.
+   */
+  public acquire(
+    priority: RequestPriority = "normal",
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    try {
+      this.checkBudget();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (this.queueSize === 0 && this.take()) {
+      this.spend();
+      return Promise.resolve();
+    }
+
+    if (this.queueSize >= this.maxQueueSize) {
+      return Promise.reject(
+        new RateLimitQueueFullError(
+          `Rate limiter queue is full (${this.maxQueueSize} waiting)`,
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index !== -1) queue.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /** Holds every queued request until `time`, e.g. a server `429` reset. */
+  public pauseUntil(time: Date): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time.getTime());
+    this.schedule();
+  }
+
+  public get queueSize(): number {
+    return LANES.reduce((total, lane) => total + this.queues[lane].length, 0);
+  }
+
+  public get remaining(): { daily?: number; monthly?: number } {
+    return { daily: this.dailyRemaining, monthly: this.monthlyRemaining };
+  }
+
+  private drain(): void {
+    for (const lane of LANES) {
+      const queue = this.queues[lane];
+      while (queue.length > 0) {
+        try {
+          this.checkBudget();
+        } catch (error) {
+          queue.shift()!.reject(error as Error);
+          continue;
+        }
+        if (!this.take()) {
+          this.schedule();
+          return;
+        }
+        this.spend();
+        queue.shift()!.resolve();
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer !== undefined || this.queueSize === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, this.waitMs());
+  }
+
+  private waitMs(): number {
+    const now = Date.now();
+    const pause = Math.max(0, this.pausedUntil - now);
+    if (this.capacity === undefined || this.tokens >= 1) return pause;
+    const perTokenMs = 60000 / this.capacity;
+    return Math.max(pause, Math.ceil((1 - this.tokens) * perTokenMs));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.capacity !== undefined) {
+      const earned = ((now - this.refilledAt) * this.capacity) / 60000;
+      this.tokens = Math.min(this.capacity, this.tokens + earned);
+    }
+    this.refilledAt = now;
+  }
+
+  private take(): boolean {
+    if (Date.now() < this.pausedUntil) return false;
+    if (this.capacity === undefined) return true;
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  private checkBudget(): void {
+    if (this.monthlyRemaining !== undefined && this.monthlyRemaining <= 0) {
+      throw new RateLimitError(
+        "Monthly request budget exhausted",
+        nextUtcMonth(),
+      );
+    }
+    if (this.dailyRemaining !== undefined && this.dailyRemaining <= 0) {
+      throw new RateLimitError("Daily request budget exhausted", nextUtcDay());
+    }
+  }
+
+  private spend(): void {
+    if (this.monthlyRemaining !== undefined) this.monthlyRemaining -= 1;
+    if (this.dailyRemaining === undefined) return;
+
+    this.dailyRemaining -= 1;
+    if (
+      !this.lowBudgetNotified &&
+      this.lowBudgetThreshold !== undefined &&
+      this.dailyRemaining <= this.lowBudgetThreshold
+    ) {
+      this.lowBudgetNotified = true;
+      this.emit("dailyBudgetLow", {
+        remaining: this.dailyRemaining,
+        limit: this.dailyLimit,
+      });
+    }
+    if (this.dailyRemaining === 0) {
+      this.emit("dailyBudgetExhausted", { resetTime: nextUtcDay() });
+    }
+  }
+}
+
+function nextUtcDay(): Date {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+  );
+}
+
+function nextUtcMonth(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
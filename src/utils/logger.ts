@@ -0,0 +1,141 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured context for a log line. Secrets are redacted before it is sent. */
+export interface LogFields {
+  requestId?: string;
+  /** `METHOD /path`, with ids collapsed, e.g. `GET /v2/auto/queries/{id}`. */
+  endpoint?: string;
+  /** 0 for the first attempt, then 1 per retry. */
+  attempt?: number;
+  durationMs?: number;
+  [field: string]: unknown;
+}
+
+type LogMethod = (fields: LogFields, message: string) => void;
+
+/**
+ * Where the SDK's logs go. Fields come first, then the message, as pino
+ * takes them, so a pino logger can be passed as is; see the README for
+ * winston. Filtering by level is the logger's job.
+ */
+export interface Logger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = "[REDACTED]";
+
+/** Field and header names whose values are never logged, lower-cased. */
+const SECRET_KEYS = new Set([
+  "x-elfa-api-key",
+  "x-elfa-signature",
+  "x-elfa-agent-secret",
+  "authorization",
+  "apikey",
+  "elfaapikey",
+  "hmacsecret",
+  "agentsecret",
+]);
+
+/** Redacted objects deeper than this are cut, so a cycle cannot hang a log. */
+const MAX_DEPTH = 8;
+
+export interface ConsoleLoggerOptions {
+  /** Lines below this level are dropped. Default `debug`. */
+  level?: LogLevel;
+}
+
+/**
+ * Logs to the console as `[Elfa] message` plus its fields: `debug` and
+ * `info` through `console.log`, `warn` and `error` through their own.
+ */
+export function createConsoleLogger(
+  options: ConsoleLoggerOptions = {},
+): Logger {
+  const threshold = LEVELS[options.level ?? "debug"];
+  const method =
+    (level: LogLevel, write: (...args: unknown[]) => void): LogMethod =>
+    (fields, message) => {
+      if (LEVELS[level] < threshold) return;
+      if (Object.keys(fields).length === 0) write(`[Elfa] ${message}`);
+      else write(`[Elfa] ${message}`, fields);
+    };
+  return {
+    debug: method("debug", (...args) => console.log(...args)),
+    info: method("info", (...args) => console.log(...args)),
+    warn: method("warn", (...args) => console.warn(...args)),
+    error: method("error", (...args) => console.error(...args)),
+  };
+}
+
+/**
+ * The logger the SDK writes to: `logger` when given, else the console —
+ * everything with `debug`, warnings only without. Either way fields are
+ * redacted first, and a throwing logger cannot fail a request.
+ */
+export function resolveLogger(options: {
+  logger?: Logger | undefined;
+  debug?: boolean | undefined;
+}): Logger {
+  const target =
+    options.logger ??
+    createConsoleLogger({ level: options.debug ? "debug" : "warn" });
+  const method =
+    (level: LogLevel): LogMethod =>
+    (fields, message) => {
+      try {
+        target[level](redact(fields) as LogFields, message);
+      } catch {
+        // A logger's bug is not the request's failure.
+      }
+    };
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
+
+/**
+ * A copy of `value` with every secret field replaced by `[REDACTED]`: API
+ * keys, signatures, agent and HMAC secrets, matched by name at any depth.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[Truncated]";
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  if (!isPlainObject(value)) return value;
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = SECRET_KEYS.has(key.toLowerCase())
+      ? REDACTED
+      : redact(field, depth + 1);
+  }
+  return copy;
+}
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+let lastRequestId = 0;
+
+/** Ties a request's log lines together; unique within the process. */
+export function nextRequestId(): string {
+  lastRequestId += 1;
+  return `req-${lastRequestId}`;
+}
@@ -0,0 +1,92 @@
+import type { TransportRequest, TransportResponse } from "./transport.js";
+
+/**
+ * One request on its way out. Middleware may change `url`, `headers` and
+ * `body` before calling `next`; the rest describes the call.
+ */
+export interface MiddlewareContext {
+  readonly method: string;
+  /** The URL's path, e.g. `/v2/aggregations/trending-tokens`. */
+  readonly path: string;
+  /** The URL's query parameters. */
+  readonly params: Readonly<Record<string, string>>;
+  /** Absolute, query string included. */
+  url: string;
+  headers: Record<string, string>;
+  /** Already serialised. */
+  body?: string;
+  /** 0 for the first attempt, then 1 per retry. */
+  readonly attempt: number;
+  /** True for SSE streams, whose response carries an unread `body`. */
+  readonly stream: boolean;
+  /** ms timestamp the attempt started at. */
+  readonly startedAt: number;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Runs around each attempt, streams included. `next` sends the request —
+ * or the next middleware's version of it — and resolves with a `2xx`
+ * response; any other status rejects with its `ElfaSDKError`, as does a
+ * network failure. Return a response without calling `next` to answer
+ * locally, or call `next` again to retry.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<TransportResponse>,
+) => Promise<TransportResponse>;
+
+export function createMiddlewareContext(
+  request: Omit<TransportRequest, "timeout" | "responseType">,
+  attempt: number,
+  stream: boolean,
+): MiddlewareContext {
+  const url = new URL(request.url);
+  return {
+    method: request.method,
+    path: url.pathname,
+    params: Object.fromEntries(url.searchParams),
+    url: request.url,
+    headers: { ...request.headers },
+    ...(request.body !== undefined ? { body: request.body } : {}),
+    attempt,
+    stream,
+    startedAt: Date.now(),
+    ...(request.signal ? { signal: request.signal } : {}),
+  };
+}
+
+/**
+ * Passes `context` through `middleware` in order, then to `send`. The list
+ * is read once, so `use` during a request applies from the next one.
+ */
+export function runMiddleware(
+  middleware: readonly Middleware[],
+  context: MiddlewareContext,
+  send: (context: MiddlewareContext) => Promise<TransportResponse>,
+): Promise<TransportResponse> {
+  const stack = [...middleware];
+  const dispatch = async (index: number): Promise<TransportResponse> => {
+    const current = stack[index];
+    if (!current) return send(context);
+    return current(context, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
+
+/** The request `context` describes now that middleware has had its say. */
+export function toTransportRequest(
+  context: MiddlewareContext,
+  timeout: number | undefined,
+  responseType: TransportRequest["responseType"],
+): TransportRequest {
+  return {
+    method: context.method,
+    url: context.url,
+    headers: context.headers,
+    ...(context.body !== undefined ? { body: context.body } : {}),
+    ...(timeout ? { timeout } : {}),
+    ...(context.signal ? { signal: context.signal } : {}),
+    responseType,
+  };
+}
@@ -1,3 +1,5 @@
+import type { IterateOptions, RequestOptions } from "../types/options.js";
+
 export interface PaginationResult<T> {
   data: T[];
   hasNextPage: boolean;
@@ -18,6 +20,22 @@ export interface PagePaginationParams {
   pageSize?: number;
 }
 
+/** Limits for the item iterators (`iterateKeywordMentions` and friends). */
+export interface IterateLimits {
+  /** Stop after yielding this many items. */
+  maxItems?: number;
+  /** Stop after fetching this many pages. */
+  maxPages?: number;
+  /** Aborts the in-flight page request and ends iteration with its reason. */
+  signal?: AbortSignal;
+}
+
+/** One fetched page: its items and the cursor for the next, if any. */
+export interface ItemPage<TItem, TCursor> {
+  items: TItem[];
+  next?: TCursor | undefined;
+}
+
 export class PaginationHelper {
   public static createCursorResult<T>(
     data: T[],
@@ -193,4 +211,62 @@ export class PaginationHelper {
 
     return allItems;
   }
+
+  /**
+   * Yields items one at a time across pages. `fetchPage` gets the cursor
+   * (page number, offset or timestamp) and reports the next one; iteration
+   * ends when it reports none, a page comes back empty, or a limit is hit.
+   */
+  public static async *iterateItems<TItem, TCursor>(
+    fetchPage: (cursor: TCursor) => Promise<ItemPage<TItem, TCursor>>,
+    start: TCursor,
+    limits: IterateLimits = {},
+  ): AsyncGenerator<TItem, void, unknown> {
+    const { maxItems, maxPages, signal } = limits;
+    let cursor = start;
+    let items = 0;
+
+    for (let pages = 0; maxPages === undefined || pages < maxPages; pages++) {
+      if (maxItems !== undefined && items >= maxItems) return;
+      signal?.throwIfAborted();
+
+      const page = await fetchPage(cursor);
+      for (const item of page.items) {
+        if (maxItems !== undefined && items >= maxItems) return;
+        items++;
+        yield item;
+      }
+
+      if (
+        page.items.length === 0 ||
+        page.next === undefined ||
+        page.next === cursor
+      ) {
+        return;
+      }
+      cursor = page.next;
+    }
+  }
+
+  /** Next page number from `{ page, pageSize, total }` metadata. */
+  public static nextPage(
+    metadata: { page: number; pageSize: number; total: number },
+    count: number,
+  ): number | undefined {
+    const { page, pageSize, total } = metadata;
+    if (count === 0 || !(pageSize > 0)) return undefined;
+    return page * pageSize < total ? page + 1 : undefined;
+  }
+}
+
+/**
+ * Per-page request options for the iterators: every `RequestOptions` field
+ * the caller set, with bulk pulls defaulting to `low`.
+ */
+export function pageRequestOptions(options: IterateOptions): RequestOptions {
+  const { maxItems, maxPages, priority = "low", ...request } = options;
+  const forwarded = Object.fromEntries(
+    Object.entries(request).filter(([, value]) => value !== undefined),
+  );
+  return { priority, ...forwarded };
 }
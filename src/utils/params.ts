@@ -0,0 +1,37 @@
+import { ValidationError } from "./errors.js";
+
+/** `?a=1&b=2` from the defined entries of `params`, or `""` when none are. */
+export function toQueryString(params?: object): string {
+  if (!params) return "";
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) {
+      search.append(key, String(value));
+    }
+  }
+  const str = search.toString();
+  return str ? `?${str}` : "";
+}
+
+/** The aggregation endpoints need either `timeWindow` or both `from` and `to`. */
+export function validateTimeWindowOrFromTo(params: {
+  timeWindow?: string;
+  from?: number;
+  to?: number;
+}): void {
+  const hasTimeWindow = !!params.timeWindow;
+  const hasFrom = params.from !== undefined;
+  const hasTo = params.to !== undefined;
+
+  if ((hasFrom && !hasTo) || (!hasFrom && hasTo)) {
+    throw new ValidationError(
+      "When using from/to parameters, both from and to must be provided",
+    );
+  }
+
+  if (!hasTimeWindow && (!hasFrom || !hasTo)) {
+    throw new ValidationError(
+      "You must provide either timeWindow or both from and to parameters",
+    );
+  }
+}
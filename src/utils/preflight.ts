@@ -0,0 +1,179 @@
+import { InsufficientScopeError, type CapabilityFeature } from "./errors.js";
+import type { KeyStatus } from "./keyStatus.js";
+import type { KeyStatusResponse } from "../types/elfa.js";
+import { resolveLogger, type Logger } from "./logger.js";
+
+/** What a call needs from the key. Both must hold when both are set. */
+export interface CapabilityRequirement {
+  scope?: string;
+  feature?: CapabilityFeature;
+}
+
+export interface PreflightOptions {
+  /**
+   * Requirements by endpoint, as `METHOD /path` with ids as `{id}` (the form
+   * `sdk.credits` reports). Merged over `DEFAULT_REQUIREMENTS`; `null`
+   * removes a default.
+   */
+  requirements?: Record<string, CapabilityRequirement | null>;
+}
+
+export interface Capabilities {
+  /**
+   * False when the key status came in the older shape, which carries no
+   * scopes or feature flags. Nothing is then refused locally.
+   */
+  known: boolean;
+  scopes: string[];
+  auto: boolean;
+  /** The key requires HMAC signatures on Auto trade actions. */
+  hmacRequired: boolean;
+  /** An `hmacSecret` is configured, so Auto requests are signed. */
+  hmacConfigured: boolean;
+  /** Each endpoint with a requirement, and whether this key meets it. */
+  endpoints: Record<string, boolean>;
+  keyStatus: KeyStatus;
+}
+
+/**
+ * The Auto routes that answer 403 "Auto is not enabled for this API key".
+ * The API documents no scope names, so scopes are only checked where
+ * `requirements` names them.
+ */
+export const DEFAULT_REQUIREMENTS: Readonly<
+  Record<string, CapabilityRequirement>
+> = {
+  "POST /v2/auto/chat": { feature: "auto" },
+  "GET /v2/auto/validate-symbol/{exchange}/{symbol}": { feature: "auto" },
+  "POST /v2/auto/queries/validate": { feature: "auto" },
+  "POST /v2/auto/queries": { feature: "auto" },
+};
+
+/** Fetching key status must not wait on its own preflight. */
+const EXEMPT = new Set(["GET /v2/key-status", "GET /v2/ping"]);
+
+export interface PreflightDeps {
+  loadStatus: () => Promise<KeyStatusResponse>;
+  /** Read on each load, so a secret added by `updateOptions` counts. */
+  hmacConfigured: () => boolean;
+  /** Where warnings go, read on each load; the console by default. */
+  logger?: () => Logger;
+}
+
+/**
+ * Fetches key status once and refuses calls the key cannot make with
+ * `InsufficientScopeError`, before they are sent. A failed status fetch lets
+ * calls through for the server to decide, and is retried on the next check.
+ * It holds one key's status, so with a key pool it checks the first key only.
+ */
+export class Preflight {
+  private deps: PreflightDeps;
+  private requirements: Record<string, CapabilityRequirement>;
+  private loading?: Promise<Capabilities>;
+
+  constructor(deps: PreflightDeps, options: PreflightOptions = {}) {
+    this.deps = deps;
+    this.requirements = mergeRequirements(options.requirements);
+  }
+
+  public configure(options: PreflightOptions): void {
+    this.requirements = mergeRequirements(options.requirements);
+  }
+
+  public capabilities(): Promise<Capabilities> {
+    if (!this.loading) {
+      this.loading = this.load();
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  /** Drops the cached status; the next check fetches it again. */
+  public refresh(): void {
+    this.loading = undefined;
+  }
+
+  public async check(endpoint: string): Promise<void> {
+    const requirement = this.requirements[endpoint];
+    if (!requirement || EXEMPT.has(endpoint)) return;
+
+    let capabilities: Capabilities;
+    try {
+      capabilities = await this.capabilities();
+    } catch {
+      return;
+    }
+    if (!capabilities.known) return;
+
+    const missing = unmet(requirement, capabilities.keyStatus);
+    if (missing) {
+      throw new InsufficientScopeError(endpoint, {
+        ...missing,
+        ...(missing.scope !== undefined ? { scopes: capabilities.scopes } : {}),
+      });
+    }
+  }
+
+  private async load(): Promise<Capabilities> {
+    const response = await this.deps.loadStatus();
+    const { keyStatus } = response;
+    const known = "scopes" in response.data;
+    const hmacConfigured = this.deps.hmacConfigured();
+
+    if (known && keyStatus.hmacEnabled && !hmacConfigured) {
+      const logger = this.deps.logger?.() ?? resolveLogger({});
+      logger.warn(
+        {},
+        "This key requires HMAC signatures on Auto trade actions, " +
+          "but no hmacSecret is configured; they will be rejected",
+      );
+    }
+
+    const endpoints: Record<string, boolean> = {};
+    for (const [endpoint, requirement] of Object.entries(this.requirements)) {
+      endpoints[endpoint] = !known || !unmet(requirement, keyStatus);
+    }
+
+    return {
+      known,
+      scopes: keyStatus.scopes,
+      auto: keyStatus.autoEnabled,
+      hmacRequired: keyStatus.hmacEnabled,
+      hmacConfigured,
+      endpoints,
+      keyStatus,
+    };
+  }
+}
+
+/** The part of `requirement` the key does not meet, if any. */
+function unmet(
+  requirement: CapabilityRequirement,
+  keyStatus: KeyStatus,
+): CapabilityRequirement | undefined {
+  if (
+    requirement.scope !== undefined &&
+    !keyStatus.hasScope(requirement.scope)
+  ) {
+    return { scope: requirement.scope };
+  }
+  if (requirement.feature === "auto" && !keyStatus.autoEnabled) {
+    return { feature: "auto" };
+  }
+  return undefined;
+}
+
+function mergeRequirements(
+  overrides: Record<string, CapabilityRequirement | null> = {},
+): Record<string, CapabilityRequirement> {
+  const merged: Record<string, CapabilityRequirement> = {
+    ...DEFAULT_REQUIREMENTS,
+  };
+  for (const [endpoint, requirement] of Object.entries(overrides)) {
+    if (requirement) merged[endpoint] = requirement;
+    else delete merged[endpoint];
+  }
+  return merged;
+}
@@ -0,0 +1,173 @@
+import { s, type Schema } from "./schema.js";
+
+/**
+ * Runtime mirrors of the response types in `types/elfa.ts`, keyed by path.
+ * Keep them in step with the interfaces: a field added there should be added
+ * here, or `validateResponses` will not notice when it goes missing.
+ */
+
+/** `ProcessedMention` counts may be null; `TopMentionV2` counts may not. */
+function mention(count: Schema): Schema {
+  return s.object({
+    tweetId: s.string,
+    link: s.string,
+    likeCount: count,
+    repostCount: count,
+    viewCount: count,
+    quoteCount: count,
+    replyCount: count,
+    bookmarkCount: count,
+    mentionedAt: s.string,
+    type: s.literal("repost", "post", "quote", "reply", "note", "article"),
+    account: s.optional(
+      s.object({ isVerified: s.boolean, username: s.string }),
+    ),
+    repostBreakdown: s.object({ smart: s.number, ct: s.number }),
+  });
+}
+
+const processedMention = mention(s.nullable(s.number));
+
+const pageMetadata = s.object({
+  pageSize: s.number,
+  page: s.number,
+  total: s.number,
+});
+
+function nestedPage(item: Schema): Schema {
+  return s.object({
+    success: s.boolean,
+    data: s.object({
+      pageSize: s.number,
+      page: s.number,
+      total: s.number,
+      data: s.array(item),
+    }),
+  });
+}
+
+const trendingCAs = nestedPage(
+  s.object({
+    contractAddress: s.string,
+    chain: s.literal("ethereum", "solana"),
+    mentionCount: s.number,
+  }),
+);
+
+export const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  "/v2/ping": s.object({
+    success: s.literal(true),
+    data: s.object({ message: s.string }),
+  }),
+
+  "/v2/key-status": s.object({
+    success: s.boolean,
+    data: s.union(
+      s.object({
+        id: s.number,
+        name: s.string,
+        status: s.literal("active", "revoked", "expired", "payment_required"),
+        dailyRequestLimit: s.number,
+        monthlyRequestLimit: s.number,
+        requestsPerMinute: s.nullable(s.number),
+        hmacEnabled: s.boolean,
+        scopes: s.array(s.string),
+        tier: s.string,
+        billingMode: s.literal("deposit", "arrears"),
+        usage: s.object({ monthly: s.number, daily: s.number }),
+        limits: s.object({ monthly: s.number, daily: s.number }),
+        isExpired: s.boolean,
+        remainingRequests: s.object({ monthly: s.number, daily: s.number }),
+      }),
+      s.object({
+        name: s.string,
+        dailyLimit: s.number,
+        monthlyLimit: s.number,
+        tier: s.string,
+        usage: s.object({
+          remainingMonthly: s.number,
+          remainingDaily: s.number,
+          month: s.number,
+          today: s.number,
+        }),
+        subscription: s.object({ status: s.string }),
+        allowOverage: s.boolean,
+      }),
+    ),
+  }),
+
+  "/v2/aggregations/trending-tokens": nestedPage(
+    s.object({
+      change_percent: s.number,
+      previous_count: s.number,
+      current_count: s.number,
+      token: s.string,
+    }),
+  ),
+
+  "/v2/account/smart-stats": s.object({
+    success: s.boolean,
+    data: s.object({
+      smartFollowingCount: s.number,
+      averageEngagement: s.number,
+      averageReach: s.number,
+      smartFollowerCount: s.optional(s.number),
+      followerCount: s.optional(s.number),
+    }),
+  }),
+
+  "/v2/data/keyword-mentions": s.object({
+    success: s.boolean,
+    data: s.array(processedMention),
+    metadata: s.object({ cursor: s.optional(s.number), total: s.number }),
+  }),
+
+  "/v2/data/token-news": s.object({
+    success: s.boolean,
+    data: s.array(processedMention),
+    metadata: pageMetadata,
+  }),
+
+  "/v2/aggregations/trending-cas/twitter": trendingCAs,
+  "/v2/aggregations/trending-cas/telegram": trendingCAs,
+
+  "/v2/data/top-mentions": s.object({
+    success: s.boolean,
+    data: s.array(mention(s.number)),
+    metadata: pageMetadata,
+  }),
+
+  "/v2/data/event-summary": s.object({
+    success: s.boolean,
+    data: s.array(
+      s.object({
+        tweetIds: s.array(s.string),
+        sourceLinks: s.array(s.string),
+        summary: s.string,
+      }),
+    ),
+    metadata: s.object({
+      summaries: s.number,
+      total_summarized: s.number,
+      total: s.number,
+    }),
+  }),
+
+  "/v2/data/trending-narratives": s.object({
+    success: s.boolean,
+    data: s.object({
+      trending_narratives: s.array(
+        s.object({
+          narrative: s.string,
+          source_links: s.array(s.string),
+          tweet_ids: s.array(s.string),
+        }),
+      ),
+      metadata: s.object({
+        total_narratives: s.optional(s.number),
+        total_tweets: s.optional(s.number),
+        error: s.optional(s.string),
+      }),
+    }),
+  }),
+};
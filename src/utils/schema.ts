@@ -0,0 +1,134 @@
+/**
+ * A minimal runtime schema, just enough to notice when a response drifts from
+ * the hand-written types in `src/types/`. Not a general-purpose validator:
+ * objects are open (unknown keys pass, since response shapes are extensible)
+ * and there are no coercions.
+ */
+export interface Schema {
+  /** Human-readable expectation, used in drift reports. */
+  readonly expected: string;
+  readonly optional?: boolean;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+}
+
+export interface SchemaIssue {
+  /** Dotted path into the response, e.g. `data.data[0].token`. */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+function primitive(type: "string" | "number" | "boolean"): Schema {
+  return {
+    expected: type,
+    check(value, path, issues) {
+      if (typeof value !== type) issues.push(issue(path, type, value));
+    },
+  };
+}
+
+export const s = {
+  string: primitive("string"),
+  number: primitive("number"),
+  boolean: primitive("boolean"),
+
+  unknown: {
+    expected: "unknown",
+    check() {},
+  } as Schema,
+
+  literal(...values: (string | number | boolean)[]): Schema {
+    const expected = values.map((v) => JSON.stringify(v)).join(" | ");
+    return {
+      expected,
+      check(value, path, issues) {
+        if (!values.includes(value as string)) {
+          issues.push(issue(path, expected, value));
+        }
+      },
+    };
+  },
+
+  array(item: Schema): Schema {
+    return {
+      expected: `${item.expected}[]`,
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push(issue(path, "array", value));
+          return;
+        }
+        value.forEach((entry, index) =>
+          item.check(entry, `${path}[${index}]`, issues),
+        );
+      },
+    };
+  },
+
+  object(shape: Record<string, Schema>): Schema {
+    return {
+      expected: "object",
+      check(value, path, issues) {
+        if (
+          typeof value !== "object" ||
+          value === null ||
+          Array.isArray(value)
+        ) {
+          issues.push(issue(path, "object", value));
+          return;
+        }
+        for (const [key, schema] of Object.entries(shape)) {
+          const field = (value as Record<string, unknown>)[key];
+          if (field === undefined && schema.optional) continue;
+          schema.check(field, path ? `${path}.${key}` : key, issues);
+        }
+      },
+    };
+  },
+
+  optional(schema: Schema): Schema {
+    return { ...schema, optional: true };
+  },
+
+  nullable(schema: Schema): Schema {
+    const expected = `${schema.expected} | null`;
+    return {
+      expected,
+      check(value, path, issues) {
+        if (value !== null) schema.check(value, path, issues);
+      },
+    };
+  },
+
+  /** Passes if any member does; otherwise reports the closest member's issues. */
+  union(...members: Schema[]): Schema {
+    return {
+      expected: members.map((m) => m.expected).join(" | "),
+      check(value, path, issues) {
+        let closest: SchemaIssue[] | undefined;
+        for (const member of members) {
+          const found: SchemaIssue[] = [];
+          member.check(value, path, found);
+          if (found.length === 0) return;
+          if (!closest || found.length < closest.length) closest = found;
+        }
+        issues.push(...(closest ?? []));
+      },
+    };
+  },
+};
+
+export function validateSchema(schema: Schema, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, "", issues);
+  return issues;
+}
+
+function issue(path: string, expected: string, value: unknown): SchemaIssue {
+  return { path, expected, received: describe(value) };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
@@ -2,6 +2,8 @@ export interface SSEMessage {
   event?: string;
   data: string;
   id?: string;
+  /** Reconnection time in ms from a `retry:` field. */
+  retry?: number;
 }
 
 export async function* readSSE(
@@ -37,16 +39,31 @@ export async function* readSSE(
 function parseFrame(frame: string): SSEMessage | null {
   let event: string | undefined;
   let id: string | undefined;
+  let retry: number | undefined;
   const data: string[] = [];
 
   for (const line of frame.split(/\r?\n/)) {
     if (line.startsWith(":")) continue;
     if (line.startsWith("event:")) event = line.slice(6).trim();
     else if (line.startsWith("id:")) id = line.slice(3).trim();
-    else if (line.startsWith("data:"))
+    else if (line.startsWith("retry:")) {
+      // Per the spec, a value that is not all ASCII digits is ignored.
+      const value = line.slice(6).trim();
+      if (/^\d+$/.test(value)) retry = Number(value);
+    } else if (line.startsWith("data:"))
       data.push(line.slice(5).replace(/^ /, ""));
   }
 
-  if (data.length === 0 && event === undefined) return null;
-  return { event, id, data: data.join("\n") };
+  // A bare `id:` still moves the last event ID, so it is not dropped.
+  if (
+    data.length === 0 &&
+    event === undefined &&
+    id === undefined &&
+    retry === undefined
+  ) {
+    return null;
+  }
+  const message: SSEMessage = { event, id, data: data.join("\n") };
+  if (retry !== undefined) message.retry = retry;
+  return message;
 }
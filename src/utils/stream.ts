@@ -0,0 +1,273 @@
+import {
+  isElfaSDKError,
+  NetworkError,
+  isRetryableError,
+  isRateLimitError,
+  getErrorMessage,
+  getErrorCode,
+} from "./errors.js";
+import { resolveRetryWait, responseError } from "./http.js";
+import { creditEndpoint } from "./credits.js";
+import { readSSE, type SSEMessage } from "./sse.js";
+import {
+  createMiddlewareContext,
+  runMiddleware,
+  toTransportRequest,
+  type Middleware,
+} from "./middleware.js";
+import type { TelemetryCall } from "./telemetry.js";
+import type { Logger } from "./logger.js";
+import type { RateLimiter, RequestPriority } from "./limiter.js";
+import {
+  isSuccessStatus,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+} from "./transport.js";
+
+export interface StreamConnectOptions {
+  transport: Transport;
+  /** Names the stream in `NetworkError` messages, e.g. `Auto stream`. */
+  label: string;
+  /** ms per attempt until the response headers are in. */
+  timeout?: number;
+  /** Attempts after the first. Default 0. */
+  retries?: number;
+  /** Base backoff in ms, doubled per attempt. Default 1000. */
+  retryDelay?: number;
+  logger?: Logger;
+  /** Ties the stream's log lines together. */
+  requestId?: string;
+  signal?: AbortSignal;
+  middleware?: readonly Middleware[];
+  /** The stream's span, which sees its retries and response status. */
+  call?: TelemetryCall;
+  /** Each attempt waits its turn here, as JSON calls do. */
+  rateLimiter?: RateLimiter;
+  /** Lane in `rateLimiter`. Default `normal`. */
+  priority?: RequestPriority;
+  /**
+   * Sees each failed attempt's error; `true` sends the next attempt at once
+   * without spending a retry, e.g. with another pool key.
+   */
+  failover?: (error: Error) => boolean;
+}
+
+export interface StreamReadOptions {
+  /** ms without a byte before the connection counts as dropped; 0 for none. */
+  idleTimeout?: number;
+  logger?: Logger;
+  requestId?: string;
+  /** Logged with each event. */
+  url: string;
+  /** Counts the events read. */
+  call?: TelemetryCall;
+}
+
+type StreamRequest = Omit<
+  TransportRequest,
+  "timeout" | "signal" | "responseType"
+>;
+
+/**
+ * Opens an SSE stream and returns its response, `2xx` only. `build` makes
+ * each attempt's request, so signatures and resume headers are fresh.
+ *
+ * Failures before the response is in — network errors, `5xx`, `429` — are
+ * retried up to `retries` times, waiting as `resolveRetryWait` says. Once
+ * the body is handed back nothing is retried here; that is the caller's
+ * reconnect policy, if it has one.
+ */
+export async function connectStream(
+  build: () => StreamRequest,
+  options: StreamConnectOptions,
+): Promise<TransportResponse> {
+  const { signal, logger } = options;
+  const retries = options.retries ?? 0;
+  const retryDelay = options.retryDelay ?? 1000;
+
+  for (let attempt = 0; ; attempt++) {
+    // Outside the try: the limiter refusing is not a failed connect.
+    const queuedAt = Date.now();
+    await options.rateLimiter?.acquire(options.priority ?? "normal", signal);
+    options.call?.queued(Date.now() - queuedAt);
+
+    const request = build();
+    const fields = {
+      ...(options.requestId ? { requestId: options.requestId } : {}),
+      endpoint: creditEndpoint(request.method, request.url),
+      attempt,
+    };
+
+    const context = createMiddlewareContext(
+      { ...request, ...(signal ? { signal } : {}) },
+      attempt,
+      true,
+    );
+    let error: Error;
+    try {
+      const response = await runMiddleware(
+        options.middleware ?? [],
+        context,
+        async (context) => {
+          logger?.debug(
+            { ...fields, url: context.url, headers: context.headers },
+            "SSE connect",
+          );
+          const startedAt = Date.now();
+          let response: TransportResponse;
+          try {
+            response = await options.transport.request(
+              toTransportRequest(context, options.timeout, "stream"),
+            );
+          } catch (caught) {
+            if (signal?.aborted || isElfaSDKError(caught)) {
+              throw caught;
+            }
+            throw new NetworkError(
+              `${options.label} failed: ${getErrorMessage(caught)}`,
+              caught instanceof Error ? caught : undefined,
+            );
+          }
+          logger?.debug(
+            {
+              ...fields,
+              status: response.status,
+              durationMs: Date.now() - startedAt,
+            },
+            "SSE response",
+          );
+          if (!isSuccessStatus(response.status)) {
+            throw responseError(response);
+          }
+          return response;
+        },
+      );
+      options.call?.response(response.status);
+      if (isSuccessStatus(response.status)) return response;
+      error = responseError(response);
+    } catch (caught) {
+      if (signal?.aborted || !(caught instanceof Error)) throw caught;
+      error = caught;
+    }
+    // Another key is not a retry: the request never ran on this one.
+    if (!signal?.aborted && options.failover?.(error)) {
+      attempt--;
+      continue;
+    }
+    if (isRateLimitError(error) && error.resetTime) {
+      options.rateLimiter?.pauseUntil(error.resetTime);
+    }
+
+    if (attempt >= retries || signal?.aborted || !isRetryableError(error)) {
+      throw error;
+    }
+    const wait = resolveRetryWait(error, retryDelay * 2 ** attempt);
+    if (wait === undefined) throw error;
+
+    logger?.debug(
+      {
+        ...fields,
+        attempt: attempt + 1,
+        retries,
+        waitMs: wait,
+        error: getErrorCode(error),
+      },
+      "Retrying stream connect",
+    );
+    options.call?.retry(wait, error);
+    await sleep(wait, signal);
+  }
+}
+
+/**
+ * `readSSE`, with an idle timeout and logs. Cancels `body` when done,
+ * however it ends, which closes the connection.
+ */
+export async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  options: StreamReadOptions,
+): AsyncGenerator<SSEMessage> {
+  const { logger } = options;
+  const fields = {
+    ...(options.requestId ? { requestId: options.requestId } : {}),
+    url: options.url,
+  };
+  const source = options.idleTimeout
+    ? withIdleTimeout(body, options.idleTimeout)
+    : body;
+  const openedAt = Date.now();
+  let events = 0;
+  try {
+    for await (const message of readSSE(source)) {
+      events += 1;
+      logger?.debug(
+        {
+          ...fields,
+          event: message.event ?? "message",
+          ...(message.id !== undefined ? { id: message.id } : {}),
+        },
+        "SSE event",
+      );
+      options.call?.event();
+      yield message;
+    }
+  } finally {
+    await source.cancel().catch(() => {});
+    logger?.debug(
+      { ...fields, events, durationMs: Date.now() - openedAt },
+      "SSE closed",
+    );
+  }
+}
+
+/** `body`, erroring with a `NetworkError` when no chunk arrives for `ms`. */
+function withIdleTimeout(
+  body: ReadableStream<Uint8Array>,
+  ms: number,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new NetworkError(`Stream idle for ${ms}ms`)),
+          ms,
+        );
+      });
+      try {
+        const { done, value } = await Promise.race([reader.read(), idle]);
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        reader.cancel(error).catch(() => {});
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/** Resolves after `ms`, or rejects with the signal's reason on abort. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
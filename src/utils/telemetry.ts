@@ -0,0 +1,206 @@
+import { getErrorCode, isRateLimitError } from "./errors.js";
+import { creditEndpoint, type CreditMeter } from "./credits.js";
+import { VERSION } from "../version.js";
+
+type Attributes = Record<string, string | number | boolean>;
+
+export interface OtelSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+export interface OtelTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Attributes },
+  ): OtelSpan;
+}
+
+export interface OtelMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { add(value: number, attributes?: Attributes): void };
+}
+
+/**
+ * The part of `@opentelemetry/api` the SDK uses. The SDK does not depend on
+ * it; pass the module you installed.
+ */
+export interface OpenTelemetryApi {
+  trace: { getTracer(name: string, version?: string): OtelTracer };
+  metrics: { getMeter(name: string, version?: string): OtelMeter };
+}
+
+export interface TelemetryOptions {
+  /** `import * as api from "@opentelemetry/api"`. */
+  api: OpenTelemetryApi;
+  /** Tracer and meter name. Default `@elfa-ai/sdk`. */
+  name?: string;
+}
+
+// Stable values of the API's `SpanKind.CLIENT` and `SpanStatusCode.ERROR`.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Spans and metrics for each call and stream, through the OpenTelemetry API
+ * alone: with no OpenTelemetry SDK registered, the API's no-op tracer and
+ * meter make this free.
+ *
+ * Spans are named by endpoint, e.g. `GET /v2/auto/queries/{id}`. Metrics are
+ * `elfa.client.request.duration` (ms), `elfa.client.errors` by
+ * `error.type` — the `ElfaSDKError` code — and `elfa.client.credits`, fed by
+ * the `CreditMeter` this is attached to.
+ */
+export class Telemetry {
+  private readonly tracer: OtelTracer;
+  private readonly instruments: TelemetryInstruments;
+
+  constructor(options: TelemetryOptions) {
+    const name = options.name ?? "@elfa-ai/sdk";
+    this.tracer = options.api.trace.getTracer(name, VERSION);
+    const meter = options.api.metrics.getMeter(name, VERSION);
+    this.instruments = {
+      duration: meter.createHistogram("elfa.client.request.duration", {
+        description: "Duration of Elfa API calls and streams",
+        unit: "ms",
+      }),
+      errors: meter.createCounter("elfa.client.errors", {
+        description: "Failed Elfa API calls and streams",
+      }),
+      credits: meter.createCounter("elfa.client.credits", {
+        description: "Elfa API credits consumed",
+      }),
+    };
+  }
+
+  /** Opens a span for one call; `url` may be a path or absolute. */
+  public startCall(method: string, url: string, stream = false): TelemetryCall {
+    const endpoint = creditEndpoint(method, url);
+    const attributes: Attributes = {
+      "http.request.method": method.toUpperCase(),
+      "elfa.endpoint": endpoint,
+      "elfa.stream": stream,
+    };
+    const span = this.tracer.startSpan(endpoint, {
+      kind: SPAN_KIND_CLIENT,
+      attributes,
+    });
+    return new TelemetryCall(span, attributes, this.instruments);
+  }
+
+  /** Counts every credit `meter` records. Returns a function that detaches. */
+  public attach(meter: CreditMeter): () => void {
+    return meter.on("record", (record) =>
+      this.instruments.credits.add(record.credits, {
+        "elfa.endpoint": record.endpoint,
+        "elfa.credit_source": record.source,
+      }),
+    );
+  }
+}
+
+interface TelemetryInstruments {
+  duration: ReturnType<OtelMeter["createHistogram"]>;
+  errors: ReturnType<OtelMeter["createCounter"]>;
+  credits: ReturnType<OtelMeter["createCounter"]>;
+}
+
+/** One call's span, filled in as the call goes and closed by `end`. */
+export class TelemetryCall {
+  private readonly span: OtelSpan;
+  /** The span's opening attributes, which metrics are recorded by too. */
+  private readonly attributes: Attributes;
+  private readonly instruments: TelemetryInstruments;
+  private readonly startedAt = Date.now();
+  private resends = 0;
+  private rateLimitWait = 0;
+  private credits = 0;
+  private events = 0;
+  private status?: number;
+  private ended = false;
+
+  constructor(
+    span: OtelSpan,
+    attributes: Attributes,
+    instruments: TelemetryInstruments,
+  ) {
+    this.span = span;
+    this.attributes = attributes;
+    this.instruments = instruments;
+  }
+
+  /** A retry or reconnect after `waitMs`, because of `error`. */
+  public retry(waitMs: number, error: Error): void {
+    this.resends += 1;
+    if (isRateLimitError(error)) this.rateLimitWait += waitMs;
+    this.span.addEvent("retry", {
+      "http.request.resend_count": this.resends,
+      "elfa.retry.wait_ms": waitMs,
+      "error.type": getErrorCode(error),
+    });
+  }
+
+  /** Time spent queued in the client-side rate limiter. */
+  public queued(waitMs: number): void {
+    this.rateLimitWait += waitMs;
+  }
+
+  public response(status: number): void {
+    this.status = status;
+  }
+
+  public credit(credits: number): void {
+    this.credits += credits;
+  }
+
+  /** An event read off a stream. */
+  public event(): void {
+    this.events += 1;
+  }
+
+  /** Closes the span, failed when `error` is given. Later calls are no-ops. */
+  public end(error?: Error): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const status = statusCodeOf(error) ?? this.status;
+    const metric: Attributes = {
+      ...this.attributes,
+      ...(status !== undefined ? { "http.response.status_code": status } : {}),
+      ...(error ? { "error.type": getErrorCode(error) } : {}),
+    };
+
+    this.span.setAttribute("http.request.resend_count", this.resends);
+    this.span.setAttribute("elfa.rate_limit.wait_ms", this.rateLimitWait);
+    if (status !== undefined) {
+      this.span.setAttribute("http.response.status_code", status);
+    }
+    if (this.credits > 0) this.span.setAttribute("elfa.credits", this.credits);
+    if (this.attributes["elfa.stream"] === true) {
+      this.span.setAttribute("elfa.stream.events", this.events);
+    }
+    if (error) {
+      this.span.setAttribute("error.type", getErrorCode(error));
+      this.span.recordException(error);
+      this.span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+      this.instruments.errors.add(1, metric);
+    }
+    this.span.end();
+    this.instruments.duration.record(Date.now() - this.startedAt, metric);
+  }
+}
+
+function statusCodeOf(error: Error | undefined): number | undefined {
+  const statusCode = (error as { statusCode?: unknown } | undefined)
+    ?.statusCode;
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
@@ -0,0 +1,223 @@
+import { NetworkError } from "./errors.js";
+
+export interface TransportRequest {
+  method: string;
+  /** Absolute, query string included. */
+  url: string;
+  headers: Record<string, string>;
+  /** Already serialised. */
+  body?: string;
+  /**
+   * ms until the response is in: its whole body for `json`, its headers for
+   * `stream`, whose body may stay open for as long as the server sends.
+   * Unset for none.
+   */
+  timeout?: number;
+  signal?: AbortSignal;
+  /**
+   * `json` reads the body into `data`. `stream` hands a 2xx body back unread
+   * as `body`; any other status is read into `data`, so errors carry it.
+   */
+  responseType: "json" | "stream";
+}
+
+export interface TransportResponse {
+  status: number;
+  /** Names lower-cased. */
+  headers: Record<string, string>;
+  /** The parsed JSON body, or its text when not JSON; unset when empty. */
+  data?: unknown;
+  /** The unread body of a 2xx `stream` response. */
+  body?: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * Sends one HTTP request; every call the SDK makes, JSON and SSE alike, goes
+ * through one. Resolve with whatever status the server answered — mapping it
+ * to an error is the SDK's job — and reject only when there is no response.
+ * A rejection that is not an `ElfaSDKError` is reported as a `NetworkError`.
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export function isSuccessStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+export interface FetchTransportOptions {
+  /** Defaults to the global `fetch`, looked up on each request. */
+  fetch?: typeof fetch;
+}
+
+/** The default transport: `fetch`, global or your own. */
+export function createFetchTransport(
+  options: FetchTransportOptions = {},
+): Transport {
+  return {
+    async request(request) {
+      const fetchImpl = options.fetch ?? globalThis.fetch;
+      // A timer rather than `AbortSignal.timeout`, so a stream's body is not
+      // aborted once its headers are in.
+      const timeout = request.timeout ? new AbortController() : undefined;
+      const timer =
+        timeout && setTimeout(() => timeout.abort(), request.timeout);
+      const signal =
+        timeout && request.signal
+          ? AbortSignal.any([request.signal, timeout.signal])
+          : (timeout?.signal ?? request.signal);
+
+      try {
+        const response = await fetchImpl(request.url, {
+          method: request.method,
+          headers: request.headers,
+          ...(request.body !== undefined ? { body: request.body } : {}),
+          ...(signal ? { signal } : {}),
+        });
+        const status = response.status;
+        const headers: Record<string, string> = {};
+        response.headers?.forEach((value, name) => {
+          headers[name.toLowerCase()] = value;
+        });
+
+        if (request.responseType === "stream" && isSuccessStatus(status)) {
+          return { status, headers, body: response.body ?? null };
+        }
+        const text = isSuccessStatus(status)
+          ? await response.text()
+          : await response.text().catch(() => "");
+        return { status, headers, data: parseBody(text) };
+      } catch (error) {
+        if (timeout?.signal.aborted && !request.signal?.aborted) {
+          throw new NetworkError(
+            `timeout of ${request.timeout}ms exceeded`,
+            error as Error,
+          );
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+/** The part of an axios instance `createAxiosTransport` uses. */
+export interface AxiosLike {
+  request(config: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    data?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    responseType: "json" | "stream";
+    validateStatus: (status: number) => boolean;
+  }): Promise<{ status: number; headers: unknown; data: unknown }>;
+}
+
+/**
+ * Sends through an axios instance you create, e.g. one with a proxy agent.
+ * The SDK does not depend on axios; install it yourself to use this.
+ */
+export function createAxiosTransport(axios: AxiosLike): Transport {
+  return {
+    async request(request) {
+      const response = await axios.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        ...(request.body !== undefined ? { data: request.body } : {}),
+        ...(request.timeout ? { timeout: request.timeout } : {}),
+        ...(request.signal ? { signal: request.signal } : {}),
+        responseType: request.responseType,
+        validateStatus: () => true,
+      });
+      const status = response.status;
+      const headers = normaliseHeaders(response.headers);
+
+      if (request.responseType !== "stream") {
+        return { status, headers, data: emptyAsUndefined(response.data) };
+      }
+      if (isSuccessStatus(status)) {
+        return { status, headers, body: toReadableStream(response.data) };
+      }
+      const text = await readText(response.data).catch(() => "");
+      return { status, headers, data: parseBody(text) };
+    },
+  };
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function emptyAsUndefined(data: unknown): unknown {
+  return data === "" ? undefined : data;
+}
+
+/** axios sends `AxiosHeaders`, which serialise to a plain object. */
+function normaliseHeaders(headers: unknown): Record<string, string> {
+  const raw =
+    headers && typeof (headers as { toJSON?: unknown }).toJSON === "function"
+      ? (headers as { toJSON: () => unknown }).toJSON()
+      : headers;
+  const normalised: Record<string, string> = {};
+  if (raw && typeof raw === "object") {
+    for (const [name, value] of Object.entries(raw)) {
+      if (value == null) continue;
+      normalised[name.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : String(value);
+    }
+  }
+  return normalised;
+}
+
+/**
+ * axios streams a Node `Readable` on Node and a `ReadableStream` under its
+ * fetch adapter; both become a `ReadableStream`.
+ */
+function toReadableStream(data: unknown): ReadableStream<Uint8Array> | null {
+  if (data instanceof ReadableStream) return data;
+  if (!isAsyncIterable(data)) return null;
+
+  const iterator = data[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) controller.close();
+      else {
+        controller.enqueue(
+          typeof value === "string" ? encoder.encode(value) : value,
+        );
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+async function readText(data: unknown): Promise<string> {
+  if (typeof data === "string") return data;
+  const stream = toReadableStream(data);
+  return stream ? new Response(stream).text() : "";
+}
+
+function isAsyncIterable(
+  value: unknown,
+): value is AsyncIterable<Uint8Array | string> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] ===
+      "function"
+  );
+}
@@ -0,0 +1,53 @@
+import { isPaymentRequiredError } from "./errors.js";
+import type {
+  X402PaymentChallenge,
+  X402PaymentRequirements,
+  X402PaymentSigner,
+} from "../types/x402.js";
+
+export const X402_PAYMENT_HEADER = "X-PAYMENT";
+export const AGENT_SECRET_HEADER = "x-elfa-agent-secret";
+
+/**
+ * Reads a 402 body into a challenge. Tolerant by design: a body without
+ * `accepts` (or no JSON at all) still yields a challenge, just an empty one.
+ */
+export function parsePaymentChallenge(data: unknown): X402PaymentChallenge {
+  const body =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const challenge: X402PaymentChallenge = {
+    x402Version: typeof body.x402Version === "number" ? body.x402Version : 1,
+    accepts: Array.isArray(body.accepts)
+      ? (body.accepts.filter(
+          (entry) => entry && typeof entry === "object",
+        ) as X402PaymentRequirements[])
+      : [],
+  };
+  if (typeof body.error === "string") challenge.error = body.error;
+  return challenge;
+}
+
+/**
+ * Sends once unpaid; on a 402, asks `signer` for a payment and sends once
+ * more with it. A second 402 (payment rejected) is thrown as-is, so a signer
+ * is never asked twice for the same call. `send` must not retry a paid call:
+ * the payment may already be settled.
+ */
+export async function withPayment<T>(
+  signer: X402PaymentSigner | undefined,
+  request: { method: string; url: string },
+  send: (headers?: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    if (!signer || !isPaymentRequiredError(error as Error)) throw error;
+
+    const { x402Version, requirements } = error as {
+      x402Version: number;
+      requirements: X402PaymentRequirements[];
+    };
+    const payment = await signer({ ...request, x402Version, requirements });
+    return send({ [X402_PAYMENT_HEADER]: payment });
+  }
+}